@@ -1,12 +1,35 @@
+-- 与最新的数据库迁移版本一致的完整表结构，Worker启动时会自动补齐迁移记录
+-- 创建面板表，第一个面板同时作为首页
+CREATE TABLE IF NOT EXISTS dashboards (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    slug TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    name TEXT NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    custom_css TEXT NOT NULL DEFAULT '',
+    order_num INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT INTO dashboards (slug, name, title) VALUES ('default', '导航站', '导航站');
+
 -- 创建分组表
 CREATE TABLE IF NOT EXISTS groups (
     id INTEGER PRIMARY KEY AUTOINCREMENT, 
     name TEXT NOT NULL, 
     order_num INTEGER NOT NULL, 
+    visibility TEXT NOT NULL DEFAULT 'public', 
+    parent_id INTEGER, 
+    dashboard_id INTEGER, 
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, 
-    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, 
+    deleted_at TIMESTAMP
 );
 
+CREATE INDEX IF NOT EXISTS idx_groups_parent_id ON groups (parent_id);
+CREATE INDEX IF NOT EXISTS idx_groups_deleted_at ON groups (deleted_at);
+CREATE INDEX IF NOT EXISTS idx_groups_dashboard_id ON groups (dashboard_id);
+
 -- 创建站点表
 CREATE TABLE IF NOT EXISTS sites (
     id INTEGER PRIMARY KEY AUTOINCREMENT, 
@@ -17,11 +40,16 @@ CREATE TABLE IF NOT EXISTS sites (
     description TEXT, 
     notes TEXT, 
     order_num INTEGER NOT NULL, 
+    alt_urls TEXT NOT NULL DEFAULT '{}', 
+    custom_fields TEXT NOT NULL DEFAULT '{}', 
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, 
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, 
+    deleted_at TIMESTAMP, 
     FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
 );
 
+CREATE INDEX IF NOT EXISTS idx_sites_deleted_at ON sites (deleted_at);
+
 -- 创建配置表
 CREATE TABLE IF NOT EXISTS configs (
     key TEXT PRIMARY KEY,
@@ -30,5 +58,128 @@ CREATE TABLE IF NOT EXISTS configs (
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- 创建用户表
+CREATE TABLE IF NOT EXISTS users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'editor',
+    is_active INTEGER NOT NULL DEFAULT 1,
+    totp_secret TEXT,
+    totp_enabled INTEGER NOT NULL DEFAULT 0,
+    totp_last_step INTEGER,
+    recovery_codes TEXT,
+    auth_provider TEXT NOT NULL DEFAULT 'local',
+    oidc_subject TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_oidc_subject ON users (oidc_subject);
+
+-- 创建登录失败记录表（按IP和用户名统计，用于暴力破解防护）
+CREATE TABLE IF NOT EXISTS login_attempts (
+    scope TEXT NOT NULL,
+    key TEXT NOT NULL,
+    failures INTEGER NOT NULL DEFAULT 0,
+    locked_until INTEGER NOT NULL DEFAULT 0,
+    last_failed_at INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (scope, key)
+);
+
+-- 创建会话表（id为令牌中的jti，用于服务端撤销登录）
+CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    ip TEXT,
+    user_agent TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_seen_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    revoked_at INTEGER,
+    refresh_token_hash TEXT,
+    remember INTEGER NOT NULL DEFAULT 0,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 创建API令牌表（仅保存令牌哈希）
+CREATE TABLE IF NOT EXISTS api_tokens (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    token_hash TEXT NOT NULL UNIQUE,
+    token_prefix TEXT NOT NULL,
+    scopes TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    last_used_at INTEGER,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+);
+
+-- 创建审计日志表（changes为JSON格式的字段变更）
+CREATE TABLE IF NOT EXISTS audit_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id INTEGER,
+    username TEXT NOT NULL,
+    ip TEXT,
+    action TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT,
+    changes TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+);
+
+-- 创建标签表和站点标签关联表
+CREATE TABLE IF NOT EXISTS tags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS site_tags (
+    site_id INTEGER NOT NULL,
+    tag_id INTEGER NOT NULL,
+    PRIMARY KEY (site_id, tag_id),
+    FOREIGN KEY (site_id) REFERENCES sites(id) ON DELETE CASCADE,
+    FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_tags_tag_id ON site_tags (tag_id);
+
+-- 创建站点历史版本表，保存每次修改前的快照
+CREATE TABLE IF NOT EXISTS site_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    site_id INTEGER NOT NULL,
+    snapshot TEXT NOT NULL,
+    username TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (site_id) REFERENCES sites(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_revisions_site_id ON site_revisions (site_id, id);
+
+-- 创建图标表（id为图片内容的SHA-256，data为Base64编码的图片内容）
+CREATE TABLE IF NOT EXISTS icons (
+    id TEXT PRIMARY KEY,
+    content_type TEXT NOT NULL,
+    data TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 创建网站图标缓存表（icon_id为空表示没有找到图标）
+CREATE TABLE IF NOT EXISTS favicon_cache (
+    url TEXT PRIMARY KEY,
+    icon_id TEXT,
+    source TEXT,
+    fetched_at INTEGER NOT NULL
+);
+
+-- 创建数据库迁移记录表
+CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+);
+
 -- 设置初始化标志
 INSERT INTO configs (key, value) VALUES ('DB_INITIALIZED', 'true');
\ No newline at end of file
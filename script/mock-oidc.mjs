@@ -0,0 +1,169 @@
+// 本地模拟OIDC身份提供方，用于开发和测试SSO登录，只依赖Node.js内置模块
+// 用法：node script/mock-oidc.mjs
+// 然后在 wrangler.jsonc 中配置：
+//   "OIDC_ISSUER": "http://localhost:9400",
+//   "OIDC_CLIENT_ID": "navihive",
+//   "OIDC_CLIENT_SECRET": "navihive-secret",
+//   "OIDC_ROLE_MAPPING": "{\"admin\":[\"group:admins\"],\"editor\":[\"@example.com\"]}"
+import http from "node:http";
+import crypto from "node:crypto";
+
+const PORT = Number(process.env.PORT || 9400);
+const ISSUER = process.env.ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.CLIENT_ID || "navihive";
+const CLIENT_SECRET = process.env.CLIENT_SECRET || "navihive-secret";
+
+// 每次启动生成新的RSA密钥对，用于签发ID令牌
+const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const KEY_ID = crypto.randomUUID();
+const jwk = { ...publicKey.export({ format: "jwk" }), kid: KEY_ID, alg: "RS256", use: "sig" };
+
+const codes = new Map(); // 授权码 -> 登录信息
+const accessTokens = new Map(); // 访问令牌 -> 用户信息
+
+const base64Url = data => Buffer.from(data).toString("base64url");
+
+function signIdToken(claims) {
+    const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT", kid: KEY_ID }));
+    const payload = base64Url(JSON.stringify(claims));
+    const signature = crypto.sign("sha256", Buffer.from(`${header}.${payload}`), privateKey);
+    return `${header}.${payload}.${signature.toString("base64url")}`;
+}
+
+function escapeHtml(value) {
+    return String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function sendJson(res, status, body) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+async function readForm(req) {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    return new URLSearchParams(body);
+}
+
+// 登录页：填写要模拟的邮箱和组，不校验密码
+function renderLoginPage(params) {
+    const hidden = [...params]
+        .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+        .join("");
+    return `<!doctype html><meta charset="utf-8"><title>Mock OIDC</title>
+<body style="font-family: sans-serif; max-width: 360px; margin: 80px auto">
+<h2>模拟身份提供方</h2>
+<form method="post" action="/authorize">${hidden}
+<p><label>邮箱<br><input name="email" value="alice@example.com" style="width: 100%"></label></p>
+<p><label>组（逗号分隔）<br><input name="groups" value="admins" style="width: 100%"></label></p>
+<p><button type="submit">登录</button> <button type="submit" name="deny" value="1">拒绝</button></p>
+</form></body>`;
+}
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url, ISSUER);
+
+    if (url.pathname === "/.well-known/openid-configuration") {
+        return sendJson(res, 200, {
+            issuer: ISSUER,
+            authorization_endpoint: `${ISSUER}/authorize`,
+            token_endpoint: `${ISSUER}/token`,
+            userinfo_endpoint: `${ISSUER}/userinfo`,
+            jwks_uri: `${ISSUER}/jwks`,
+            response_types_supported: ["code"],
+            subject_types_supported: ["public"],
+            id_token_signing_alg_values_supported: ["RS256"],
+            code_challenge_methods_supported: ["S256"],
+        });
+    }
+
+    if (url.pathname === "/jwks") {
+        return sendJson(res, 200, { keys: [jwk] });
+    }
+
+    if (url.pathname === "/authorize" && req.method === "GET") {
+        if (url.searchParams.get("client_id") !== CLIENT_ID) {
+            return sendJson(res, 400, { error: "unauthorized_client" });
+        }
+        res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+        return res.end(renderLoginPage(url.searchParams));
+    }
+
+    if (url.pathname === "/authorize" && req.method === "POST") {
+        const form = await readForm(req);
+        const redirect = new URL(form.get("redirect_uri"));
+        redirect.searchParams.set("state", form.get("state") || "");
+        if (form.get("deny")) {
+            redirect.searchParams.set("error", "access_denied");
+        } else {
+            const code = crypto.randomBytes(16).toString("hex");
+            const email = form.get("email") || "";
+            codes.set(code, {
+                redirectUri: form.get("redirect_uri"),
+                codeChallenge: form.get("code_challenge"),
+                nonce: form.get("nonce"),
+                user: {
+                    sub: crypto.createHash("sha256").update(email).digest("hex").slice(0, 16),
+                    email,
+                    email_verified: true,
+                    name: email.split("@")[0],
+                    groups: (form.get("groups") || "").split(",").map(g => g.trim()).filter(Boolean),
+                },
+            });
+            redirect.searchParams.set("code", code);
+        }
+        res.writeHead(302, { Location: redirect.toString() });
+        return res.end();
+    }
+
+    if (url.pathname === "/token" && req.method === "POST") {
+        const form = await readForm(req);
+        const [id, secret] = Buffer.from((req.headers.authorization || "").replace(/^Basic /, ""), "base64")
+            .toString()
+            .split(":")
+            .map(decodeURIComponent);
+        const clientId = id || form.get("client_id");
+        const clientSecret = secret || form.get("client_secret");
+        if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+            return sendJson(res, 401, { error: "invalid_client" });
+        }
+
+        const grant = codes.get(form.get("code"));
+        codes.delete(form.get("code"));
+        const challenge = crypto.createHash("sha256").update(form.get("code_verifier") || "").digest("base64url");
+        if (!grant || grant.redirectUri !== form.get("redirect_uri") || grant.codeChallenge !== challenge) {
+            return sendJson(res, 400, { error: "invalid_grant" });
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const accessToken = crypto.randomBytes(16).toString("hex");
+        accessTokens.set(accessToken, grant.user);
+        return sendJson(res, 200, {
+            token_type: "Bearer",
+            access_token: accessToken,
+            expires_in: 3600,
+            id_token: signIdToken({
+                iss: ISSUER,
+                aud: CLIENT_ID,
+                sub: grant.user.sub,
+                email: grant.user.email,
+                email_verified: true,
+                nonce: grant.nonce,
+                iat: now,
+                exp: now + 300,
+            }),
+        });
+    }
+
+    if (url.pathname === "/userinfo") {
+        const user = accessTokens.get((req.headers.authorization || "").replace(/^Bearer /, ""));
+        return user ? sendJson(res, 200, user) : sendJson(res, 401, { error: "invalid_token" });
+    }
+
+    sendJson(res, 404, { error: "not_found" });
+});
+
+server.listen(PORT, () => {
+    console.log(`模拟OIDC身份提供方已启动: ${ISSUER}`);
+    console.log(`client_id: ${CLIENT_ID}  client_secret: ${CLIENT_SECRET}`);
+});
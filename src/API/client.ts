@@ -1,47 +1,126 @@
-import { Group, Site, LoginResponse, ExportData } from "./http";
+import {
+    Group,
+    Site,
+    LoginResponse,
+    ExportData,
+    User,
+    CreateUserRequest,
+    UpdateUserRequest,
+    AuthStatus,
+    Session,
+    ApiToken,
+    CreateApiTokenRequest,
+    CreatedApiToken,
+    TwoFactorStatus,
+    TwoFactorSetup,
+    AuditLogQuery,
+    AuditLogPage,
+    CSRF_COOKIE_NAME,
+    CSRF_HEADER_NAME,
+    SetupRequest,
+    SetupResponse,
+    GroupNode,
+    GroupDeleteMode,
+    GroupOrder,
+    TrashContents,
+    SiteRevision,
+    Dashboard,
+    StoredIcon,
+    UploadedIcon,
+    FaviconResult,
+    SiteMetadata,
+} from "./http";
+
+// 读取前端可见的Cookie
+function readCookie(name: string): string | null {
+    const prefix = `${name}=`;
+    const cookie = document.cookie.split("; ").find(item => item.startsWith(prefix));
+    return cookie ? cookie.slice(prefix.length) : null;
+}
+
+// 读取文件内容为data URL
+function readAsDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new Error("读取文件失败"));
+        reader.readAsDataURL(blob);
+    });
+}
 
 export class NavigationClient {
     private baseUrl: string;
     private token: string | null = null;
+    private refreshToken: string | null = null;
+    private refreshing: Promise<boolean> | null = null; // 合并并发的刷新请求
+    private cookieSessions = false; // 服务端是否使用HttpOnly Cookie保存令牌，由认证状态接口告知
 
     constructor(baseUrl = "/api") {
         this.baseUrl = baseUrl;
         // 从本地存储加载令牌
         this.token = localStorage.getItem('auth_token');
+        this.refreshToken = localStorage.getItem('refresh_token');
     }
 
     // 检查是否已登录
     isLoggedIn(): boolean {
-        return !!this.token;
+        return this.hasSession();
+    }
+
+    // 是否持有登录凭证：Cookie模式下会话Cookie前端不可读，以CSRF Cookie是否存在来判断
+    private hasSession(): boolean {
+        return !!this.token || (this.cookieSessions && !!readCookie(CSRF_COOKIE_NAME));
     }
 
     // 设置认证令牌
-    setToken(token: string): void {
+    setToken(token: string, refreshToken?: string): void {
         this.token = token;
         localStorage.setItem('auth_token', token);
+        if (refreshToken) {
+            this.refreshToken = refreshToken;
+            localStorage.setItem('refresh_token', refreshToken);
+        }
     }
 
     // 清除认证令牌
     clearToken(): void {
         this.token = null;
+        this.refreshToken = null;
         localStorage.removeItem('auth_token');
+        localStorage.removeItem('refresh_token');
+        // HttpOnly的会话Cookie只能由服务端清除，这里清除CSRF Cookie标记本地已退出
+        if (this.cookieSessions) {
+            document.cookie = `${CSRF_COOKIE_NAME}=; Path=/; Max-Age=0; Secure; SameSite=Strict`;
+        }
+    }
+
+    // 保存登录结果，Cookie模式下响应中不含令牌，同时清除本地存储中的旧令牌
+    private adoptLoginResult(data: LoginResponse): void {
+        if (data.token) {
+            this.setToken(data.token, data.refreshToken);
+        } else {
+            this.token = null;
+            this.refreshToken = null;
+            localStorage.removeItem('auth_token');
+            localStorage.removeItem('refresh_token');
+        }
     }
 
-    // 登录API
-    async login(username: string, password: string): Promise<LoginResponse> {
+    // 登录API，remember为true时会话使用"记住我"的有效期
+    async login(username: string, password: string, remember = false): Promise<LoginResponse> {
         try {
             const response = await fetch(`${this.baseUrl}/login`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify({ username, password })
+                body: JSON.stringify({ username, password, remember })
             });
 
             const data = await response.json();
             
-            if (data.success && data.token) {
-                this.setToken(data.token);
+            if (data.success) {
+                this.adoptLoginResult(data);
             }
             
             return data;
@@ -54,25 +133,157 @@ export class NavigationClient {
         }
     }
 
-    // 登出
-    logout(): void {
-        this.clearToken();
+    // SSO登录入口地址，由浏览器整页跳转到身份提供方
+    getSsoLoginUrl(remember = false): string {
+        return `${this.baseUrl}/auth/oidc/start${remember ? "?remember=1" : ""}`;
+    }
+
+    // 处理SSO登录完成后跳转回来时URL片段中的结果，登录失败时返回错误信息
+    consumeSsoRedirect(): string | null {
+        const params = new URLSearchParams(window.location.hash.slice(1));
+        const token = params.get("sso_token");
+        const error = params.get("sso_error");
+        if (!token && !error) {
+            return null;
+        }
+
+        // 立即从地址栏和历史记录中清除令牌
+        window.history.replaceState(null, "", window.location.pathname + window.location.search);
+        if (token) {
+            this.setToken(token, params.get("sso_refresh") || undefined);
+            return null;
+        }
+        return error;
+    }
+
+    // 登录第二步：提交两步验证码或恢复码
+    async loginWithTwoFactor(twoFactorToken: string, code: string): Promise<LoginResponse> {
+        try {
+            const response = await fetch(`${this.baseUrl}/login/2fa`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ twoFactorToken, code })
+            });
+
+            const data = await response.json();
+
+            if (data.success) {
+                this.adoptLoginResult(data);
+            }
+
+            return data;
+        } catch (error) {
+            console.error('两步验证失败:', error);
+            return {
+                success: false,
+                message: '登录请求失败，请检查网络连接'
+            };
+        }
+    }
+
+    // 登出，同时在服务端撤销当前会话
+    async logout(): Promise<void> {
+        try {
+            if (this.hasSession()) {
+                await this.request("logout", { method: "POST" });
+            }
+        } catch (error) {
+            console.error("撤销会话失败:", error);
+        } finally {
+            this.clearToken();
+        }
+    }
+
+    // 使用刷新令牌换取新的访问令牌，并发调用时只发送一次请求
+    private refreshSession(): Promise<boolean> {
+        if (!this.refreshing) {
+            this.refreshing = this.doRefresh().finally(() => {
+                this.refreshing = null;
+            });
+        }
+        return this.refreshing;
+    }
+
+    private async doRefresh(): Promise<boolean> {
+        // Cookie模式下刷新令牌保存在HttpOnly Cookie中，由浏览器自动携带
+        if (this.cookieSessions && !this.token) {
+            return this.sendRefresh({});
+        }
+
+        // 其他标签页可能已经续期并轮换了令牌，优先使用本地存储中的最新令牌
+        const storedToken = localStorage.getItem('auth_token');
+        if (storedToken && storedToken !== this.token) {
+            this.token = storedToken;
+            this.refreshToken = localStorage.getItem('refresh_token');
+            return true;
+        }
+
+        const refreshToken = localStorage.getItem('refresh_token') || this.refreshToken;
+        if (!refreshToken) {
+            return false;
+        }
+
+        return this.sendRefresh({ refreshToken });
+    }
+
+    private async sendRefresh(body: { refreshToken?: string }): Promise<boolean> {
+        try {
+            const headers: Record<string, string> = {
+                'Content-Type': 'application/json'
+            };
+            const csrfToken = this.cookieSessions ? readCookie(CSRF_COOKIE_NAME) : null;
+            if (csrfToken) {
+                headers[CSRF_HEADER_NAME] = csrfToken;
+            }
+
+            const response = await fetch(`${this.baseUrl}/refresh`, {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(body)
+            });
+            const data: LoginResponse = await response.json();
+
+            if (data.success) {
+                this.adoptLoginResult(data);
+                return true;
+            }
+        } catch (error) {
+            console.error('刷新令牌失败:', error);
+        }
+        return false;
     }
 
     private async request(endpoint: string, options = {}) {
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
+        const send = () => {
+            const headers: Record<string, string> = {
+                "Content-Type": "application/json",
+            };
+
+            // 如果有认证令牌，则添加到请求头
+            if (this.token) {
+                headers["Authorization"] = `Bearer ${this.token}`;
+            }
+
+            // Cookie模式下回传CSRF令牌（双重提交）
+            const csrfToken = this.cookieSessions ? readCookie(CSRF_COOKIE_NAME) : null;
+            if (csrfToken) {
+                headers[CSRF_HEADER_NAME] = csrfToken;
+            }
+
+            return fetch(`${this.baseUrl}/${endpoint}`, {
+                headers,
+                ...options,
+            });
         };
-        
-        // 如果有认证令牌，则添加到请求头
-        if (this.token) {
-            headers["Authorization"] = `Bearer ${this.token}`;
-        }
 
-        const response = await fetch(`${this.baseUrl}/${endpoint}`, {
-            headers,
-            ...options,
-        });
+        let response = await send();
+
+        // 访问令牌过期时先尝试续期，成功后重试一次原请求
+        if (response.status === 401 && this.hasSession() && (await this.refreshSession())) {
+            response = await send();
+        }
 
         if (response.status === 401) {
             // 清除无效令牌
@@ -81,42 +292,77 @@ export class NavigationClient {
         }
 
         if (!response.ok) {
-            throw new Error(`API错误: ${response.status}`);
+            // 优先使用服务端返回的错误信息
+            const data = await response.json().catch(() => null);
+            throw new Error(data?.message || `API错误: ${response.status}`);
         }
 
         return response.json();
     }
 
-    // 检查身份验证状态
-    async checkAuthStatus(): Promise<boolean> {
-        try {
-            // 如果本地没有令牌，直接返回未认证
-            if (!this.token) {
-                return false;
-            }
-            
-            // 尝试获取配置，如果成功则表示已认证
-            await this.getConfigs();
-            return true;
-        } catch (error) {
-            console.log("认证检查:", error);
-            
-            // 特定处理401错误
-            if (error instanceof Error) {
-                if (error.message.includes("认证") || error.message.includes("API错误: 401")) {
-                    this.clearToken();
-                    return false;
-                }
-            }
-            
-            // 其他错误不影响认证状态，如果有token则认为已认证
-            return !!this.token;
+    // 获取认证状态和当前用户角色
+    async getAuthStatus(): Promise<AuthStatus> {
+        let status: AuthStatus = await this.request("auth/status");
+        this.cookieSessions = status.cookieSessions;
+
+        // 访问令牌已过期但会话仍有效时，续期后重新获取状态
+        if (!status.authenticated && this.hasSession() && (await this.refreshSession())) {
+            status = await this.request("auth/status");
+        }
+
+        // 本地令牌已失效，清除它
+        if (!status.authenticated && this.hasSession()) {
+            this.clearToken();
         }
+
+        return status;
     }
 
-    // 分组相关API
-    async getGroups(): Promise<Group[]> {
-        return this.request("groups");
+    // 首次安装：创建管理员、站点标题和初始分组
+    async setup(request: SetupRequest): Promise<SetupResponse> {
+        return this.request("init", {
+            method: "POST",
+            body: JSON.stringify(request),
+        });
+    }
+
+    // 面板相关API
+    async getDashboards(): Promise<Dashboard[]> {
+        return this.request("dashboards");
+    }
+
+    async createDashboard(dashboard: Dashboard): Promise<Dashboard> {
+        return this.request("dashboards", {
+            method: "POST",
+            body: JSON.stringify(dashboard),
+        });
+    }
+
+    async updateDashboard(id: number, dashboard: Partial<Dashboard>): Promise<Dashboard> {
+        return this.request(`dashboards/${id}`, {
+            method: "PUT",
+            body: JSON.stringify(dashboard),
+        });
+    }
+
+    // 面板中还有分组时无法删除
+    async deleteDashboard(id: number): Promise<boolean> {
+        const response = await this.request(`dashboards/${id}`, {
+            method: "DELETE",
+        });
+        return response.success;
+    }
+
+    // 分组相关API，指定dashboard（面板路径）时只返回该面板中的分组
+    async getGroups(dashboard?: string): Promise<Group[]> {
+        return this.request(
+            dashboard ? `groups?dashboard=${encodeURIComponent(dashboard)}` : "groups"
+        );
+    }
+
+    // 获取嵌套的分组树
+    async getGroupTree(): Promise<GroupNode[]> {
+        return this.request("groups?tree=true");
     }
 
     async getGroup(id: number): Promise<Group> {
@@ -137,8 +383,9 @@ export class NavigationClient {
         });
     }
 
-    async deleteGroup(id: number): Promise<boolean> {
-        const response = await this.request(`groups/${id}`, {
+    // children指定子分组的处理方式：promote移动到上级分组，cascade一并删除
+    async deleteGroup(id: number, children: GroupDeleteMode = "promote"): Promise<boolean> {
+        const response = await this.request(`groups/${id}?children=${children}`, {
             method: "DELETE",
         });
         return response.success;
@@ -175,6 +422,81 @@ export class NavigationClient {
         return response.success;
     }
 
+    // 站点历史版本，最新的在前
+    async getSiteRevisions(siteId: number): Promise<SiteRevision[]> {
+        return this.request(`sites/${siteId}/revisions`);
+    }
+
+    async restoreSiteRevision(siteId: number, revisionId: number): Promise<Site> {
+        return this.request(`sites/${siteId}/revisions/${revisionId}/restore`, {
+            method: "POST",
+        });
+    }
+
+    // 上传图标，data为图片文件或Base64编码的内容
+    async uploadIcon(data: Blob | string): Promise<UploadedIcon> {
+        return this.request("icons", {
+            method: "POST",
+            body: JSON.stringify({
+                data: typeof data === "string" ? data : await readAsDataUrl(data),
+            }),
+        });
+    }
+
+    // 自动获取网站图标，找不到时抛出错误
+    async discoverFavicon(url: string): Promise<FaviconResult> {
+        return this.request(`favicon?url=${encodeURIComponent(url)}`);
+    }
+
+    // 读取网页的标题、描述和图标，作为新增站点时的建议
+    async getSiteMetadata(url: string): Promise<SiteMetadata> {
+        return this.request(`metadata?url=${encodeURIComponent(url)}`);
+    }
+
+    // 读取上传的图标用于导出，图标接口不需要登录
+    async getIcons(ids: string[]): Promise<StoredIcon[]> {
+        const icons: StoredIcon[] = [];
+        for (const id of ids) {
+            const response = await fetch(`${this.baseUrl}/icons/${id}`);
+            if (!response.ok) {
+                continue;
+            }
+            const blob = await response.blob();
+            const dataUrl = await readAsDataUrl(blob);
+            icons.push({ id, content_type: blob.type, data: dataUrl.slice(dataUrl.indexOf(",") + 1) });
+        }
+        return icons;
+    }
+
+    // 回收站相关API
+    async getTrash(): Promise<TrashContents> {
+        return this.request("trash");
+    }
+
+    async restoreGroup(id: number): Promise<Group> {
+        return this.request(`trash/groups/${id}/restore`, { method: "POST" });
+    }
+
+    async restoreSite(id: number): Promise<Site> {
+        return this.request(`trash/sites/${id}/restore`, { method: "POST" });
+    }
+
+    // 彻底删除，无法恢复
+    async purgeGroup(id: number): Promise<boolean> {
+        const response = await this.request(`trash/groups/${id}`, { method: "DELETE" });
+        return response.success;
+    }
+
+    async purgeSite(id: number): Promise<boolean> {
+        const response = await this.request(`trash/sites/${id}`, { method: "DELETE" });
+        return response.success;
+    }
+
+    async emptyTrash(): Promise<boolean> {
+        const response = await this.request("trash", { method: "DELETE" });
+        return response.success;
+    }
+
     // 配置相关API
     async getConfigs(): Promise<Record<string, string>> {
         return this.request("configs");
@@ -205,7 +527,7 @@ export class NavigationClient {
     }
 
     // 批量更新排序
-    async updateGroupOrder(groupOrders: { id: number; order_num: number }[]): Promise<boolean> {
+    async updateGroupOrder(groupOrders: GroupOrder[]): Promise<boolean> {
         const response = await this.request("group-orders", {
             method: "PUT",
             body: JSON.stringify(groupOrders),
@@ -221,14 +543,104 @@ export class NavigationClient {
         return response.success;
     }
 
-    // 数据导出
-    async exportData(): Promise<ExportData> {
-        return this.request("export");
+    // 用户管理API（仅管理员）
+    async getUsers(): Promise<User[]> {
+        return this.request("users");
+    }
+
+    async createUser(user: CreateUserRequest): Promise<User> {
+        return this.request("users", {
+            method: "POST",
+            body: JSON.stringify(user),
+        });
+    }
+
+    async updateUser(id: number, user: UpdateUserRequest): Promise<User> {
+        return this.request(`users/${id}`, {
+            method: "PUT",
+            body: JSON.stringify(user),
+        });
+    }
+
+    // 会话管理API
+    async getSessions(): Promise<Session[]> {
+        return this.request("sessions");
+    }
+
+    async revokeSession(id: string): Promise<boolean> {
+        const response = await this.request(`sessions/${encodeURIComponent(id)}`, {
+            method: "DELETE",
+        });
+        return response.success;
+    }
+
+    // 两步验证API
+    async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+        return this.request("2fa");
+    }
+
+    async setupTwoFactor(): Promise<TwoFactorSetup> {
+        return this.request("2fa/setup", { method: "POST" });
+    }
+
+    async enableTwoFactor(code: string): Promise<string[]> {
+        const response = await this.request("2fa/enable", {
+            method: "POST",
+            body: JSON.stringify({ code }),
+        });
+        return response.recoveryCodes;
+    }
+
+    async disableTwoFactor(code: string): Promise<boolean> {
+        const response = await this.request("2fa/disable", {
+            method: "POST",
+            body: JSON.stringify({ code }),
+        });
+        return response.success;
+    }
+
+    // 个人API令牌API
+    async getApiTokens(): Promise<ApiToken[]> {
+        return this.request("api-tokens");
+    }
+
+    async createApiToken(token: CreateApiTokenRequest): Promise<CreatedApiToken> {
+        return this.request("api-tokens", {
+            method: "POST",
+            body: JSON.stringify(token),
+        });
+    }
+
+    async deleteApiToken(id: number): Promise<boolean> {
+        const response = await this.request(`api-tokens/${id}`, {
+            method: "DELETE",
+        });
+        return response.success;
+    }
+
+    // 审计日志API（仅管理员）
+    async getAuditLogs(query: AuditLogQuery = {}): Promise<AuditLogPage> {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined && value !== "") {
+                params.set(key, String(value));
+            }
+        }
+        const search = params.toString();
+        return this.request(search ? `audit?${search}` : "audit");
+    }
+
+    // 数据导出，指定dashboard（面板路径）时只导出该面板
+    async exportData(dashboard?: string): Promise<ExportData> {
+        return this.request(
+            dashboard ? `export?dashboard=${encodeURIComponent(dashboard)}` : "export"
+        );
     }
     
-    // 数据导入
-    async importData(data: ExportData): Promise<boolean> {
-        const response = await this.request("import", {
+    // 数据导入，指定dashboard（面板路径）时只替换该面板中的分组和站点
+    async importData(data: ExportData, dashboard?: string): Promise<boolean> {
+        const endpoint = dashboard ? `import?dashboard=${encodeURIComponent(dashboard)}` : "import";
+        const response = await this.request(endpoint, {
             method: "POST",
             body: JSON.stringify(data),
         });
@@ -1,5 +1,5 @@
 // src/api/http.ts
-// 不使用外部JWT库，改为内置的crypto API
+// 不使用外部JWT库，使用内置的WebCrypto API进行签名和验证
 
 // 定义D1数据库类型
 interface D1Database {
@@ -26,20 +26,99 @@ interface D1Result<T = unknown> {
 interface Env {
     DB: D1Database;
     AUTH_ENABLED?: string; // 是否启用身份验证
-    AUTH_USERNAME?: string; // 认证用户名
-    AUTH_PASSWORD?: string; // 认证密码
+    AUTH_USERNAME?: string; // 初始管理员用户名（仅在用户表为空时用于创建第一个管理员）
+    AUTH_PASSWORD?: string; // 初始管理员密码
     AUTH_SECRET?: string; // JWT密钥
+    AUTH_PUBLIC_READ?: string; // 是否允许未登录访客只读浏览
+    AUTH_REMEMBER_ME_DAYS?: string; // 勾选"记住我"时会话的有效天数
+    AUTH_COOKIE_SESSIONS?: string; // 是否使用HttpOnly Cookie保存登录令牌
+    OIDC_ISSUER?: string; // OIDC身份提供方地址，配置后启用SSO登录
+    OIDC_CLIENT_ID?: string;
+    OIDC_CLIENT_SECRET?: string;
+    OIDC_SCOPES?: string; // 申请的scope，默认 openid email profile
+    OIDC_ROLE_MAPPING?: string; // JSON格式的角色映射，例如 {"admin":["alice@example.com"],"editor":["@example.com","group:staff"]}
+    DB_AUTO_MIGRATE?: string; // 是否在启动时自动执行数据库迁移，默认开启
+    TRASH_RETENTION_DAYS?: string; // 回收站保留天数，超过后自动彻底删除，0表示永久保留
 }
 
+// 分组可见性：public 所有人可见，private 登录用户可见，hidden 仅编辑者和管理员可见
+export type GroupVisibility = "public" | "private" | "hidden";
+
+export const GROUP_VISIBILITIES: GroupVisibility[] = ["public", "private", "hidden"];
+
 // 数据类型定义
 export interface Group {
     id?: number;
     name: string;
     order_num: number;
+    visibility?: GroupVisibility;
+    parent_id?: number | null; // 上级分组，null 表示顶级分组
+    dashboard_id?: number; // 所属面板，创建时默认为上级分组所在的面板或第一个面板
+    created_at?: string;
+    updated_at?: string;
+}
+
+// 面板：同一个部署中的多个导航页，通过 /d/:slug 访问，第一个面板同时作为首页
+export interface Dashboard {
+    id?: number;
+    slug: string;
+    name: string; // 显示在页面中的名称
+    title: string; // 浏览器标签标题
+    custom_css: string;
+    order_num: number;
     created_at?: string;
     updated_at?: string;
 }
 
+// 面板路径：小写字母、数字和连字符，不能以连字符开头
+export const DASHBOARD_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+// 分组树节点
+export type GroupNode<T extends Group = Group> = T & { children: GroupNode<T>[] };
+
+// 删除分组时对子分组的处理：promote 移动到被删除分组的上级，cascade 一并删除
+export type GroupDeleteMode = "promote" | "cascade";
+
+export const GROUP_DELETE_MODES: GroupDeleteMode[] = ["promote", "cascade"];
+
+// 分组排序数据，提供parent_id时同时移动到新的上级分组
+export interface GroupOrder {
+    id: number;
+    order_num: number;
+    parent_id?: number | null;
+}
+
+// 将扁平的分组列表（已按order_num排序）组装为树，上级分组不在列表中的视为顶级分组
+export function buildGroupTree<T extends Group>(groups: T[]): GroupNode<T>[] {
+    const nodes = new Map<number, GroupNode<T>>();
+    for (const group of groups) {
+        nodes.set(group.id as number, { ...group, children: [] });
+    }
+
+    const roots: GroupNode<T>[] = [];
+    for (const group of groups) {
+        const node = nodes.get(group.id as number) as GroupNode<T>;
+        const parent = group.parent_id != null ? nodes.get(group.parent_id) : undefined;
+        if (parent && parent !== node) {
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    }
+    return roots;
+}
+
+// 按树的先序遍历展开，depth为层级（顶级为0）
+export function flattenGroupTree<T extends Group>(
+    nodes: GroupNode<T>[],
+    depth = 0
+): { group: GroupNode<T>; depth: number }[] {
+    return nodes.flatMap(node => [
+        { group: node, depth },
+        ...flattenGroupTree(node.children, depth + 1),
+    ]);
+}
+
 export interface Site {
     id?: number;
     group_id: number;
@@ -49,10 +128,87 @@ export interface Site {
     description: string;
     notes: string;
     order_num: number;
+    tags?: string[]; // 标签名称，一个站点可以属于多个分类
+    alt_urls?: SiteUrls; // 备用链接，按网络环境选择打开哪一个
+    custom_fields?: CustomFieldValues; // 自定义字段的值，字段定义保存在配置中
     created_at?: string;
     updated_at?: string;
 }
 
+// 站点的备用链接，键为网络环境名称（如lan、wan、mirror），值为该环境下的链接
+export type SiteUrls = Record<string, string>;
+
+// 站点自定义字段：管理员在配置中定义字段，每个站点按字段名称保存值
+export const CUSTOM_FIELD_TYPES = ["text", "number", "url", "date"] as const;
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+export interface CustomField {
+    name: string;
+    type: CustomFieldType;
+    required: boolean;
+}
+
+// 数字字段保存为数字，其他类型保存为字符串（日期为YYYY-MM-DD）
+export type CustomFieldValues = Record<string, string | number>;
+
+// 站点历史版本中保存的字段
+export const SITE_REVISION_FIELDS = [
+    "group_id",
+    "name",
+    "url",
+    "icon",
+    "description",
+    "notes",
+    "tags",
+    "alt_urls",
+    "custom_fields",
+] as const;
+
+export type SiteSnapshot = Pick<Site, "group_id" | "name" | "url" | "icon" | "description" | "notes"> & {
+    tags: string[];
+    alt_urls?: SiteUrls; // 旧版本中没有备用链接和自定义字段
+    custom_fields?: CustomFieldValues;
+};
+
+// 站点历史版本：snapshot为修改前的内容，username为做出这次修改的用户
+export interface SiteRevision {
+    id: number;
+    site_id: number;
+    snapshot: SiteSnapshot;
+    username: string;
+    created_at: string;
+}
+
+// 上传的图标，导出时data为Base64编码的图片内容
+export interface StoredIcon {
+    id: string;
+    content_type: string;
+    data: string;
+}
+
+// 上传图标的结果，url可以直接填写为站点图标
+export interface UploadedIcon {
+    id: string;
+    url: string;
+    content_type: string;
+    size: number;
+}
+
+// 自动获取的网站图标
+export interface FaviconResult {
+    url: string; // 保存后的图标地址，可以直接填写为站点图标
+    source: string; // 图标的原始地址
+}
+
+// 根据网页内容给出的站点信息建议，内容为空表示网页中没有该信息
+export interface SiteMetadata {
+    url: string; // 跳转后的最终地址
+    title: string;
+    description: string;
+    image: string | null; // OpenGraph图片
+    icon: string | null; // 自动获取并保存的网站图标地址
+}
+
 // 新增配置接口
 export interface Config {
     key: string;
@@ -61,201 +217,3178 @@ export interface Config {
     updated_at?: string;
 }
 
-// 导出数据接口
+// 回收站中的分组，site_count为分组下随之进入回收站的站点数
+export interface TrashedGroup extends Group {
+    deleted_at: string;
+    site_count: number;
+}
+
+// 回收站中单独删除的站点，group_deleted表示所属分组也在回收站中
+export interface TrashedSite extends Site {
+    deleted_at: string;
+    group_name: string;
+    group_deleted: boolean;
+}
+
+export interface TrashContents {
+    groups: TrashedGroup[];
+    sites: TrashedSite[];
+    retentionDays: number; // 0表示永久保留
+}
+
+// 导出数据接口，dashboards为导出的面板（旧版本导出的数据中没有）
 export interface ExportData {
+    dashboards?: Dashboard[];
     groups: Group[];
     sites: Site[];
+    icons?: StoredIcon[]; // 站点使用的上传图标
     configs: Record<string, string>;
     version: string;
     exportDate: string;
 }
 
+// 用户角色：viewer 只读，editor 可编辑分组和站点，admin 可管理配置、导入数据和用户
+export type UserRole = "viewer" | "editor" | "admin";
+
+export const USER_ROLES: UserRole[] = ["viewer", "editor", "admin"];
+
+// 判断角色是否满足所需的最低权限
+export function hasRole(role: UserRole, required: UserRole): boolean {
+    return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+// 当前登录用户（来自令牌payload）
+export interface AuthUser {
+    id?: number;
+    username: string;
+    role: UserRole;
+}
+
+// 认证状态
+export interface AuthStatus {
+    authEnabled: boolean;
+    authenticated: boolean;
+    publicRead: boolean; // 未登录时是否可以只读浏览
+    rememberMeDays: number; // 勾选"记住我"时的免登录天数
+    cookieSessions: boolean; // 令牌是否保存在HttpOnly Cookie中（前端不再持有令牌）
+    ssoEnabled: boolean; // 是否可以使用OIDC单点登录
+    setupRequired: boolean; // 数据库尚未初始化，需要先完成安装向导
+    user: AuthUser | null;
+}
+
+// 首次安装向导提交的数据
+export interface SetupRequest {
+    username?: string; // 管理员账号，启用认证时必填
+    password?: string;
+    siteTitle?: string;
+    starterGroups?: string[]; // 初始分组名称
+}
+
+export interface SetupResponse {
+    success: boolean;
+    message?: string;
+}
+
+// 数据库迁移
+export interface MigrationInfo {
+    version: number;
+    name: string;
+}
+
+export interface MigrationStatus {
+    currentVersion: number; // 0 表示尚未执行过任何迁移
+    latestVersion: number;
+    pending: MigrationInfo[];
+}
+
+export interface MigrationResult {
+    fromVersion: number;
+    toVersion: number;
+    applied: MigrationInfo[];
+}
+
+export interface HealthStatus {
+    status: "ok" | "error";
+    schemaVersion: number | null; // 数据库不可用时为null
+    latestSchemaVersion: number;
+    pendingMigrations: number;
+}
+
+// Cookie会话模式使用的Cookie和请求头名称
+export const SESSION_COOKIE_NAME = "nh_session";
+export const REFRESH_COOKIE_NAME = "nh_refresh";
+export const CSRF_COOKIE_NAME = "nh_csrf"; // 前端可读，修改请求需通过请求头回传（双重提交）
+export const CSRF_HEADER_NAME = "X-CSRF-Token";
+export const OIDC_STATE_COOKIE_NAME = "nh_oidc"; // SSO登录过程中保存state、nonce和PKCE校验码
+
+// 发起SSO登录的结果：跳转地址和需要写入Cookie的登录状态
+export interface OidcLoginStart {
+    authorizationUrl: string;
+    stateToken: string;
+}
+
+// 身份提供方回调的参数
+export interface OidcCallback {
+    code: string;
+    state: string;
+    stateToken: string;
+    redirectUri: string;
+}
+
+// 身份提供方的discovery文档（只列出用到的字段）
+interface OidcDiscovery {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    userinfo_endpoint?: string;
+    jwks_uri: string;
+}
+
+type Jwk = JsonWebKey & { kid?: string };
+
+// 用户接口（不包含密码哈希）
+export interface User {
+    id: number;
+    username: string;
+    role: UserRole;
+    is_active: boolean;
+    two_factor_enabled: boolean;
+    created_at?: string;
+    updated_at?: string;
+}
+
+// 创建用户请求
+export interface CreateUserRequest {
+    username: string;
+    password: string;
+    role?: UserRole;
+}
+
+// 更新用户请求（禁用/启用、修改角色、重置密码）
+export interface UpdateUserRequest {
+    role?: UserRole;
+    is_active?: boolean;
+    password?: string;
+}
+
+// 数据库中的用户记录
+interface UserRow {
+    id: number;
+    username: string;
+    password_hash: string;
+    role: UserRole;
+    is_active: number;
+    totp_secret?: string | null;
+    totp_enabled?: number;
+    totp_last_step?: number | null;
+    recovery_codes?: string | null; // 恢复码哈希的JSON数组
+    auth_provider?: "local" | "oidc";
+    oidc_subject?: string | null; // 身份提供方返回的sub
+    created_at?: string;
+    updated_at?: string;
+}
+
+// 两步验证状态
+export interface TwoFactorStatus {
+    enabled: boolean;
+    recoveryCodesRemaining: number;
+}
+
+// 两步验证设置信息，用于添加到身份验证器应用
+export interface TwoFactorSetup {
+    secret: string; // Base32编码的密钥，可手动输入
+    otpauthUri: string;
+}
+
+// 登录第二步：提交两步验证码或恢复码
+export interface TwoFactorLoginRequest {
+    twoFactorToken: string;
+    code: string;
+}
+
+// API令牌权限范围：read 读取，write:sites 编辑站点，write:groups 编辑分组，admin 全部权限
+export type ApiTokenScope = "read" | "write:sites" | "write:groups" | "admin";
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ["read", "write:sites", "write:groups", "admin"];
+
+// API令牌前缀，用于区分API令牌和会话令牌
+export const API_TOKEN_PREFIX = "nh_";
+
+// 判断Bearer令牌是否为API令牌
+export function isApiToken(token: string): boolean {
+    return token.startsWith(API_TOKEN_PREFIX);
+}
+
+// 个人API令牌（不包含令牌明文）
+export interface ApiToken {
+    id: number;
+    name: string;
+    scopes: ApiTokenScope[];
+    token_prefix: string; // 令牌开头几位，便于识别
+    created_at?: string;
+    last_used_at: number | null; // Unix秒
+}
+
+// 创建API令牌请求
+export interface CreateApiTokenRequest {
+    name: string;
+    scopes: ApiTokenScope[];
+}
+
+// 新建的API令牌，明文只在创建时返回一次
+export interface CreatedApiToken extends ApiToken {
+    token: string;
+}
+
+// 数据库中的API令牌记录
+interface ApiTokenRow {
+    id: number;
+    name: string;
+    scopes: string;
+    token_prefix: string;
+    created_at?: string;
+    last_used_at: number | null;
+}
+
+// 登录会话（每个令牌对应一条，可在服务端撤销）
+export interface Session {
+    id: string; // 令牌中的jti
+    user_id: number;
+    username: string;
+    ip: string | null;
+    user_agent: string | null;
+    created_at?: string;
+    last_seen_at: number; // Unix秒
+    expires_at: number; // Unix秒
+    current?: boolean; // 是否为发起请求的会话
+}
+
+// 发起请求的客户端信息，用于登录限流和会话记录
+export interface ClientInfo {
+    ip?: string | null;
+    userAgent?: string | null;
+}
+
 // 新增用户登录接口
 export interface LoginRequest {
     username: string;
     password: string;
+    remember?: boolean; // 记住我：会话使用更长的有效期
 }
 
 export interface LoginResponse {
     success: boolean;
     token?: string;
+    refreshToken?: string; // 访问令牌过期后用于续期
+    remember?: boolean; // 会话是否使用"记住我"的有效期
+    user?: AuthUser;
     message?: string;
+    retryAfter?: number; // 登录被临时锁定时，距离可重试的秒数
+    twoFactorRequired?: boolean; // 密码正确但还需要两步验证
+    twoFactorToken?: string; // 提交两步验证码时使用的临时凭证
 }
 
-// API 类
-export class NavigationAPI {
-    private db: D1Database;
-    private authEnabled: boolean;
-    private username: string;
-    private password: string;
-    private secret: string;
+// 审计日志
+// restore为从回收站恢复，purge为从回收站彻底删除
+export type AuditAction = "create" | "update" | "delete" | "reorder" | "import" | "restore" | "purge";
 
-    constructor(env: Env) {
-        this.db = env.DB;
-        this.authEnabled = env.AUTH_ENABLED === "true";
-        this.username = env.AUTH_USERNAME || "";
-        this.password = env.AUTH_PASSWORD || "";
-        this.secret = env.AUTH_SECRET || "默认密钥，建议在生产环境中设置";
+export const AUDIT_ACTIONS: AuditAction[] = [
+    "create",
+    "update",
+    "delete",
+    "reorder",
+    "import",
+    "restore",
+    "purge",
+];
+
+// data表示导入等涉及整体数据的操作
+export type AuditEntityType =
+    | "dashboard"
+    | "group"
+    | "site"
+    | "config"
+    | "user"
+    | "session"
+    | "api_token"
+    | "data";
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+    "dashboard",
+    "group",
+    "site",
+    "config",
+    "user",
+    "session",
+    "api_token",
+    "data",
+];
+
+// 单个字段的变更，新增时before为null，删除时after为null
+export interface AuditChange {
+    before: unknown;
+    after: unknown;
+}
+
+export interface AuditLog {
+    id: number;
+    user_id: number | null;
+    username: string;
+    ip: string | null;
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id: string | null;
+    changes: Record<string, AuditChange>;
+    created_at: number; // Unix秒
+}
+
+// 审计日志查询条件，since/until为Unix秒
+export interface AuditLogQuery {
+    username?: string;
+    action?: AuditAction;
+    entity_type?: AuditEntityType;
+    entity_id?: string;
+    since?: number;
+    until?: number;
+    limit?: number;
+    offset?: number;
+}
+
+export interface AuditLogPage {
+    items: AuditLog[];
+    total: number;
+}
+
+// 待记录的操作，before/after为操作前后的记录快照
+export interface AuditEntry {
+    action: AuditAction;
+    entity_type: AuditEntityType;
+    entity_id?: string | number | null;
+    before?: object | null;
+    after?: object | null;
+}
+
+interface AuditLogRow extends Omit<AuditLog, "changes"> {
+    changes: string;
+}
+
+// 登录失败记录
+interface LoginAttemptRow {
+    failures: number;
+    locked_until: number;
+    last_failed_at: number;
+}
+
+// JWT 相关常量
+const JWT_HEADER = { alg: "HS256", typ: "JWT" };
+const CLOCK_SKEW_SECONDS = 60; // 允许的时钟偏差（秒）
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 访问令牌有效期（15分钟），过期后使用刷新令牌续期
+const SESSION_IDLE_TTL_SECONDS = 24 * 60 * 60; // 未勾选"记住我"时，会话24小时无活动即过期
+const DEFAULT_REMEMBER_ME_DAYS = 30;
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const REFRESH_TOKEN_BYTES = 32;
+const API_TOKEN_BYTES = 32;
+
+// 两步验证参数（RFC 6238 TOTP，与常见身份验证器应用的默认值一致）
+const TOTP_ISSUER = "NaviHive";
+const TOTP_SECRET_BYTES = 20;
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1; // 允许前后各一个时间步的时钟偏差
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60; // 输入验证码的时限
+const RECOVERY_CODE_COUNT = 10;
+const API_TOKEN_DISPLAY_LENGTH = 8; // 列表中显示的令牌前缀长度
+const SESSION_TOUCH_INTERVAL_SECONDS = 60; // 最后活动时间的最小更新间隔，减少写入
+
+// 密码哈希参数（Workers运行时的PBKDF2迭代次数上限为100000）
+const PASSWORD_HASH_ALGORITHM = "pbkdf2_sha256";
+const PASSWORD_HASH_ITERATIONS = 100000;
+const PASSWORD_SALT_BYTES = 16;
+// 用户不存在、已被禁用或没有本地密码时用于校验的固定哈希，使所有登录失败的耗时相同，避免通过响应时间探测用户名
+const DUMMY_PASSWORD_HASH = `${PASSWORD_HASH_ALGORITHM}$${PASSWORD_HASH_ITERATIONS}$vGLP5bQu4Mtm68rNxizavg$tYBS9hQZ_racrd2NRl5ZkF8kp25DiNbqMvqICh8Vmgw`;
+
+const API_TOKEN_COLUMNS = "id, name, scopes, token_prefix, created_at, last_used_at";
+
+// OIDC单点登录参数
+const OIDC_STATE_TTL_SECONDS = 10 * 60; // 在身份提供方完成登录的时限
+const DEFAULT_OIDC_SCOPES = "openid email profile";
+const OIDC_RANDOM_BYTES = 32;
+// SSO用户没有本地密码，占位值无法通过密码校验
+const OIDC_PASSWORD_PLACEHOLDER = "oidc";
+
+// ID令牌支持的签名算法
+const ID_TOKEN_ALGORITHMS: Record<
+    string,
+    {
+        importParams: { name: string; hash?: string; namedCurve?: string };
+        verifyParams: { name: string; hash?: string };
     }
+> = {
+    RS256: {
+        importParams: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+        verifyParams: { name: "RSASSA-PKCS1-v1_5" },
+    },
+    ES256: {
+        importParams: { name: "ECDSA", namedCurve: "P-256" },
+        verifyParams: { name: "ECDSA", hash: "SHA-256" },
+    },
+};
 
-    // 初始化数据库表
-    // 修改initDB方法，将SQL语句分开执行
-    async initDB(): Promise<{ success: boolean; alreadyInitialized: boolean }> {
-        // 首先检查数据库是否已初始化
-        try {
-            const isInitialized = await this.getConfig("DB_INITIALIZED");
-            if (isInitialized === "true") {
-                return { success: true, alreadyInitialized: true };
-            }
-        } catch {
-            // 如果发生错误，可能是配置表不存在，继续初始化
-        }
+const AUDIT_LOG_COLUMNS =
+    "id, user_id, username, ip, action, entity_type, entity_id, changes, created_at";
+const AUDIT_LOG_DEFAULT_LIMIT = 50;
+const AUDIT_LOG_MAX_LIMIT = 200;
+// 时间戳字段每次更新都会变化，不计入变更
+const AUDIT_IGNORED_FIELDS = ["created_at", "updated_at"];
 
-        // 先创建groups表
-        await this.db.exec(
-            `CREATE TABLE IF NOT EXISTS groups (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, order_num INTEGER NOT NULL, created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP);`
-        );
+// 迁移步骤：SQL语句，或者在字段不存在时添加字段
+type MigrationStep = string | { table: string; column: string; definition: string };
 
-        // 再创建sites表
-        await this.db.exec(
-            `CREATE TABLE IF NOT EXISTS sites (id INTEGER PRIMARY KEY AUTOINCREMENT, group_id INTEGER NOT NULL, name TEXT NOT NULL, url TEXT NOT NULL, icon TEXT, description TEXT, notes TEXT, order_num INTEGER NOT NULL, created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP, FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE);`
-        );
+interface Migration extends MigrationInfo {
+    steps: MigrationStep[];
+}
 
-        // 创建全局配置表
-        await this.db.exec(`CREATE TABLE IF NOT EXISTS configs (
-            key TEXT PRIMARY KEY,
-            value TEXT NOT NULL,
-            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );`);
+// 已执行的迁移记录在schema_version表中，当前版本为其中最大的version
+const SCHEMA_VERSION_TABLE_SQL = `CREATE TABLE IF NOT EXISTS schema_version (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+)`;
 
-        // 设置初始化标志
-        await this.setConfig("DB_INITIALIZED", "true");
+// 按版本号排列的数据库迁移，已发布的迁移不要修改，表结构变化时在末尾追加新的迁移。
+// 每一步都可以安全地重复执行，因此手动执行过 init_table.sql 或 ALTER 语句的旧数据库也能直接升级
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: "创建分组、站点和配置表",
+        steps: [
+            `CREATE TABLE IF NOT EXISTS groups (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL,
+                order_num INTEGER NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )`,
+            `CREATE TABLE IF NOT EXISTS sites (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                group_id INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                url TEXT NOT NULL,
+                icon TEXT,
+                description TEXT,
+                notes TEXT,
+                order_num INTEGER NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE
+            )`,
+            `CREATE TABLE IF NOT EXISTS configs (
+                key TEXT PRIMARY KEY,
+                value TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )`,
+        ],
+    },
+    {
+        version: 2,
+        name: "创建用户表",
+        steps: [
+            `CREATE TABLE IF NOT EXISTS users (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+                password_hash TEXT NOT NULL,
+                role TEXT NOT NULL DEFAULT 'editor',
+                is_active INTEGER NOT NULL DEFAULT 1,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )`,
+        ],
+    },
+    {
+        version: 3,
+        name: "分组可见性",
+        steps: [
+            {
+                table: "groups",
+                column: "visibility",
+                definition: "TEXT NOT NULL DEFAULT 'public'",
+            },
+        ],
+    },
+    {
+        version: 4,
+        name: "创建登录失败记录表",
+        steps: [
+            // scope为ip或user，时间均为Unix秒
+            `CREATE TABLE IF NOT EXISTS login_attempts (
+                scope TEXT NOT NULL,
+                key TEXT NOT NULL,
+                failures INTEGER NOT NULL DEFAULT 0,
+                locked_until INTEGER NOT NULL DEFAULT 0,
+                last_failed_at INTEGER NOT NULL DEFAULT 0,
+                PRIMARY KEY (scope, key)
+            )`,
+        ],
+    },
+    {
+        version: 5,
+        name: "创建会话表",
+        steps: [
+            // id为令牌的jti，时间均为Unix秒
+            `CREATE TABLE IF NOT EXISTS sessions (
+                id TEXT PRIMARY KEY,
+                user_id INTEGER NOT NULL,
+                ip TEXT,
+                user_agent TEXT,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                last_seen_at INTEGER NOT NULL,
+                expires_at INTEGER NOT NULL,
+                revoked_at INTEGER,
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            )`,
+        ],
+    },
+    {
+        version: 6,
+        name: "会话刷新令牌",
+        steps: [
+            { table: "sessions", column: "refresh_token_hash", definition: "TEXT" },
+            { table: "sessions", column: "remember", definition: "INTEGER NOT NULL DEFAULT 0" },
+        ],
+    },
+    {
+        version: 7,
+        name: "创建API令牌表",
+        steps: [
+            // 只保存令牌的SHA-256哈希，scopes为逗号分隔的权限范围
+            `CREATE TABLE IF NOT EXISTS api_tokens (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER NOT NULL,
+                name TEXT NOT NULL,
+                token_hash TEXT NOT NULL UNIQUE,
+                token_prefix TEXT NOT NULL,
+                scopes TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                last_used_at INTEGER,
+                FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            )`,
+        ],
+    },
+    {
+        version: 8,
+        name: "两步验证",
+        steps: [
+            { table: "users", column: "totp_secret", definition: "TEXT" },
+            { table: "users", column: "totp_enabled", definition: "INTEGER NOT NULL DEFAULT 0" },
+            { table: "users", column: "totp_last_step", definition: "INTEGER" },
+            { table: "users", column: "recovery_codes", definition: "TEXT" },
+        ],
+    },
+    {
+        version: 9,
+        name: "创建审计日志表",
+        steps: [
+            // changes为JSON格式的字段变更，时间为Unix秒
+            `CREATE TABLE IF NOT EXISTS audit_logs (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                user_id INTEGER,
+                username TEXT NOT NULL,
+                ip TEXT,
+                action TEXT NOT NULL,
+                entity_type TEXT NOT NULL,
+                entity_id TEXT,
+                changes TEXT NOT NULL,
+                created_at INTEGER NOT NULL
+            )`,
+        ],
+    },
+    {
+        version: 10,
+        name: "站点标签",
+        steps: [
+            `CREATE TABLE IF NOT EXISTS tags (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )`,
+            `CREATE TABLE IF NOT EXISTS site_tags (
+                site_id INTEGER NOT NULL,
+                tag_id INTEGER NOT NULL,
+                PRIMARY KEY (site_id, tag_id),
+                FOREIGN KEY (site_id) REFERENCES sites(id) ON DELETE CASCADE,
+                FOREIGN KEY (tag_id) REFERENCES tags(id) ON DELETE CASCADE
+            )`,
+            "CREATE INDEX IF NOT EXISTS idx_site_tags_tag_id ON site_tags (tag_id)",
+        ],
+    },
+    {
+        version: 11,
+        name: "嵌套分组",
+        steps: [
+            { table: "groups", column: "parent_id", definition: "INTEGER" },
+            "CREATE INDEX IF NOT EXISTS idx_groups_parent_id ON groups (parent_id)",
+        ],
+    },
+    {
+        version: 12,
+        name: "回收站",
+        steps: [
+            { table: "groups", column: "deleted_at", definition: "TIMESTAMP" },
+            { table: "sites", column: "deleted_at", definition: "TIMESTAMP" },
+            "CREATE INDEX IF NOT EXISTS idx_groups_deleted_at ON groups (deleted_at)",
+            "CREATE INDEX IF NOT EXISTS idx_sites_deleted_at ON sites (deleted_at)",
+        ],
+    },
+    {
+        version: 13,
+        name: "站点历史版本",
+        steps: [
+            `CREATE TABLE IF NOT EXISTS site_revisions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                site_id INTEGER NOT NULL,
+                snapshot TEXT NOT NULL,
+                username TEXT NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY (site_id) REFERENCES sites(id) ON DELETE CASCADE
+            )`,
+            "CREATE INDEX IF NOT EXISTS idx_site_revisions_site_id ON site_revisions (site_id, id)",
+        ],
+    },
+    {
+        version: 14,
+        name: "多面板",
+        steps: [
+            `CREATE TABLE IF NOT EXISTS dashboards (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                slug TEXT NOT NULL UNIQUE COLLATE NOCASE,
+                name TEXT NOT NULL,
+                title TEXT NOT NULL DEFAULT '',
+                custom_css TEXT NOT NULL DEFAULT '',
+                order_num INTEGER NOT NULL DEFAULT 0,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )`,
+            // 已有的站点名称、标题和自定义CSS配置成为默认面板的设置
+            `INSERT INTO dashboards (slug, name, title, custom_css)
+                SELECT 'default',
+                    COALESCE((SELECT value FROM configs WHERE key = 'site.name'), '导航站'),
+                    COALESCE((SELECT value FROM configs WHERE key = 'site.title'), '导航站'),
+                    COALESCE((SELECT value FROM configs WHERE key = 'site.customCss'), '')
+                WHERE NOT EXISTS (SELECT 1 FROM dashboards)`,
+            { table: "groups", column: "dashboard_id", definition: "INTEGER" },
+            "UPDATE groups SET dashboard_id = (SELECT MIN(id) FROM dashboards) WHERE dashboard_id IS NULL",
+            "CREATE INDEX IF NOT EXISTS idx_groups_dashboard_id ON groups (dashboard_id)",
+        ],
+    },
+    {
+        version: 15,
+        name: "站点备用链接",
+        steps: [{ table: "sites", column: "alt_urls", definition: "TEXT NOT NULL DEFAULT '{}'" }],
+    },
+    {
+        version: 16,
+        name: "站点自定义字段",
+        steps: [
+            { table: "sites", column: "custom_fields", definition: "TEXT NOT NULL DEFAULT '{}'" },
+        ],
+    },
+    {
+        version: 17,
+        name: "上传图标",
+        steps: [
+            `CREATE TABLE IF NOT EXISTS icons (
+                id TEXT PRIMARY KEY,
+                content_type TEXT NOT NULL,
+                data TEXT NOT NULL,
+                size INTEGER NOT NULL,
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )`,
+        ],
+    },
+    {
+        version: 18,
+        name: "网站图标缓存",
+        steps: [
+            `CREATE TABLE IF NOT EXISTS favicon_cache (
+                url TEXT PRIMARY KEY,
+                icon_id TEXT,
+                source TEXT,
+                fetched_at INTEGER NOT NULL
+            )`,
+        ],
+    },
+    {
+        version: 19,
+        name: "SSO账号绑定",
+        steps: [
+            { table: "users", column: "auth_provider", definition: "TEXT NOT NULL DEFAULT 'local'" },
+            { table: "users", column: "oidc_subject", definition: "TEXT" },
+            "CREATE UNIQUE INDEX IF NOT EXISTS idx_users_oidc_subject ON users (oidc_subject)",
+            // 之前通过SSO自动创建的账号使用占位密码，标记为SSO账号，下次登录时绑定身份提供方的sub
+            "UPDATE users SET auth_provider = 'oidc' WHERE password_hash = 'oidc'",
+        ],
+    },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
-        return { success: true, alreadyInitialized: false };
+// 登录暴力破解防护参数：超过免费次数后按指数退避锁定
+const LOGIN_FREE_ATTEMPTS = { ip: 10, user: 5 };
+const LOGIN_LOCKOUT_BASE_SECONDS = 30;
+const LOGIN_LOCKOUT_MAX_SECONDS = 60 * 60;
+const LOGIN_ATTEMPT_WINDOW_SECONDS = 24 * 60 * 60; // 超过该时间未失败则重新计数
+
+type LoginAttemptScope = keyof typeof LOGIN_FREE_ATTEMPTS;
+
+const USER_COLUMNS = "id, username, role, is_active, totp_enabled, created_at, updated_at";
+const GROUP_COLUMNS =
+    "id, name, order_num, visibility, parent_id, dashboard_id, created_at, updated_at";
+const DASHBOARD_COLUMNS = "id, slug, name, title, custom_css, order_num, created_at, updated_at";
+const SITE_COLUMNS =
+    "id, group_id, name, url, icon, description, notes, order_num, alt_urls, custom_fields, created_at, updated_at";
+
+// 每个站点保留的历史版本数
+const MAX_SITE_REVISIONS = 50;
+
+// 标签限制
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS_PER_SITE = 20;
+
+// 整理标签列表：去除首尾空格、空标签和重复标签（不区分大小写）
+export function normalizeTags(tags: unknown): string[] {
+    if (!Array.isArray(tags)) {
+        return [];
+    }
+    const result: string[] = [];
+    const seen = new Set<string>();
+    for (const tag of tags) {
+        if (typeof tag !== "string") continue;
+        const name = tag.trim().slice(0, MAX_TAG_LENGTH);
+        if (!name || seen.has(name.toLowerCase())) continue;
+        seen.add(name.toLowerCase());
+        result.push(name);
     }
+    return result.slice(0, MAX_TAGS_PER_SITE);
+}
 
-    // 验证用户登录
-    async login(loginRequest: LoginRequest): Promise<LoginResponse> {
-        // 如果未启用身份验证，直接返回成功
-        if (!this.authEnabled) {
-            return {
-                success: true,
-                token: await this.generateToken({ username: "guest" }),
-                message: "身份验证未启用，默认登录成功",
-            };
+// 备用链接限制，网络环境名称只能包含小写字母、数字、下划线和连字符
+export const MAX_ALT_URLS_PER_SITE = 10;
+export const NETWORK_PROFILE_PATTERN = /^[a-z0-9][a-z0-9_-]{0,19}$/;
+// 自动检测网络环境，不符合名称格式，不会与网络环境名称重复
+export const AUTO_NETWORK_PROFILE = "*";
+
+// 整理备用链接：网络环境名称转为小写，忽略格式不正确的名称和空链接，按名称排序
+export function normalizeAltUrls(urls: unknown): SiteUrls {
+    if (!urls || typeof urls !== "object" || Array.isArray(urls)) {
+        return {};
+    }
+    const entries = Object.entries(urls)
+        .map(([name, url]) => [name.trim().toLowerCase(), typeof url === "string" ? url.trim() : ""])
+        .filter(([name, url]) => NETWORK_PROFILE_PATTERN.test(name) && url)
+        .sort(([a], [b]) => a.localeCompare(b));
+    return Object.fromEntries(entries.slice(0, MAX_ALT_URLS_PER_SITE));
+}
+
+// 按网络环境选择站点的链接：优先使用当前环境的备用链接，其次按备选顺序，都没有时使用主链接
+// profile为null表示始终使用主链接
+export function resolveSiteUrl(
+    site: Pick<Site, "url" | "alt_urls">,
+    profile: string | null,
+    fallbackOrder: string[] = []
+): string {
+    if (profile === null) {
+        return site.url;
+    }
+    const urls = site.alt_urls || {};
+    for (const name of [profile, ...fallbackOrder]) {
+        if (urls[name]) {
+            return urls[name];
         }
+    }
+    return site.url;
+}
 
-        // 验证用户名和密码
-        if (loginRequest.username === this.username && loginRequest.password === this.password) {
-            // 生成JWT令牌
-            const token = await this.generateToken({ username: loginRequest.username });
-            return {
-                success: true,
-                token,
-                message: "登录成功",
-            };
+// 自定义字段限制，字段定义保存在CUSTOM_FIELDS_CONFIG_KEY配置中（JSON数组）
+export const CUSTOM_FIELDS_CONFIG_KEY = "site.customFields";
+export const MAX_CUSTOM_FIELDS = 20;
+export const MAX_CUSTOM_FIELD_NAME_LENGTH = 30;
+export const MAX_CUSTOM_FIELD_VALUE_LENGTH = 500;
+
+// 解析配置中的自定义字段定义，忽略格式不正确和重名的字段
+export function parseCustomFieldSchema(value: string | null | undefined): CustomField[] {
+    let fields: unknown;
+    try {
+        fields = JSON.parse(value || "[]");
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(fields)) {
+        return [];
+    }
+    const result: CustomField[] = [];
+    for (const field of fields) {
+        const name = typeof field?.name === "string" ? field.name.trim() : "";
+        if (
+            !name ||
+            name.length > MAX_CUSTOM_FIELD_NAME_LENGTH ||
+            !CUSTOM_FIELD_TYPES.includes(field.type) ||
+            result.some(item => item.name === name)
+        ) {
+            continue;
         }
+        result.push({ name, type: field.type, required: !!field.required });
+    }
+    return result.slice(0, MAX_CUSTOM_FIELDS);
+}
 
-        return {
-            success: false,
-            message: "用户名或密码错误",
-        };
+// 检查自定义字段的值是否符合字段类型，空值只检查是否必填，返回错误信息
+export function validateCustomFieldValue(field: CustomField, value: unknown): string | null {
+    if (value === undefined || value === null || (typeof value === "string" && !value.trim())) {
+        return field.required ? `${field.name}不能为空` : null;
     }
+    switch (field.type) {
+        case "number":
+            return typeof value === "number" && Number.isFinite(value)
+                ? null
+                : `${field.name}必须是数字`;
+        case "url":
+            try {
+                new URL(String(value));
+                return null;
+            } catch {
+                return `${field.name}必须是有效的链接`;
+            }
+        case "date":
+            return typeof value === "string" &&
+                /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+                !isNaN(Date.parse(value))
+                ? null
+                : `${field.name}必须是YYYY-MM-DD格式的日期`;
+        default:
+            return typeof value === "string" && value.length <= MAX_CUSTOM_FIELD_VALUE_LENGTH
+                ? null
+                : `${field.name}必须是不超过${MAX_CUSTOM_FIELD_VALUE_LENGTH}个字符的文本`;
+    }
+}
 
-    // 验证令牌有效性
-    async verifyToken(
-        token: string
-    ): Promise<{ valid: boolean; payload?: Record<string, unknown> }> {
-        if (!this.authEnabled) {
-            return { valid: true };
+// 整理自定义字段的值：去除空值，只保留字符串和数字
+export function normalizeCustomFieldValues(values: unknown): CustomFieldValues {
+    if (!values || typeof values !== "object" || Array.isArray(values)) {
+        return {};
+    }
+    const result: CustomFieldValues = {};
+    for (const [name, value] of Object.entries(values)) {
+        if (typeof value === "number" && Number.isFinite(value)) {
+            result[name] = value;
+        } else if (typeof value === "string" && value.trim()) {
+            result[name] = value.trim().slice(0, MAX_CUSTOM_FIELD_VALUE_LENGTH);
         }
+    }
+    return result;
+}
 
-        try {
-            // 解析JWT
-            const [header, payload, signature] = token.split(".");
-            if (!header || !payload || !signature) {
-                throw new Error("无效的Token格式");
-            }
+// 上传的图标保存在数据库中，站点图标填写为ICON_PATH_PREFIX加图标ID的相对路径
+export const ICON_PATH_PREFIX = "/api/icons/";
+export const MAX_ICON_BYTES = 256 * 1024;
+const ICON_ID_PATTERN = /^[0-9a-f]{64}$/; // 图标ID为内容的SHA-256，相同的图片只保存一份
+const UNUSED_ICON_GRACE_SECONDS = 24 * 60 * 60; // 上传后未被使用的图标保留一天，留出填写表单的时间
+
+// 从站点图标中取出上传图标的ID，不是上传的图标时返回null
+export function getIconId(icon: string | null | undefined): string | null {
+    if (!icon || !icon.startsWith(ICON_PATH_PREFIX)) {
+        return null;
+    }
+    const id = icon.slice(ICON_PATH_PREFIX.length);
+    return ICON_ID_PATTERN.test(id) ? id : null;
+}
+
+// 解码上传或导入的图标内容，支持Base64（包括URL安全的变体）和data URL，格式无效时返回null
+export function decodeIconData(value: string): Uint8Array | null {
+    const base64 = value.replace(/^data:[^,]*;base64,/i, "").replace(/\s/g, "");
+    if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(base64)) {
+        return null;
+    }
+    try {
+        return base64UrlDecode(base64.replace(/=+$/, ""));
+    } catch {
+        return null;
+    }
+}
 
-            // 解码payload
-            const decodedPayload = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+// 根据文件头识别图片格式，不信任上传时声明的类型；无法识别时返回null
+export function sniffImageType(bytes: Uint8Array): string | null {
+    const startsWith = (signature: number[], offset = 0) =>
+        bytes.length >= offset + signature.length &&
+        signature.every((byte, i) => bytes[offset + i] === byte);
 
-            // 验证过期时间
-            if (decodedPayload.exp && decodedPayload.exp < Math.floor(Date.now() / 1000)) {
-                throw new Error("Token已过期");
-            }
+    if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        return "image/png";
+    }
+    if (startsWith([0xff, 0xd8, 0xff])) {
+        return "image/jpeg";
+    }
+    if (startsWith([0x47, 0x49, 0x46, 0x38])) {
+        return "image/gif";
+    }
+    if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+        return "image/webp";
+    }
+    if (startsWith([0x00, 0x00, 0x01, 0x00])) {
+        return "image/x-icon";
+    }
 
-            // 注意：这个简化版本没有验证签名，仅用于开发/测试
-            // 在生产环境中，应该使用crypto.subtle.verify来验证签名
+    // SVG是文本格式，允许前面有BOM、XML声明、注释和DOCTYPE
+    const head = new TextDecoder().decode(bytes.slice(0, 1024)).replace(/^\uFEFF/, "");
+    if (
+        /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(head)
+    ) {
+        return "image/svg+xml";
+    }
+    return null;
+}
 
-            return { valid: true, payload: decodedPayload };
-        } catch (error) {
-            console.error("Token验证失败:", error);
-            return { valid: false };
+// 请求外部网站的参数，用于自动获取网站图标和网页信息
+const EXTERNAL_FETCH_TIMEOUT_MS = 5000;
+const EXTERNAL_FETCH_USER_AGENT = "Mozilla/5.0 (compatible; NaviHive/1.0)";
+const MAX_PAGE_BYTES = 512 * 1024; // 只读取页面开头的部分，图标链接、标题和描述通常在<head>中
+const MAX_METADATA_TITLE_LENGTH = 100; // 与站点名称的长度限制一致
+const MAX_METADATA_DESCRIPTION_LENGTH = 500; // 与站点描述的长度限制一致
+
+// 自动获取网站图标的参数
+const FAVICON_MAX_CANDIDATES = 5; // 最多尝试的候选图标数（不含/favicon.ico），限制外部请求数量
+const FAVICON_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const FAVICON_MISS_TTL_SECONDS = 24 * 60 * 60; // 没有找到图标的结果缓存较短时间
+const SCALABLE_ICON_SIZE = 1024; // SVG等可缩放的图标按最大尺寸排序
+
+// 候选图标，size为图标的边长，用于选择最清晰的图标
+interface IconCandidate {
+    url: string;
+    size: number;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+};
+
+// 解码HTML实体，无法识别的实体保持原样
+function decodeHtmlEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === "#") {
+            const code =
+                name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1));
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+// 解析HTML标签的属性，属性名转为小写
+function parseTagAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+    for (const match of tag.replace(/^<[a-z]+/i, "").matchAll(pattern)) {
+        attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? "");
+    }
+    return attributes;
+}
+
+// 将相对地址转换为绝对地址，只接受http和https
+function resolveHttpUrl(href: string, base: string): string | null {
+    try {
+        const url = new URL(href.trim(), base);
+        return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+    } catch {
+        return null;
+    }
+}
+
+// 根据sizes属性估计图标边长，没有声明尺寸时使用fallback
+function parseIconSize(sizes: unknown, type: unknown, url: string, fallback: number): number {
+    const declared = typeof sizes === "string" ? sizes.toLowerCase() : "";
+    if (
+        declared.split(/\s+/).includes("any") ||
+        type === "image/svg+xml" ||
+        /\.svg([?#]|$)/i.test(url)
+    ) {
+        return SCALABLE_ICON_SIZE;
+    }
+    const values = (declared.match(/\d+x\d+/g) || []).map(size =>
+        Math.max(...size.split("x").map(Number))
+    );
+    return values.length > 0 ? Math.max(...values) : fallback;
+}
+
+// 从页面中找出<link rel="icon">和apple-touch-icon图标以及manifest地址，支持<base href>
+function parseIconLinks(
+    html: string,
+    pageUrl: string
+): { icons: IconCandidate[]; manifest: string | null } {
+    let baseUrl = pageUrl;
+    let manifest: string | null = null;
+    const icons: IconCandidate[] = [];
+
+    for (const match of html.matchAll(/<(link|base)\b[^>]*>/gi)) {
+        const attributes = parseTagAttributes(match[0]);
+        if (!attributes.href) {
+            continue;
+        }
+        if (match[1].toLowerCase() === "base") {
+            baseUrl = resolveHttpUrl(attributes.href, pageUrl) ?? baseUrl;
+            continue;
+        }
+
+        const rel = (attributes.rel || "").toLowerCase().split(/\s+/);
+        const href = resolveHttpUrl(attributes.href, baseUrl);
+        if (!href) {
+            continue;
+        }
+        if (rel.includes("manifest")) {
+            manifest = manifest ?? href;
+        } else if (rel.includes("apple-touch-icon") || rel.includes("apple-touch-icon-precomposed")) {
+            // apple-touch-icon通常不声明尺寸，默认为180x180
+            icons.push({ url: href, size: parseIconSize(attributes.sizes, attributes.type, href, 180) });
+        } else if (rel.includes("icon")) {
+            icons.push({ url: href, size: parseIconSize(attributes.sizes, attributes.type, href, 32) });
+        }
+    }
+
+    return { icons, manifest };
+}
+
+// 解析Web App Manifest中的图标，跳过只用于maskable和monochrome的图标
+function parseManifestIcons(text: string, manifestUrl: string): IconCandidate[] {
+    let manifest: { icons?: unknown };
+    try {
+        manifest = JSON.parse(text);
+    } catch {
+        return [];
+    }
+    if (!manifest || !Array.isArray(manifest.icons)) {
+        return [];
+    }
+
+    const icons: IconCandidate[] = [];
+    for (const icon of manifest.icons as Record<string, unknown>[]) {
+        if (!icon || typeof icon.src !== "string") {
+            continue;
+        }
+        const purpose = typeof icon.purpose === "string" ? icon.purpose.split(/\s+/) : ["any"];
+        const url = resolveHttpUrl(icon.src, manifestUrl);
+        if (url && purpose.includes("any")) {
+            icons.push({ url, size: parseIconSize(icon.sizes, icon.type, url, 0) });
+        }
+    }
+    return icons;
+}
+
+// 请求外部地址并读取最多maxBytes字节，truncate为false时超出限制返回null；url为跳转后的最终地址
+export async function fetchLimited(
+    url: string,
+    maxBytes: number,
+    truncate = false
+): Promise<{ bytes: Uint8Array; url: string; contentType: string | null } | null> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            headers: { "User-Agent": EXTERNAL_FETCH_USER_AGENT },
+            redirect: "follow",
+            signal: AbortSignal.timeout(EXTERNAL_FETCH_TIMEOUT_MS),
+        });
+    } catch {
+        return null;
+    }
+    if (!response.ok || !response.body) {
+        return null;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) {
+                break;
+            }
+            if (total + value.length > maxBytes) {
+                await reader.cancel();
+                if (!truncate) {
+                    return null;
+                }
+                chunks.push(value.subarray(0, maxBytes - total));
+                total = maxBytes;
+                break;
+            }
+            chunks.push(value);
+            total += value.length;
+        }
+    } catch {
+        return null;
+    }
+
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return { bytes, url: response.url || url, contentType: response.headers.get("Content-Type") };
+}
+
+// 读取网页，按Content-Type或<meta charset>中的编码解码，不支持的编码按UTF-8处理
+async function fetchPage(url: string): Promise<{ html: string; url: string } | null> {
+    const page = await fetchLimited(url, MAX_PAGE_BYTES, true);
+    if (!page) {
+        return null;
+    }
+    const head = new TextDecoder().decode(page.bytes.subarray(0, 2048));
+    const charset =
+        page.contentType?.match(/charset=["']?([\w-]+)/i)?.[1] ??
+        head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ??
+        "utf-8";
+    let html: string;
+    try {
+        html = new TextDecoder(charset).decode(page.bytes);
+    } catch {
+        html = new TextDecoder().decode(page.bytes);
+    }
+    return { html, url: page.url };
+}
+
+// 从网页中提取标题、描述和OpenGraph图片，OpenGraph中的内容优先
+function parsePageMetadata(
+    html: string,
+    pageUrl: string
+): Pick<SiteMetadata, "title" | "description" | "image"> {
+    const meta: Record<string, string> = {};
+    for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+        const attributes = parseTagAttributes(match[0]);
+        const key = (attributes.property || attributes.name || "").toLowerCase();
+        if (key && attributes.content && !(key in meta)) {
+            meta[key] = attributes.content;
+        }
+    }
+    const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+    // 合并连续的空白并限制长度
+    const clean = (value: string | undefined, maxLength: number) =>
+        (value || "").replace(/\s+/g, " ").trim().slice(0, maxLength);
+
+    return {
+        title: clean(meta["og:title"] || decodeHtmlEntities(title || ""), MAX_METADATA_TITLE_LENGTH),
+        description: clean(
+            meta["og:description"] || meta.description,
+            MAX_METADATA_DESCRIPTION_LENGTH
+        ),
+        image: meta["og:image"] ? resolveHttpUrl(meta["og:image"], pageUrl) : null,
+    };
+}
+
+// 按页面中的图标链接和manifest查找候选图标地址，从大到小排列，最后尝试/favicon.ico；
+// 已经读取过网页时通过page传入，避免重复请求
+export async function findIconUrls(
+    pageUrl: string,
+    page?: { html: string; url: string } | null
+): Promise<string[]> {
+    let baseUrl = pageUrl;
+    const candidates: IconCandidate[] = [];
+
+    if (page === undefined) {
+        page = await fetchPage(pageUrl);
+    }
+    if (page) {
+        baseUrl = page.url;
+        const { icons, manifest } = parseIconLinks(page.html, baseUrl);
+        candidates.push(...icons);
+        if (manifest) {
+            const data = await fetchLimited(manifest, MAX_PAGE_BYTES);
+            if (data) {
+                candidates.push(...parseManifestIcons(new TextDecoder().decode(data.bytes), data.url));
+            }
+        }
+    }
+
+    const urls = [
+        ...new Set(candidates.sort((a, b) => b.size - a.size).map(candidate => candidate.url)),
+    ].slice(0, FAVICON_MAX_CANDIDATES);
+    const fallback = new URL("/favicon.ico", baseUrl).href;
+    return urls.includes(fallback) ? urls : [...urls, fallback];
+}
+
+// 解析数据库中的JSON字段，内容损坏时返回空对象
+function parseJsonColumn(value: unknown): unknown {
+    if (typeof value !== "string") {
+        return value;
+    }
+    try {
+        return JSON.parse(value);
+    } catch {
+        return {};
+    }
+}
+
+// 数据库中的备用链接和自定义字段为JSON字符串，读取时解析为对象
+function parseSiteRow<T extends { alt_urls?: unknown; custom_fields?: unknown }>(
+    row: T
+): T & { alt_urls: SiteUrls; custom_fields: CustomFieldValues } {
+    return {
+        ...row,
+        alt_urls: normalizeAltUrls(parseJsonColumn(row.alt_urls)),
+        custom_fields: normalizeCustomFieldValues(parseJsonColumn(row.custom_fields)),
+    };
+}
+
+// 为列名添加表别名，用于联表查询
+function withAlias(columns: string, alias: string): string {
+    return columns
+        .split(", ")
+        .map(column => `${alias}.${column}`)
+        .join(", ");
+}
+
+// Base64URL 编码，支持UTF-8字符串和二进制数据
+function base64UrlEncode(data: string | ArrayBuffer | Uint8Array): string {
+    const bytes = typeof data === "string" ? new TextEncoder().encode(data) : new Uint8Array(data);
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Base64URL 解码为字节数组
+function base64UrlDecode(input: string): Uint8Array {
+    const base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+// 解码Base64URL编码的JSON
+function decodeJsonSegment(segment: string): Record<string, unknown> {
+    const decoded = JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)));
+    if (!decoded || typeof decoded !== "object" || Array.isArray(decoded)) {
+        throw new Error("无效的Token内容");
+    }
+    return decoded as Record<string, unknown>;
+}
+
+// 常量时间比较两个字节数组，避免时序攻击
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+}
+
+// 计算SHA-256摘要，用于存储刷新令牌等高熵随机值
+async function sha256(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+    return base64UrlEncode(digest);
+}
+
+// Base32编码（RFC 4648，无填充），用于TOTP密钥
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+    const cleaned = input.toUpperCase().replace(/=+$/, "");
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error("无效的Base32字符");
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+// 计算指定时间步的TOTP验证码（HMAC-SHA1 + 动态截断）
+async function generateTotp(secret: Uint8Array, step: number): Promise<string> {
+    const counter = new Uint8Array(8);
+    new DataView(counter.buffer).setUint32(4, step);
+    const key = await crypto.subtle.importKey(
+        "raw",
+        secret,
+        { name: "HMAC", hash: "SHA-1" },
+        false,
+        ["sign"]
+    );
+    const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counter));
+    const offset = hmac[hmac.length - 1] & 15;
+    const binary = new DataView(hmac.buffer).getUint32(offset) & 0x7fffffff;
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+// 在允许的时间窗口内查找与验证码匹配的时间步，未匹配返回null
+async function findTotpStep(secret: string, code: string): Promise<number | null> {
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+    const key = base32Decode(secret);
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+        const expected = await generateTotp(key, currentStep + offset);
+        if (timingSafeEqual(new TextEncoder().encode(expected), new TextEncoder().encode(code))) {
+            return currentStep + offset;
+        }
+    }
+    return null;
+}
+
+// 规范化用户输入的验证码或恢复码（去掉空格和连字符）
+function normalizeSecondFactorCode(code: string): string {
+    return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+// 生成一次性恢复码，格式：xxxxx-xxxxx
+function generateRecoveryCode(): string {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+// 使用PBKDF2派生密码哈希
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+    const keyMaterial = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(password),
+        "PBKDF2",
+        false,
+        ["deriveBits"]
+    );
+    const bits = await crypto.subtle.deriveBits(
+        { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+        keyMaterial,
+        256
+    );
+    return new Uint8Array(bits);
+}
+
+// 生成加盐密码哈希，格式：算法$迭代次数$盐$哈希
+async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+    const hash = await pbkdf2(password, salt, PASSWORD_HASH_ITERATIONS);
+    return [
+        PASSWORD_HASH_ALGORITHM,
+        PASSWORD_HASH_ITERATIONS,
+        base64UrlEncode(salt),
+        base64UrlEncode(hash),
+    ].join("$");
+}
+
+// 校验密码是否与存储的哈希匹配
+async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [algorithm, iterations, salt, hash] = storedHash.split("$");
+    if (algorithm !== PASSWORD_HASH_ALGORITHM || !iterations || !salt || !hash) {
+        return false;
+    }
+    const derived = await pbkdf2(password, base64UrlDecode(salt), parseInt(iterations));
+    return timingSafeEqual(derived, base64UrlDecode(hash));
+}
+
+// 计算第failures次失败后的锁定时长（秒），未超过免费次数时为0
+function getLockoutSeconds(scope: LoginAttemptScope, failures: number): number {
+    const excess = failures - LOGIN_FREE_ATTEMPTS[scope];
+    if (excess < 0) {
+        return 0;
+    }
+    return Math.min(LOGIN_LOCKOUT_BASE_SECONDS * 2 ** excess, LOGIN_LOCKOUT_MAX_SECONDS);
+}
+
+// 获取用户可以看到的分组可见性范围，返回null表示不过滤
+// viewer为undefined表示内部调用（如导出），为null表示未登录的访客
+function getVisibleScopes(viewer?: AuthUser | null): GroupVisibility[] | null {
+    if (viewer === undefined || (viewer && hasRole(viewer.role, "editor"))) {
+        return null;
+    }
+    return viewer ? ["public", "private"] : ["public"];
+}
+
+// 提取站点中需要保存到历史版本的字段
+function toSiteSnapshot(site: Site): SiteSnapshot {
+    return {
+        group_id: site.group_id,
+        name: site.name,
+        url: site.url,
+        icon: site.icon || "",
+        description: site.description || "",
+        notes: site.notes || "",
+        tags: site.tags || [],
+        alt_urls: site.alt_urls || {},
+        custom_fields: site.custom_fields || {},
+    };
+}
+
+function isSameSnapshot(a: SiteSnapshot, b: SiteSnapshot): boolean {
+    return SITE_REVISION_FIELDS.every(field => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+}
+
+// 转换为与SQLite的CURRENT_TIMESTAMP相同的格式（UTC，YYYY-MM-DD HH:MM:SS）
+function toSqlTimestamp(date: Date): string {
+    return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+// 按修改后的上级关系检查分组树：上级分组必须存在且在同一个面板中，不能移动到自身或自己的下级分组中
+function findGroupParentError(
+    groups: Group[],
+    changes: { id: number | null; parent_id: number | null; dashboard_id?: number }[]
+): string | null {
+    const parents = new Map(groups.map(group => [group.id as number, group.parent_id ?? null]));
+    const dashboards = new Map(groups.map(group => [group.id as number, group.dashboard_id]));
+    for (const change of changes) {
+        if (change.parent_id !== null && !parents.has(change.parent_id)) {
+            return "上级分组不存在";
+        }
+        // 未指定面板时按分组当前所在的面板检查，新建分组默认使用上级分组的面板
+        const dashboardId =
+            change.dashboard_id ?? (change.id !== null ? dashboards.get(change.id) : undefined);
+        if (
+            change.parent_id !== null &&
+            dashboardId !== undefined &&
+            dashboards.get(change.parent_id) !== dashboardId
+        ) {
+            return "上级分组必须在同一个面板中";
+        }
+        if (change.id !== null) {
+            if (!parents.has(change.id)) {
+                return "分组不存在";
+            }
+            parents.set(change.id, change.parent_id);
+        }
+    }
+
+    // 沿上级链向上查找，步数超过分组总数说明存在循环
+    for (const change of changes) {
+        if (change.id === null) continue;
+        let current = parents.get(change.id) ?? null;
+        for (let steps = 0; current !== null; steps++) {
+            if (current === change.id || steps > parents.size) {
+                return "不能将分组移动到自身或其下级分组中";
+            }
+            current = parents.get(current) ?? null;
+        }
+    }
+    return null;
+}
+
+// 判断配置项是否可以公开给未登录的访客，网络环境配置用于访客选择站点链接
+export function isPublicConfigKey(key: string): boolean {
+    return key.startsWith("site.") || key.startsWith("network.");
+}
+
+// 解析逗号分隔的权限范围，忽略未知值
+function parseScopes(value: string): ApiTokenScope[] {
+    return API_TOKEN_SCOPES.filter(scope => value.split(",").includes(scope));
+}
+
+// 将数据库记录转换为对外的API令牌对象
+function toApiToken(row: ApiTokenRow): ApiToken {
+    return { ...row, scopes: parseScopes(row.scopes) };
+}
+
+// 解析OIDC角色映射，格式错误时视为未配置
+function parseRoleMapping(value: string): Partial<Record<UserRole, string[]>> {
+    try {
+        const parsed = JSON.parse(value || "{}") as Record<string, unknown>;
+        return Object.fromEntries(
+            USER_ROLES.filter(role => Array.isArray(parsed[role])).map(role => [
+                role,
+                (parsed[role] as unknown[]).filter(rule => typeof rule === "string"),
+            ])
+        );
+    } catch {
+        console.error("OIDC_ROLE_MAPPING 不是有效的JSON");
+        return {};
+    }
+}
+
+// 按映射规则确定SSO用户的角色，匹配多个时取最高角色，没有匹配时返回null
+// 规则：完整邮箱、@域名、group:组名，或 * 表示所有人
+function resolveOidcRole(
+    mapping: Partial<Record<UserRole, string[]>>,
+    email: string,
+    groups: string[]
+): UserRole | null {
+    const matches = (rule: string) => {
+        if (rule === "*") return true;
+        if (rule.startsWith("group:")) return groups.includes(rule.slice("group:".length));
+        if (rule.startsWith("@")) return email.endsWith(rule.toLowerCase());
+        return email === rule.toLowerCase();
+    };
+    return [...USER_ROLES].reverse().find(role => mapping[role]?.some(matches)) || null;
+}
+
+// 使用身份提供方公布的JWKS校验ID令牌签名
+async function verifyIdTokenSignature(token: string, keys: Jwk[]): Promise<boolean> {
+    const [header, payload, signature] = token.split(".");
+    const decodedHeader = decodeJsonSegment(header);
+    const algorithm = ID_TOKEN_ALGORITHMS[String(decodedHeader.alg)];
+    if (!algorithm || !signature) {
+        return false;
+    }
+
+    // 有kid时按kid查找公钥，否则尝试所有同类型的公钥
+    const candidates = keys.filter(
+        key =>
+            (decodedHeader.kid === undefined || key.kid === decodedHeader.kid) &&
+            key.kty === (decodedHeader.alg === "RS256" ? "RSA" : "EC")
+    );
+    for (const jwk of candidates) {
+        const key = await crypto.subtle.importKey("jwk", jwk, algorithm.importParams, false, [
+            "verify",
+        ]);
+        if (
+            await crypto.subtle.verify(
+                algorithm.verifyParams,
+                key,
+                base64UrlDecode(signature),
+                new TextEncoder().encode(`${header}.${payload}`)
+            )
+        ) {
+            return true;
+        }
+    }
+    return false;
+}
+
+// 比较操作前后的记录，返回发生变化的字段
+export function diffRecords(
+    before?: object | null,
+    after?: object | null
+): Record<string, AuditChange> {
+    const beforeFields: Record<string, unknown> = { ...before };
+    const afterFields: Record<string, unknown> = { ...after };
+    const changes: Record<string, AuditChange> = {};
+
+    for (const key of new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])) {
+        if (AUDIT_IGNORED_FIELDS.includes(key)) continue;
+        const oldValue = key in beforeFields ? beforeFields[key] : null;
+        const newValue = key in afterFields ? afterFields[key] : null;
+        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+            changes[key] = { before: oldValue, after: newValue };
+        }
+    }
+    return changes;
+}
+
+// 将数据库记录转换为对外的用户对象
+function toUser(row: UserRow): User {
+    return {
+        id: row.id,
+        username: row.username,
+        role: row.role,
+        is_active: !!row.is_active,
+        two_factor_enabled: !!row.totp_enabled,
+        created_at: row.created_at,
+        updated_at: row.updated_at,
+    };
+}
+
+// API 类
+export class NavigationAPI {
+    private db: D1Database;
+    private authEnabled: boolean;
+    private publicRead: boolean;
+    private cookieSessions: boolean;
+    private autoMigrate: boolean;
+    private oidcIssuer: string;
+    private oidcClientId: string;
+    private oidcClientSecret: string;
+    private oidcScopes: string;
+    private oidcRoleMapping: Partial<Record<UserRole, string[]>>;
+    private username: string;
+    private password: string;
+    private secret: string;
+    private rememberMeDays: number;
+    private trashRetentionDays: number;
+    private signingKey: Promise<CryptoKey> | null = null;
+
+    constructor(env: Env) {
+        this.db = env.DB;
+        this.authEnabled = env.AUTH_ENABLED === "true";
+        this.publicRead = env.AUTH_PUBLIC_READ === "true";
+        this.cookieSessions = env.AUTH_COOKIE_SESSIONS === "true";
+        this.autoMigrate = env.DB_AUTO_MIGRATE !== "false";
+        this.oidcIssuer = (env.OIDC_ISSUER || "").replace(/\/+$/, "");
+        this.oidcClientId = env.OIDC_CLIENT_ID || "";
+        this.oidcClientSecret = env.OIDC_CLIENT_SECRET || "";
+        this.oidcScopes = env.OIDC_SCOPES || DEFAULT_OIDC_SCOPES;
+        this.oidcRoleMapping = parseRoleMapping(env.OIDC_ROLE_MAPPING || "");
+        this.username = env.AUTH_USERNAME || "";
+        this.password = env.AUTH_PASSWORD || "";
+        this.secret = env.AUTH_SECRET || "默认密钥，建议在生产环境中设置";
+        this.rememberMeDays = parseInt(env.AUTH_REMEMBER_ME_DAYS || "") || DEFAULT_REMEMBER_ME_DAYS;
+        const retentionDays = parseInt(env.TRASH_RETENTION_DAYS || "");
+        this.trashRetentionDays =
+            Number.isNaN(retentionDays) || retentionDays < 0
+                ? DEFAULT_TRASH_RETENTION_DAYS
+                : retentionDays;
+    }
+
+    // 检查数据库是否已完成初始化
+    async isInitialized(): Promise<boolean> {
+        try {
+            return (await this.getConfig("DB_INITIALIZED")) === "true";
+        } catch {
+            // 配置表不存在，说明尚未初始化
+            return false;
+        }
+    }
+
+    // 初始化数据库：执行所有未完成的迁移，也可用于升级旧数据库
+    async initDB(): Promise<{ success: boolean; alreadyInitialized: boolean }> {
+        const alreadyInitialized = await this.isInitialized();
+        await this.migrate();
+
+        // 设置初始化标志
+        await this.setConfig("DB_INITIALIZED", "true");
+
+        return { success: true, alreadyInitialized };
+    }
+
+    // 首次安装：建表并创建管理员、站点标题和初始分组，只能成功执行一次
+    async setup(request: SetupRequest): Promise<SetupResponse> {
+        await this.migrate();
+
+        // 抢占初始化标志，并发提交时只有一次能成功
+        const claimed = await this.db
+            .prepare(
+                "INSERT INTO configs (key, value) VALUES ('DB_INITIALIZED', 'true') ON CONFLICT(key) DO NOTHING RETURNING key"
+            )
+            .first<{ key: string }>();
+        if (!claimed) {
+            return { success: false, message: "数据库已经初始化过，无法再次执行安装向导" };
+        }
+
+        if (request.username && request.password) {
+            await this.db
+                .prepare(
+                    "INSERT INTO users (username, password_hash, role) VALUES (?, ?, 'admin') ON CONFLICT(username) DO NOTHING"
+                )
+                .bind(request.username, await hashPassword(request.password))
+                .run();
+        }
+
+        if (request.siteTitle) {
+            await this.setConfig("site.title", request.siteTitle);
+            await this.setConfig("site.name", request.siteTitle);
+            // 站点标题同时作为默认面板的名称和标题
+            await this.db
+                .prepare(
+                    "UPDATE dashboards SET name = ?, title = ?, updated_at = CURRENT_TIMESTAMP WHERE id = (SELECT MIN(id) FROM dashboards)"
+                )
+                .bind(request.siteTitle, request.siteTitle)
+                .run();
+        }
+
+        for (const [index, name] of (request.starterGroups || []).entries()) {
+            await this.createGroup({ name, order_num: index + 1, visibility: "public" });
+        }
+
+        return { success: true };
+    }
+
+    // 获取当前数据库结构版本，还没有执行过迁移时为0
+    async getSchemaVersion(): Promise<number> {
+        try {
+            const version = await this.db
+                .prepare("SELECT MAX(version) AS version FROM schema_version")
+                .first<number | null>("version");
+            return version || 0;
+        } catch {
+            // 版本表不存在，说明是迁移功能加入之前的数据库
+            return 0;
+        }
+    }
+
+    // 查询迁移状态
+    async getMigrationStatus(): Promise<MigrationStatus> {
+        const currentVersion = await this.getSchemaVersion();
+        return {
+            currentVersion,
+            latestVersion: LATEST_SCHEMA_VERSION,
+            pending: MIGRATIONS.filter(migration => migration.version > currentVersion).map(
+                ({ version, name }) => ({ version, name })
+            ),
+        };
+    }
+
+    // 按顺序执行所有未完成的迁移，每个迁移及其版本记录在同一个事务中提交
+    async migrate(): Promise<MigrationResult> {
+        await this.db.prepare(SCHEMA_VERSION_TABLE_SQL).run();
+        const fromVersion = await this.getSchemaVersion();
+        const applied: MigrationInfo[] = [];
+
+        for (const migration of MIGRATIONS) {
+            if (migration.version <= fromVersion) {
+                continue;
+            }
+
+            const statements: D1PreparedStatement[] = [];
+            for (const step of migration.steps) {
+                if (typeof step === "string") {
+                    statements.push(this.db.prepare(step));
+                } else if (!(await this.hasColumn(step.table, step.column))) {
+                    statements.push(
+                        this.db.prepare(
+                            `ALTER TABLE ${step.table} ADD COLUMN ${step.column} ${step.definition}`
+                        )
+                    );
+                }
+            }
+            statements.push(
+                this.db
+                    .prepare(
+                        "INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?) ON CONFLICT(version) DO NOTHING"
+                    )
+                    .bind(migration.version, migration.name, Math.floor(Date.now() / 1000))
+            );
+
+            try {
+                await this.db.batch(statements);
+            } catch (error) {
+                // 可能是另一个实例同时执行了同一个迁移，已完成则继续
+                if ((await this.getSchemaVersion()) < migration.version) {
+                    throw new Error(`数据库迁移 ${migration.version}（${migration.name}）失败: ${error}`);
+                }
+                continue;
+            }
+            applied.push({ version: migration.version, name: migration.name });
+        }
+
+        return { fromVersion, toVersion: await this.getSchemaVersion(), applied };
+    }
+
+    // 健康检查：数据库是否可用以及结构版本
+    async getHealth(): Promise<HealthStatus> {
+        try {
+            const status = await this.getMigrationStatus();
+            // 确认数据库可以访问
+            await this.db.prepare("SELECT 1").first();
+            return {
+                status: "ok",
+                schemaVersion: status.currentVersion,
+                latestSchemaVersion: status.latestVersion,
+                pendingMigrations: status.pending.length,
+            };
+        } catch {
+            return {
+                status: "error",
+                schemaVersion: null,
+                latestSchemaVersion: LATEST_SCHEMA_VERSION,
+                pendingMigrations: 0,
+            };
+        }
+    }
+
+    // 检查表中是否已有某个字段
+    private async hasColumn(table: string, column: string): Promise<boolean> {
+        const result = await this.db
+            .prepare(`PRAGMA table_info(${table})`)
+            .all<{ name: string }>();
+        return (result.results || []).some(row => row.name === column);
+    }
+
+    // 验证用户登录，client用于按IP统计失败次数和记录会话
+    async login(loginRequest: LoginRequest, client: ClientInfo = {}): Promise<LoginResponse> {
+        // 如果未启用身份验证，直接返回成功
+        if (!this.authEnabled) {
+            return {
+                success: true,
+                token: await this.generateToken({ username: "guest", role: "admin" }),
+                user: { username: "guest", role: "admin" },
+                message: "身份验证未启用，默认登录成功",
+            };
+        }
+
+        // 按IP和用户名检查是否处于锁定期，锁定期内不再校验密码
+        const attemptKeys: [LoginAttemptScope, string][] = [
+            ["user", loginRequest.username.toLowerCase()],
+        ];
+        if (client.ip) {
+            attemptKeys.push(["ip", client.ip]);
+        }
+        const lockedSeconds = await this.getLoginLockSeconds(attemptKeys);
+        if (lockedSeconds > 0) {
+            return {
+                success: false,
+                message: `尝试次数过多，请在 ${lockedSeconds} 秒后重试`,
+                retryAfter: lockedSeconds,
+            };
+        }
+
+        // 用户表为空时，使用环境变量中的账号创建第一个管理员
+        await this.bootstrapAdmin();
+
+        const user = await this.db
+            .prepare("SELECT * FROM users WHERE username = ?")
+            .bind(loginRequest.username)
+            .first<UserRow>();
+
+        // 验证用户名和密码，任何情况下都执行一次完整的密码哈希计算
+        const canLogin =
+            !!user &&
+            !!user.is_active &&
+            user.password_hash.startsWith(`${PASSWORD_HASH_ALGORITHM}$`);
+        const passwordValid = await verifyPassword(
+            loginRequest.password,
+            canLogin ? user.password_hash : DUMMY_PASSWORD_HASH
+        );
+        if (user && canLogin && passwordValid) {
+            // 已启用两步验证时，先返回临时凭证，验证码通过后才签发令牌
+            if (user.totp_enabled) {
+                return {
+                    success: false,
+                    twoFactorRequired: true,
+                    twoFactorToken: await this.generateToken(
+                        { sub: user.id, purpose: "2fa", remember: !!loginRequest.remember },
+                        TWO_FACTOR_CHALLENGE_TTL_SECONDS
+                    ),
+                    message: "请输入两步验证码",
+                };
+            }
+
+            return this.completeLogin(user, client, !!loginRequest.remember);
+        }
+
+        const retryAfter = await this.recordLoginFailure(attemptKeys);
+        if (retryAfter > 0) {
+            return {
+                success: false,
+                message: `尝试次数过多，请在 ${retryAfter} 秒后重试`,
+                retryAfter,
+            };
+        }
+
+        return {
+            success: false,
+            message: "用户名或密码错误",
+        };
+    }
+
+    // 查询登录锁定剩余秒数，取各维度中最长的一个
+    private async getLoginLockSeconds(keys: [LoginAttemptScope, string][]): Promise<number> {
+        const now = Math.floor(Date.now() / 1000);
+        let remaining = 0;
+        for (const [scope, key] of keys) {
+            const row = await this.db
+                .prepare(
+                    "SELECT failures, locked_until, last_failed_at FROM login_attempts WHERE scope = ? AND key = ?"
+                )
+                .bind(scope, key)
+                .first<LoginAttemptRow>();
+            if (row && row.locked_until > now) {
+                remaining = Math.max(remaining, row.locked_until - now);
+            }
+        }
+        return remaining;
+    }
+
+    // 记录一次登录失败，返回因此触发的锁定秒数
+    private async recordLoginFailure(keys: [LoginAttemptScope, string][]): Promise<number> {
+        const now = Math.floor(Date.now() / 1000);
+        let lockSeconds = 0;
+        for (const [scope, key] of keys) {
+            const row = await this.db
+                .prepare(
+                    "SELECT failures, locked_until, last_failed_at FROM login_attempts WHERE scope = ? AND key = ?"
+                )
+                .bind(scope, key)
+                .first<LoginAttemptRow>();
+
+            // 距上次失败超过时间窗口则重新计数
+            const failures =
+                row && now - row.last_failed_at < LOGIN_ATTEMPT_WINDOW_SECONDS ? row.failures + 1 : 1;
+            const seconds = getLockoutSeconds(scope, failures);
+            lockSeconds = Math.max(lockSeconds, seconds);
+
+            await this.db
+                .prepare(
+                    `INSERT INTO login_attempts (scope, key, failures, locked_until, last_failed_at) VALUES (?, ?, ?, ?, ?)
+                    ON CONFLICT(scope, key) DO UPDATE SET failures = excluded.failures, locked_until = excluded.locked_until, last_failed_at = excluded.last_failed_at`
+                )
+                .bind(scope, key, failures, seconds ? now + seconds : 0, now)
+                .run();
+        }
+        return lockSeconds;
+    }
+
+    // 登录第二步：校验两步验证码或恢复码
+    async loginWithTwoFactor(
+        request: TwoFactorLoginRequest,
+        client: ClientInfo = {}
+    ): Promise<LoginResponse> {
+        const expired = { success: false, message: "两步验证已过期，请重新登录" };
+        let payload: Record<string, unknown>;
+        try {
+            payload = await this.decodeToken(request.twoFactorToken);
+        } catch {
+            return expired;
+        }
+        if (payload.purpose !== "2fa" || typeof payload.sub !== "number") {
+            return expired;
+        }
+
+        const user = await this.db
+            .prepare("SELECT * FROM users WHERE id = ?")
+            .bind(payload.sub)
+            .first<UserRow>();
+        if (!user || !user.is_active || !user.totp_enabled) {
+            return expired;
+        }
+
+        // 验证码同样受登录失败次数限制
+        const attemptKeys: [LoginAttemptScope, string][] = [["user", user.username.toLowerCase()]];
+        if (client.ip) {
+            attemptKeys.push(["ip", client.ip]);
+        }
+        const lockedSeconds = await this.getLoginLockSeconds(attemptKeys);
+        if (lockedSeconds > 0) {
+            return {
+                success: false,
+                message: `尝试次数过多，请在 ${lockedSeconds} 秒后重试`,
+                retryAfter: lockedSeconds,
+            };
+        }
+
+        if (await this.consumeSecondFactor(user, request.code)) {
+            return this.completeLogin(user, client, payload.remember === true);
+        }
+
+        const retryAfter = await this.recordLoginFailure(attemptKeys);
+        if (retryAfter > 0) {
+            return {
+                success: false,
+                message: `尝试次数过多，请在 ${retryAfter} 秒后重试`,
+                retryAfter,
+            };
+        }
+        return { success: false, message: "验证码错误" };
+    }
+
+    // OIDC单点登录：生成授权地址，state、nonce和PKCE校验码签名后由调用方写入Cookie
+    async startOidcLogin(redirectUri: string, remember: boolean): Promise<OidcLoginStart> {
+        const discovery = await this.getOidcDiscovery();
+        const random = () =>
+            base64UrlEncode(crypto.getRandomValues(new Uint8Array(OIDC_RANDOM_BYTES)));
+        const state = random();
+        const nonce = random();
+        const verifier = random();
+
+        const authorizationUrl = new URL(discovery.authorization_endpoint);
+        authorizationUrl.search = new URLSearchParams({
+            response_type: "code",
+            client_id: this.oidcClientId,
+            redirect_uri: redirectUri,
+            scope: this.oidcScopes,
+            state,
+            nonce,
+            code_challenge: await sha256(verifier),
+            code_challenge_method: "S256",
+        }).toString();
+
+        return {
+            authorizationUrl: authorizationUrl.toString(),
+            stateToken: await this.generateToken(
+                { purpose: "oidc", state, nonce, verifier, remember },
+                OIDC_STATE_TTL_SECONDS
+            ),
+        };
+    }
+
+    // OIDC回调：用授权码换取ID令牌，校验后按映射规则创建或更新用户，再签发与密码登录相同的会话令牌
+    async completeOidcLogin(callback: OidcCallback, client: ClientInfo = {}): Promise<LoginResponse> {
+        let loginState: Record<string, unknown>;
+        try {
+            loginState = await this.decodeToken(callback.stateToken);
+        } catch {
+            return { success: false, message: "SSO登录已过期，请重新登录" };
+        }
+        if (loginState.purpose !== "oidc" || loginState.state !== callback.state) {
+            return { success: false, message: "SSO登录状态无效，请重新登录" };
+        }
+
+        const discovery = await this.getOidcDiscovery();
+
+        // 授权码换取令牌，客户端密钥使用HTTP Basic认证
+        const tokenResponse = await fetch(discovery.token_endpoint, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/x-www-form-urlencoded",
+                Authorization: `Basic ${btoa(
+                    `${encodeURIComponent(this.oidcClientId)}:${encodeURIComponent(this.oidcClientSecret)}`
+                )}`,
+            },
+            body: new URLSearchParams({
+                grant_type: "authorization_code",
+                code: callback.code,
+                redirect_uri: callback.redirectUri,
+                client_id: this.oidcClientId,
+                code_verifier: String(loginState.verifier),
+            }).toString(),
+        });
+        if (!tokenResponse.ok) {
+            console.error(`OIDC令牌接口返回错误: ${tokenResponse.status}`);
+            return { success: false, message: "SSO登录失败，无法换取令牌" };
+        }
+        const tokens = (await tokenResponse.json()) as { id_token?: string; access_token?: string };
+
+        // 校验ID令牌的签名、签发方、受众、有效期和nonce
+        const idToken = tokens.id_token || "";
+        const jwks = (await (await fetch(discovery.jwks_uri)).json()) as { keys?: Jwk[] };
+        if (!(await verifyIdTokenSignature(idToken, jwks.keys || []))) {
+            return { success: false, message: "SSO登录失败，ID令牌签名无效" };
+        }
+        const claims = decodeJsonSegment(idToken.split(".")[1]);
+        const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        const now = Math.floor(Date.now() / 1000);
+        if (
+            claims.iss !== discovery.issuer ||
+            !audience.includes(this.oidcClientId) ||
+            typeof claims.exp !== "number" ||
+            claims.exp + CLOCK_SKEW_SECONDS < now ||
+            claims.nonce !== loginState.nonce
+        ) {
+            return { success: false, message: "SSO登录失败，ID令牌无效" };
+        }
+
+        // ID令牌中没有邮箱或组信息时，从userinfo接口补充
+        if (discovery.userinfo_endpoint && tokens.access_token) {
+            const userInfoResponse = await fetch(discovery.userinfo_endpoint, {
+                headers: { Authorization: `Bearer ${tokens.access_token}` },
+            });
+            if (userInfoResponse.ok) {
+                const userInfo = (await userInfoResponse.json()) as Record<string, unknown>;
+                if (userInfo.sub === claims.sub) {
+                    Object.assign(claims, { ...userInfo, ...claims });
+                }
+            }
+        }
+
+        if (
+            typeof claims.sub !== "string" ||
+            typeof claims.email !== "string" ||
+            claims.email_verified !== true
+        ) {
+            return { success: false, message: "身份提供方未返回已验证的邮箱" };
+        }
+        const email = claims.email.toLowerCase();
+        const groups = Array.isArray(claims.groups)
+            ? claims.groups.filter((group): group is string => typeof group === "string")
+            : [];
+        const role = resolveOidcRole(this.oidcRoleMapping, email, groups);
+        if (!role) {
+            return { success: false, message: "您的账号未被授权访问本导航站" };
+        }
+
+        // 按sub查找SSO账号，只绑定通过SSO创建的账号，不会登录同名的本地账号
+        await this.bootstrapAdmin();
+        let user = await this.db
+            .prepare("SELECT * FROM users WHERE auth_provider = 'oidc' AND oidc_subject = ?")
+            .bind(claims.sub)
+            .first<UserRow>();
+        if (!user) {
+            const existing = await this.db
+                .prepare("SELECT * FROM users WHERE username = ?")
+                .bind(email)
+                .first<UserRow>();
+            if (existing && (existing.auth_provider !== "oidc" || existing.oidc_subject)) {
+                return { success: false, message: "该邮箱已被本地账号或其他SSO账号使用，请联系管理员" };
+            }
+            // 升级前通过SSO创建、尚未绑定sub的账号在首次登录时绑定
+            user = existing
+                ? await this.db
+                      .prepare(
+                          "UPDATE users SET oidc_subject = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? RETURNING *"
+                      )
+                      .bind(claims.sub, existing.id)
+                      .first<UserRow>()
+                : await this.db
+                      .prepare(
+                          "INSERT INTO users (username, password_hash, role, auth_provider, oidc_subject) VALUES (?, ?, ?, 'oidc', ?) RETURNING *"
+                      )
+                      .bind(email, OIDC_PASSWORD_PLACEHOLDER, role, claims.sub)
+                      .first<UserRow>();
+        }
+
+        // 角色以身份提供方为准，每次登录同步，但不会降级最后一个启用的管理员
+        if (user && user.role !== role) {
+            const losesAdmin = user.role === "admin" && !!user.is_active;
+            if (!losesAdmin || (await this.countActiveAdmins()) > 1) {
+                user = await this.db
+                    .prepare(
+                        "UPDATE users SET role = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? RETURNING *"
+                    )
+                    .bind(role, user.id)
+                    .first<UserRow>();
+            }
+        }
+        if (!user || !user.is_active) {
+            return { success: false, message: "账号已被禁用" };
+        }
+
+        // 身份提供方负责多因素认证，不再要求本地两步验证
+        return this.completeLogin(user, client, loginState.remember === true);
+    }
+
+    // 获取身份提供方的discovery文档
+    private async getOidcDiscovery(): Promise<OidcDiscovery> {
+        const response = await fetch(`${this.oidcIssuer}/.well-known/openid-configuration`);
+        if (!response.ok) {
+            throw new Error(`获取OIDC配置失败: ${response.status}`);
+        }
+        const discovery = (await response.json()) as OidcDiscovery;
+        if (discovery.issuer.replace(/\/+$/, "") !== this.oidcIssuer) {
+            throw new Error("OIDC配置中的issuer与OIDC_ISSUER不一致");
+        }
+        return discovery;
+    }
+
+    // 身份验证通过后创建会话并签发令牌
+    private async completeLogin(
+        user: UserRow,
+        client: ClientInfo,
+        remember: boolean
+    ): Promise<LoginResponse> {
+        // 创建服务端会话并生成JWT令牌
+        const session = await this.createSession(user.id, client, remember);
+        const token = await this.generateToken({
+            sub: user.id,
+            username: user.username,
+            role: user.role,
+            jti: session.id,
+        });
+        // 登录成功后清除该用户名的失败记录，IP记录按时间窗口自然过期
+        await this.db
+            .prepare("DELETE FROM login_attempts WHERE scope = 'user' AND key = ?")
+            .bind(user.username.toLowerCase())
+            .run();
+        return {
+            success: true,
+            token,
+            refreshToken: session.refreshToken,
+            remember,
+            user: { id: user.id, username: user.username, role: user.role },
+            message: "登录成功",
+        };
+    }
+
+    // 校验TOTP验证码或一次性恢复码，通过后记录已使用的时间步或作废恢复码
+    private async consumeSecondFactor(user: UserRow, code: string): Promise<boolean> {
+        const normalized = normalizeSecondFactorCode(code);
+
+        if (normalized.length === TOTP_DIGITS && /^\d+$/.test(normalized)) {
+            if (!user.totp_secret) {
+                return false;
+            }
+            // 同一时间步的验证码只能使用一次，防止重放
+            const step = await findTotpStep(user.totp_secret, normalized);
+            if (step === null || step <= (user.totp_last_step ?? -1)) {
+                return false;
+            }
+            await this.db
+                .prepare("UPDATE users SET totp_last_step = ? WHERE id = ?")
+                .bind(step, user.id)
+                .run();
+            return true;
+        }
+
+        const hashes: string[] = JSON.parse(user.recovery_codes || "[]");
+        const index = hashes.indexOf(await sha256(normalized));
+        if (index === -1) {
+            return false;
+        }
+        hashes.splice(index, 1);
+        await this.db
+            .prepare("UPDATE users SET recovery_codes = ? WHERE id = ?")
+            .bind(JSON.stringify(hashes), user.id)
+            .run();
+        return true;
+    }
+
+    // 使用刷新令牌续期会话，签发新的访问令牌并轮换刷新令牌
+    async refresh(refreshToken: string, client: ClientInfo = {}): Promise<LoginResponse> {
+        const failure = { success: false, message: "会话已过期，请重新登录" };
+        if (!this.authEnabled) {
+            return failure;
+        }
+
+        // 刷新令牌格式：会话ID.随机值
+        const [sessionId, secret, ...rest] = refreshToken.split(".");
+        if (!sessionId || !secret || rest.length > 0) {
+            return failure;
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const session = await this.db
+            .prepare(
+                `SELECT s.user_id, s.expires_at, s.revoked_at, s.refresh_token_hash, s.remember, u.username, u.role, u.is_active
+                FROM sessions s JOIN users u ON s.user_id = u.id WHERE s.id = ?`
+            )
+            .bind(sessionId)
+            .first<{
+                user_id: number;
+                expires_at: number;
+                revoked_at: number | null;
+                refresh_token_hash: string | null;
+                remember: number;
+                username: string;
+                role: UserRole;
+                is_active: number;
+            }>();
+
+        // 刷新令牌已被轮换（例如其他标签页已续期）时同样拒绝，由客户端重新读取最新令牌
+        if (
+            !session ||
+            session.revoked_at ||
+            session.expires_at < now ||
+            !session.is_active ||
+            !session.refresh_token_hash ||
+            !timingSafeEqual(
+                base64UrlDecode(await sha256(secret)),
+                base64UrlDecode(session.refresh_token_hash)
+            )
+        ) {
+            return failure;
+        }
+
+        // 滑动过期：每次续期都从当前时间重新计算会话有效期
+        const nextSecret = base64UrlEncode(crypto.getRandomValues(new Uint8Array(REFRESH_TOKEN_BYTES)));
+        await this.db
+            .prepare(
+                "UPDATE sessions SET refresh_token_hash = ?, ip = COALESCE(?, ip), last_seen_at = ?, expires_at = ? WHERE id = ?"
+            )
+            .bind(
+                await sha256(nextSecret),
+                client.ip || null,
+                now,
+                now + this.getSessionTtl(!!session.remember),
+                sessionId
+            )
+            .run();
+
+        const user: AuthUser = {
+            id: session.user_id,
+            username: session.username,
+            role: session.role,
+        };
+        return {
+            success: true,
+            token: await this.generateToken({
+                sub: user.id,
+                username: user.username,
+                role: user.role,
+                jti: sessionId,
+            }),
+            refreshToken: `${sessionId}.${nextSecret}`,
+            remember: !!session.remember,
+            user,
+        };
+    }
+
+    // 会话有效期（秒），勾选"记住我"时使用配置的天数
+    private getSessionTtl(remember: boolean): number {
+        return remember ? this.rememberMeDays * 24 * 60 * 60 : SESSION_IDLE_TTL_SECONDS;
+    }
+
+    // 创建登录会话，返回会话ID和刷新令牌
+    private async createSession(
+        userId: number,
+        client: ClientInfo,
+        remember: boolean
+    ): Promise<{ id: string; refreshToken: string }> {
+        const id = crypto.randomUUID();
+        const secret = base64UrlEncode(crypto.getRandomValues(new Uint8Array(REFRESH_TOKEN_BYTES)));
+        const refreshTokenHash = await sha256(secret);
+        const now = Math.floor(Date.now() / 1000);
+        await this.db
+            .prepare(
+                "INSERT INTO sessions (id, user_id, ip, user_agent, last_seen_at, expires_at, refresh_token_hash, remember) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+            )
+            .bind(
+                id,
+                userId,
+                client.ip || null,
+                client.userAgent || null,
+                now,
+                now + this.getSessionTtl(remember),
+                refreshTokenHash,
+                remember ? 1 : 0
+            )
+            .run();
+
+        // 顺带清理已过期的会话
+        await this.db.prepare("DELETE FROM sessions WHERE expires_at < ?").bind(now).run();
+        return { id, refreshToken: `${id}.${secret}` };
+    }
+
+    // 首次登录时将环境变量中的账号转换为管理员
+    private async bootstrapAdmin(): Promise<void> {
+        const count = await this.db
+            .prepare("SELECT COUNT(*) AS count FROM users")
+            .first<number>("count");
+
+        if (count || !this.username || !this.password) {
+            return;
+        }
+
+        await this.db
+            .prepare(
+                "INSERT INTO users (username, password_hash, role) VALUES (?, ?, 'admin') ON CONFLICT(username) DO NOTHING"
+            )
+            .bind(this.username, await hashPassword(this.password))
+            .run();
+        console.log(`已使用环境变量创建初始管理员: ${this.username}`);
+    }
+
+    // 验证令牌有效性
+    async verifyToken(
+        token: string
+    ): Promise<{ valid: boolean; payload?: Record<string, unknown> }> {
+        if (!this.authEnabled) {
+            return { valid: true };
+        }
+
+        try {
+            const decodedPayload = await this.decodeToken(token);
+            const now = Math.floor(Date.now() / 1000);
+
+            // 确认用户仍然存在且未被禁用
+            const user =
+                typeof decodedPayload.sub === "number"
+                    ? await this.db
+                          .prepare("SELECT role, is_active FROM users WHERE id = ?")
+                          .bind(decodedPayload.sub)
+                          .first<{ role: UserRole; is_active: number }>()
+                    : null;
+            if (!user || !user.is_active) {
+                throw new Error("用户不存在或已被禁用");
+            }
+
+            // 确认会话存在且未被撤销
+            if (typeof decodedPayload.jti !== "string") {
+                throw new Error("Token缺少会话标识");
+            }
+            const session = await this.db
+                .prepare(
+                    "SELECT user_id, last_seen_at, expires_at, revoked_at FROM sessions WHERE id = ?"
+                )
+                .bind(decodedPayload.jti)
+                .first<{
+                    user_id: number;
+                    last_seen_at: number;
+                    expires_at: number;
+                    revoked_at: number | null;
+                }>();
+            if (
+                !session ||
+                session.revoked_at ||
+                session.user_id !== decodedPayload.sub ||
+                session.expires_at + CLOCK_SKEW_SECONDS < now
+            ) {
+                throw new Error("会话不存在或已被撤销");
+            }
+
+            // 更新最后活动时间
+            if (now - session.last_seen_at >= SESSION_TOUCH_INTERVAL_SECONDS) {
+                await this.db
+                    .prepare("UPDATE sessions SET last_seen_at = ? WHERE id = ?")
+                    .bind(now, decodedPayload.jti)
+                    .run();
+            }
+
+            // 以数据库中的角色为准，角色调整后无需等待令牌过期即可生效
+            return { valid: true, payload: { ...decodedPayload, role: user.role } };
+        } catch (error) {
+            console.error("Token验证失败:", error);
+            return { valid: false };
+        }
+    }
+
+    // 解析并校验JWT的签名和时间，返回payload，校验失败时抛出错误
+    private async decodeToken(token: string): Promise<Record<string, unknown>> {
+        // 解析JWT
+        const [header, payload, signature, ...rest] = token.split(".");
+        if (!header || !payload || !signature || rest.length > 0) {
+            throw new Error("无效的Token格式");
+        }
+
+        // 校验Header，只接受HS256签名的JWT，防止alg=none等降级攻击
+        const decodedHeader = decodeJsonSegment(header);
+        if (decodedHeader.alg !== JWT_HEADER.alg || decodedHeader.typ !== JWT_HEADER.typ) {
+            throw new Error("不支持的Token算法或类型");
+        }
+
+        // 使用HMAC-SHA256验证签名（crypto.subtle.verify为常量时间比较）
+        const signatureValid = await crypto.subtle.verify(
+            "HMAC",
+            await this.getSigningKey(),
+            base64UrlDecode(signature),
+            new TextEncoder().encode(`${header}.${payload}`)
+        );
+        if (!signatureValid) {
+            throw new Error("Token签名无效");
+        }
+
+        // 解码payload
+        const decodedPayload = decodeJsonSegment(payload);
+        const now = Math.floor(Date.now() / 1000);
+
+        // 验证过期时间，允许一定的时钟偏差
+        if (
+            typeof decodedPayload.exp !== "number" ||
+            decodedPayload.exp + CLOCK_SKEW_SECONDS < now
+        ) {
+            throw new Error("Token已过期");
+        }
+
+        // 拒绝签发时间或生效时间在未来的Token
+        if (
+            typeof decodedPayload.iat === "number" &&
+            decodedPayload.iat - CLOCK_SKEW_SECONDS > now
+        ) {
+            throw new Error("Token签发时间无效");
+        }
+        if (
+            typeof decodedPayload.nbf === "number" &&
+            decodedPayload.nbf - CLOCK_SKEW_SECONDS > now
+        ) {
+            throw new Error("Token尚未生效");
+        }
+
+        return decodedPayload;
+    }
+
+    // 生成JWT令牌
+    private async generateToken(
+        payload: Record<string, unknown>,
+        ttlSeconds = ACCESS_TOKEN_TTL_SECONDS
+    ): Promise<string> {
+        // 准备payload
+        const now = Math.floor(Date.now() / 1000);
+        const tokenPayload = {
+            ...payload,
+            exp: now + ttlSeconds,
+            iat: now,
+        };
+
+        // 创建Header和Payload部分
+        const encodedHeader = base64UrlEncode(JSON.stringify(JWT_HEADER));
+        const encodedPayload = base64UrlEncode(JSON.stringify(tokenPayload));
+
+        // 使用AUTH_SECRET进行HMAC-SHA256签名
+        const signature = await crypto.subtle.sign(
+            "HMAC",
+            await this.getSigningKey(),
+            new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+        );
+
+        // 组合JWT
+        return `${encodedHeader}.${encodedPayload}.${base64UrlEncode(signature)}`;
+    }
+
+    // 导入HMAC签名密钥，同一实例内复用
+    private getSigningKey(): Promise<CryptoKey> {
+        if (!this.signingKey) {
+            this.signingKey = crypto.subtle.importKey(
+                "raw",
+                new TextEncoder().encode(this.secret),
+                { name: "HMAC", hash: "SHA-256" },
+                false,
+                ["sign", "verify"]
+            );
+        }
+        return this.signingKey;
+    }
+
+    // 检查认证是否启用
+    isAuthEnabled(): boolean {
+        return this.authEnabled;
+    }
+
+    // 获取"记住我"的有效天数
+    getRememberMeDays(): number {
+        return this.rememberMeDays;
+    }
+
+    // 检查是否允许访客只读浏览
+    isPublicReadEnabled(): boolean {
+        return this.authEnabled && this.publicRead;
+    }
+
+    // 检查是否配置了OIDC单点登录
+    isOidcEnabled(): boolean {
+        return this.authEnabled && !!this.oidcIssuer && !!this.oidcClientId;
+    }
+
+    // 检查是否使用HttpOnly Cookie保存登录令牌
+    isCookieSessionsEnabled(): boolean {
+        return this.authEnabled && this.cookieSessions;
+    }
+
+    // 检查是否在启动时自动执行数据库迁移
+    isAutoMigrateEnabled(): boolean {
+        return this.autoMigrate;
+    }
+
+    // 从令牌payload中解析当前用户，未启用认证时视为管理员
+    getAuthUser(payload?: Record<string, unknown>): AuthUser {
+        if (!this.authEnabled) {
+            return { username: "guest", role: "admin" };
+        }
+        const role = USER_ROLES.find(r => r === payload?.role);
+        return {
+            id: typeof payload?.sub === "number" ? payload.sub : undefined,
+            username: typeof payload?.username === "string" ? payload.username : "",
+            // 未知角色按最低权限处理
+            role: role || "viewer",
+        };
+    }
+
+    // 会话相关 API
+    // 获取所有未过期且未撤销的会话
+    async getSessions(): Promise<Session[]> {
+        const now = Math.floor(Date.now() / 1000);
+        const result = await this.db
+            .prepare(
+                `SELECT s.id, s.user_id, u.username, s.ip, s.user_agent, s.created_at, s.last_seen_at, s.expires_at
+                FROM sessions s JOIN users u ON s.user_id = u.id
+                WHERE s.revoked_at IS NULL AND s.expires_at > ?
+                ORDER BY s.last_seen_at DESC`
+            )
+            .bind(now)
+            .all<Session>();
+        return result.results || [];
+    }
+
+    // 撤销会话，对应的令牌立即失效
+    async revokeSession(id: string): Promise<boolean> {
+        const result = await this.db
+            .prepare(
+                "UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL RETURNING id"
+            )
+            .bind(Math.floor(Date.now() / 1000), id)
+            .first<{ id: string }>();
+        return !!result;
+    }
+
+    // 两步验证相关 API
+    async getTwoFactorStatus(userId: number): Promise<TwoFactorStatus> {
+        const user = await this.getUserRow(userId);
+        return {
+            enabled: !!user.totp_enabled,
+            recoveryCodesRemaining: user.totp_enabled
+                ? (JSON.parse(user.recovery_codes || "[]") as string[]).length
+                : 0,
+        };
+    }
+
+    // 生成新的TOTP密钥，验证通过前不会生效
+    async setupTwoFactor(userId: number): Promise<TwoFactorSetup> {
+        const user = await this.getUserRow(userId);
+        if (user.totp_enabled) {
+            throw new Error("已启用两步验证，请先关闭后再重新设置");
+        }
+
+        const secret = base32Encode(crypto.getRandomValues(new Uint8Array(TOTP_SECRET_BYTES)));
+        await this.db
+            .prepare("UPDATE users SET totp_secret = ?, totp_last_step = NULL WHERE id = ?")
+            .bind(secret, userId)
+            .run();
+
+        const label = encodeURIComponent(`${TOTP_ISSUER}:${user.username}`);
+        const params = new URLSearchParams({
+            secret,
+            issuer: TOTP_ISSUER,
+            algorithm: "SHA1",
+            digits: String(TOTP_DIGITS),
+            period: String(TOTP_STEP_SECONDS),
+        });
+        return { secret, otpauthUri: `otpauth://totp/${label}?${params}` };
+    }
+
+    // 使用身份验证器中的验证码确认启用，返回一次性恢复码明文
+    async enableTwoFactor(userId: number, code: string): Promise<string[]> {
+        const user = await this.getUserRow(userId);
+        if (user.totp_enabled) {
+            throw new Error("已启用两步验证");
+        }
+        if (!user.totp_secret) {
+            throw new Error("请先生成两步验证密钥");
+        }
+
+        const step = await findTotpStep(user.totp_secret, normalizeSecondFactorCode(code));
+        if (step === null) {
+            throw new Error("验证码错误");
+        }
+
+        const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+        const hashes = await Promise.all(
+            recoveryCodes.map(recoveryCode => sha256(normalizeSecondFactorCode(recoveryCode)))
+        );
+        await this.db
+            .prepare(
+                "UPDATE users SET totp_enabled = 1, totp_last_step = ?, recovery_codes = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+            )
+            .bind(step, JSON.stringify(hashes), userId)
+            .run();
+        return recoveryCodes;
+    }
+
+    // 关闭两步验证，需要提供验证码或恢复码
+    async disableTwoFactor(userId: number, code: string): Promise<void> {
+        const user = await this.getUserRow(userId);
+        if (!user.totp_enabled) {
+            throw new Error("尚未启用两步验证");
+        }
+        if (!(await this.consumeSecondFactor(user, code))) {
+            throw new Error("验证码错误");
+        }
+        await this.db
+            .prepare(
+                "UPDATE users SET totp_enabled = 0, totp_secret = NULL, totp_last_step = NULL, recovery_codes = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+            )
+            .bind(userId)
+            .run();
+    }
+
+    // 读取完整的用户记录，不存在时抛出错误
+    private async getUserRow(userId: number): Promise<UserRow> {
+        const user = await this.db
+            .prepare("SELECT * FROM users WHERE id = ?")
+            .bind(userId)
+            .first<UserRow>();
+        if (!user) {
+            throw new Error("用户不存在");
+        }
+        return user;
+    }
+
+    // API令牌相关 API
+    // 验证API令牌，返回令牌所属用户和权限范围
+    async verifyApiToken(
+        token: string
+    ): Promise<{ user: AuthUser; scopes: ApiTokenScope[] } | null> {
+        try {
+            const row = await this.db
+                .prepare(
+                    `SELECT t.id, t.scopes, t.last_used_at, u.id AS user_id, u.username, u.role, u.is_active
+                    FROM api_tokens t JOIN users u ON t.user_id = u.id WHERE t.token_hash = ?`
+                )
+                .bind(await sha256(token))
+                .first<{
+                    id: number;
+                    scopes: string;
+                    last_used_at: number | null;
+                    user_id: number;
+                    username: string;
+                    role: UserRole;
+                    is_active: number;
+                }>();
+            if (!row || !row.is_active) {
+                return null;
+            }
+
+            // 更新最后使用时间
+            const now = Math.floor(Date.now() / 1000);
+            if (!row.last_used_at || now - row.last_used_at >= SESSION_TOUCH_INTERVAL_SECONDS) {
+                await this.db
+                    .prepare("UPDATE api_tokens SET last_used_at = ? WHERE id = ?")
+                    .bind(now, row.id)
+                    .run();
+            }
+
+            return {
+                user: { id: row.user_id, username: row.username, role: row.role },
+                scopes: parseScopes(row.scopes),
+            };
+        } catch (error) {
+            console.error("API令牌验证失败:", error);
+            return null;
+        }
+    }
+
+    // 获取用户的API令牌列表
+    async getApiTokens(userId: number): Promise<ApiToken[]> {
+        const result = await this.db
+            .prepare(`SELECT ${API_TOKEN_COLUMNS} FROM api_tokens WHERE user_id = ? ORDER BY id`)
+            .bind(userId)
+            .all<ApiTokenRow>();
+        return (result.results || []).map(toApiToken);
+    }
+
+    // 创建API令牌，明文只在此时返回
+    async createApiToken(userId: number, request: CreateApiTokenRequest): Promise<CreatedApiToken> {
+        const token =
+            API_TOKEN_PREFIX +
+            base64UrlEncode(crypto.getRandomValues(new Uint8Array(API_TOKEN_BYTES)));
+        const result = await this.db
+            .prepare(
+                `INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, scopes) VALUES (?, ?, ?, ?, ?) RETURNING ${API_TOKEN_COLUMNS}`
+            )
+            .bind(
+                userId,
+                request.name,
+                await sha256(token),
+                token.slice(0, API_TOKEN_PREFIX.length + API_TOKEN_DISPLAY_LENGTH),
+                request.scopes.join(",")
+            )
+            .all<ApiTokenRow>();
+        if (!result.results || result.results.length === 0) {
+            throw new Error("创建API令牌失败");
+        }
+        return { ...toApiToken(result.results[0]), token };
+    }
+
+    // 撤销（删除）用户的API令牌
+    async deleteApiToken(userId: number, id: number): Promise<boolean> {
+        const result = await this.db
+            .prepare("DELETE FROM api_tokens WHERE id = ? AND user_id = ? RETURNING id")
+            .bind(id, userId)
+            .first<{ id: number }>();
+        return !!result;
+    }
+
+    // 审计日志相关 API
+    // 记录一次修改操作，没有任何字段变化的更新不记录
+    async recordAudit(entry: AuditEntry, actor: AuthUser | null, ip?: string | null): Promise<void> {
+        const changes = diffRecords(entry.before, entry.after);
+        if (entry.action === "update" && Object.keys(changes).length === 0) {
+            return;
+        }
+
+        await this.db
+            .prepare(
+                "INSERT INTO audit_logs (user_id, username, ip, action, entity_type, entity_id, changes, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+            )
+            .bind(
+                actor?.id ?? null,
+                actor?.username || "guest",
+                ip || null,
+                entry.action,
+                entry.entity_type,
+                entry.entity_id === undefined || entry.entity_id === null
+                    ? null
+                    : String(entry.entity_id),
+                JSON.stringify(changes),
+                Math.floor(Date.now() / 1000)
+            )
+            .run();
+    }
+
+    // 按条件分页查询审计日志，最新的在前
+    async getAuditLogs(query: AuditLogQuery = {}): Promise<AuditLogPage> {
+        const conditions: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (query.username) {
+            conditions.push("username = ?");
+            params.push(query.username);
+        }
+        if (query.action) {
+            conditions.push("action = ?");
+            params.push(query.action);
+        }
+        if (query.entity_type) {
+            conditions.push("entity_type = ?");
+            params.push(query.entity_type);
+        }
+        if (query.entity_id) {
+            conditions.push("entity_id = ?");
+            params.push(query.entity_id);
+        }
+        if (query.since !== undefined) {
+            conditions.push("created_at >= ?");
+            params.push(query.since);
+        }
+        if (query.until !== undefined) {
+            conditions.push("created_at <= ?");
+            params.push(query.until);
+        }
+
+        const where = conditions.length > 0 ? ` WHERE ${conditions.join(" AND ")}` : "";
+        const limit = Math.min(
+            Math.max(query.limit || AUDIT_LOG_DEFAULT_LIMIT, 1),
+            AUDIT_LOG_MAX_LIMIT
+        );
+        const offset = Math.max(query.offset || 0, 0);
+
+        const count = await this.db
+            .prepare(`SELECT COUNT(*) AS total FROM audit_logs${where}`)
+            .bind(...params)
+            .first<{ total: number }>();
+        const result = await this.db
+            .prepare(
+                `SELECT ${AUDIT_LOG_COLUMNS} FROM audit_logs${where} ORDER BY id DESC LIMIT ? OFFSET ?`
+            )
+            .bind(...params, limit, offset)
+            .all<AuditLogRow>();
+
+        return {
+            items: (result.results || []).map(row => ({
+                ...row,
+                changes: JSON.parse(row.changes) as Record<string, AuditChange>,
+            })),
+            total: count?.total || 0,
+        };
+    }
+
+    // 用户管理相关 API
+    async getUsers(): Promise<User[]> {
+        const result = await this.db
+            .prepare(`SELECT ${USER_COLUMNS} FROM users ORDER BY id`)
+            .all<UserRow>();
+        return (result.results || []).map(toUser);
+    }
+
+    async getUser(id: number): Promise<User | null> {
+        const result = await this.db
+            .prepare(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`)
+            .bind(id)
+            .first<UserRow>();
+        return result ? toUser(result) : null;
+    }
+
+    async createUser(user: CreateUserRequest): Promise<User> {
+        const existing = await this.db
+            .prepare("SELECT id FROM users WHERE username = ?")
+            .bind(user.username)
+            .first<{ id: number }>();
+        if (existing) {
+            throw new Error("用户名已存在");
+        }
+
+        const result = await this.db
+            .prepare(
+                `INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?) RETURNING ${USER_COLUMNS}`
+            )
+            .bind(user.username, await hashPassword(user.password), user.role || "editor")
+            .all<UserRow>();
+        if (!result.results || result.results.length === 0) {
+            throw new Error("创建用户失败");
+        }
+        return toUser(result.results[0]);
+    }
+
+    async updateUser(id: number, user: UpdateUserRequest): Promise<User | null> {
+        const current = await this.getUser(id);
+        if (!current) {
+            return null;
+        }
+
+        // 不允许禁用或降级最后一个可用的管理员，避免无人能够管理系统
+        const losesAdmin =
+            current.role === "admin" &&
+            current.is_active &&
+            ((user.role !== undefined && user.role !== "admin") || user.is_active === false);
+        if (losesAdmin && (await this.countActiveAdmins()) <= 1) {
+            throw new Error("至少需要保留一个启用的管理员");
+        }
+
+        // 使用参数化查询，避免SQL注入
+        const updates: string[] = ["updated_at = CURRENT_TIMESTAMP"];
+        const params: (string | number)[] = [];
+
+        if (user.role !== undefined) {
+            updates.push("role = ?");
+            params.push(user.role);
+        }
+
+        if (user.is_active !== undefined) {
+            updates.push("is_active = ?");
+            params.push(user.is_active ? 1 : 0);
+        }
+
+        if (user.password !== undefined) {
+            updates.push("password_hash = ?");
+            params.push(await hashPassword(user.password));
+        }
+
+        const query = `UPDATE users SET ${updates.join(", ")} WHERE id = ? RETURNING ${USER_COLUMNS}`;
+        params.push(id);
+
+        const result = await this.db
+            .prepare(query)
+            .bind(...params)
+            .all<UserRow>();
+
+        if (!result.results || result.results.length === 0) {
+            return null;
+        }
+
+        // 重置密码或禁用用户后，撤销该用户所有已登录的会话和刷新令牌
+        if (user.password !== undefined || user.is_active === false) {
+            await this.db
+                .prepare("UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL")
+                .bind(Math.floor(Date.now() / 1000), id)
+                .run();
+        }
+        return toUser(result.results[0]);
+    }
+
+    // 启用的管理员数量
+    private async countActiveAdmins(): Promise<number> {
+        const admins = await this.db
+            .prepare("SELECT COUNT(*) AS count FROM users WHERE role = 'admin' AND is_active = 1")
+            .first<number>("count");
+        return admins || 0;
+    }
+
+    // 面板相关 API，按order_num排序，第一个面板同时作为首页
+    async getDashboards(): Promise<Dashboard[]> {
+        const result = await this.db
+            .prepare(`SELECT ${DASHBOARD_COLUMNS} FROM dashboards ORDER BY order_num, id`)
+            .all<Dashboard>();
+        return result.results || [];
+    }
+
+    async getDashboard(id: number): Promise<Dashboard | null> {
+        return await this.db
+            .prepare(`SELECT ${DASHBOARD_COLUMNS} FROM dashboards WHERE id = ?`)
+            .bind(id)
+            .first<Dashboard>();
+    }
+
+    async getDashboardBySlug(slug: string): Promise<Dashboard | null> {
+        return await this.db
+            .prepare(`SELECT ${DASHBOARD_COLUMNS} FROM dashboards WHERE slug = ?`)
+            .bind(slug)
+            .first<Dashboard>();
+    }
+
+    async createDashboard(dashboard: Dashboard): Promise<Dashboard> {
+        if (await this.getDashboardBySlug(dashboard.slug)) {
+            throw new Error("面板路径已存在");
+        }
+
+        const result = await this.db
+            .prepare(
+                `INSERT INTO dashboards (slug, name, title, custom_css, order_num) VALUES (?, ?, ?, ?, ?) RETURNING ${DASHBOARD_COLUMNS}`
+            )
+            .bind(
+                dashboard.slug,
+                dashboard.name,
+                dashboard.title || "",
+                dashboard.custom_css || "",
+                dashboard.order_num
+            )
+            .all<Dashboard>();
+        if (!result.results || result.results.length === 0) {
+            throw new Error("创建面板失败");
+        }
+        return result.results[0];
+    }
+
+    async updateDashboard(id: number, dashboard: Partial<Dashboard>): Promise<Dashboard | null> {
+        if (dashboard.slug !== undefined) {
+            const existing = await this.getDashboardBySlug(dashboard.slug);
+            if (existing && existing.id !== id) {
+                throw new Error("面板路径已存在");
+            }
+        }
+
+        // 使用参数化查询，避免SQL注入
+        const updates: string[] = ["updated_at = CURRENT_TIMESTAMP"];
+        const params: (string | number)[] = [];
+
+        if (dashboard.slug !== undefined) {
+            updates.push("slug = ?");
+            params.push(dashboard.slug);
+        }
+
+        if (dashboard.name !== undefined) {
+            updates.push("name = ?");
+            params.push(dashboard.name);
+        }
+
+        if (dashboard.title !== undefined) {
+            updates.push("title = ?");
+            params.push(dashboard.title);
+        }
+
+        if (dashboard.custom_css !== undefined) {
+            updates.push("custom_css = ?");
+            params.push(dashboard.custom_css);
+        }
+
+        if (dashboard.order_num !== undefined) {
+            updates.push("order_num = ?");
+            params.push(dashboard.order_num);
+        }
+
+        const query = `UPDATE dashboards SET ${updates.join(", ")} WHERE id = ? RETURNING ${DASHBOARD_COLUMNS}`;
+        params.push(id);
+
+        const result = await this.db
+            .prepare(query)
+            .bind(...params)
+            .all<Dashboard>();
+
+        if (!result.results || result.results.length === 0) {
+            return null;
         }
+        return result.results[0];
     }
 
-    // 生成JWT令牌
-    private async generateToken(payload: Record<string, unknown>): Promise<string> {
-        // 准备payload
-        const tokenPayload = {
-            ...payload,
-            exp: Math.floor(Date.now() / 1000) + 24 * 60 * 60, // 24小时过期
-            iat: Math.floor(Date.now() / 1000),
-        };
-
-        // 创建Header和Payload部分
-        const header = { alg: "HS256", typ: "JWT" };
-        const encodedHeader = btoa(JSON.stringify(header))
-            .replace(/\+/g, "-")
-            .replace(/\//g, "_")
-            .replace(/=+$/, "");
-        const encodedPayload = btoa(JSON.stringify(tokenPayload))
-            .replace(/\+/g, "-")
-            .replace(/\//g, "_")
-            .replace(/=+$/, "");
-
-        // 创建签名（简化版，仅用于开发/测试）
-        // 在生产环境中，应该使用crypto.subtle.sign生成签名
-        const signature = btoa(this.secret + encodedHeader + encodedPayload)
-            .replace(/\+/g, "-")
-            .replace(/\//g, "_")
-            .replace(/=+$/, "");
+    // 删除面板，面板中还有分组时无法删除；回收站中属于该面板的分组移动到第一个面板
+    async deleteDashboard(id: number): Promise<boolean> {
+        const dashboards = await this.getDashboards();
+        if (!dashboards.some(dashboard => dashboard.id === id)) {
+            return false;
+        }
+        if (dashboards.length <= 1) {
+            throw new Error("至少需要保留一个面板");
+        }
 
-        // 组合JWT
-        return `${encodedHeader}.${encodedPayload}.${signature}`;
-    }
+        const groupCount = await this.db
+            .prepare(
+                "SELECT COUNT(*) AS count FROM groups WHERE dashboard_id = ? AND deleted_at IS NULL"
+            )
+            .bind(id)
+            .first<number>("count");
+        if (groupCount) {
+            throw new Error("面板中还有分组，请先删除或移动到其他面板");
+        }
 
-    // 检查认证是否启用
-    isAuthEnabled(): boolean {
-        return this.authEnabled;
+        const fallback = dashboards.find(dashboard => dashboard.id !== id) as Dashboard;
+        const results = await this.db.batch([
+            this.db
+                .prepare("UPDATE groups SET dashboard_id = ? WHERE dashboard_id = ?")
+                .bind(fallback.id, id),
+            this.db.prepare("DELETE FROM dashboards WHERE id = ?").bind(id),
+        ]);
+        return results.every(result => result.success);
     }
 
     // 分组相关 API
-    async getGroups(): Promise<Group[]> {
+    // 传入viewer时按其登录状态和角色过滤分组可见性，上级分组不可见时子分组也不可见
+    // 传入dashboardId时只返回该面板中的分组
+    async getGroups(viewer?: AuthUser | null, dashboardId?: number): Promise<Group[]> {
         const result = await this.db
             .prepare(
-                "SELECT id, name, order_num, created_at, updated_at FROM groups ORDER BY order_num"
+                `SELECT ${GROUP_COLUMNS} FROM groups WHERE deleted_at IS NULL${
+                    dashboardId !== undefined ? " AND dashboard_id = ?" : ""
+                } ORDER BY order_num`
             )
+            .bind(...(dashboardId !== undefined ? [dashboardId] : []))
             .all<Group>();
-        return result.results || [];
+        const groups = result.results || [];
+
+        const scopes = getVisibleScopes(viewer);
+        if (!scopes) {
+            return groups;
+        }
+
+        const byId = new Map(groups.map(group => [group.id as number, group]));
+        const isVisible = (group: Group, depth = 0): boolean => {
+            if (!scopes.includes(group.visibility || "public")) {
+                return false;
+            }
+            const parent = group.parent_id != null ? byId.get(group.parent_id) : undefined;
+            // depth用于防止异常数据中的循环引用
+            return !parent || (depth < groups.length && isVisible(parent, depth + 1));
+        };
+        return groups.filter(group => isVisible(group));
+    }
+
+    // 获取分组树
+    async getGroupTree(viewer?: AuthUser | null, dashboardId?: number): Promise<GroupNode[]> {
+        return buildGroupTree(await this.getGroups(viewer, dashboardId));
     }
 
-    async getGroup(id: number): Promise<Group | null> {
+    async getGroup(id: number, viewer?: AuthUser | null): Promise<Group | null> {
         const result = await this.db
-            .prepare("SELECT id, name, order_num, created_at, updated_at FROM groups WHERE id = ?")
+            .prepare(`SELECT ${GROUP_COLUMNS} FROM groups WHERE id = ? AND deleted_at IS NULL`)
             .bind(id)
             .first<Group>();
+
+        if (result && getVisibleScopes(viewer)) {
+            // 需要同时检查上级分组的可见性
+            const visible = await this.getGroups(viewer);
+            return visible.some(group => group.id === id) ? result : null;
+        }
         return result;
     }
 
+    // 检查能否将分组移动到指定上级分组下，返回错误信息；groupId为空表示新建分组，dashboardId为分组将要所在的面板
+    async checkGroupParent(
+        groupId: number | null,
+        parentId: number | null | undefined,
+        dashboardId?: number
+    ): Promise<string | null> {
+        if (parentId == null) {
+            return null;
+        }
+        const groups = await this.getGroups();
+        return findGroupParentError(groups, [
+            { id: groupId, parent_id: parentId, dashboard_id: dashboardId },
+        ]);
+    }
+
+    // 检查批量修改上级分组后是否仍是一棵合法的树
+    async checkGroupOrders(orders: GroupOrder[]): Promise<string | null> {
+        const changes = orders.filter(item => item.parent_id !== undefined);
+        if (changes.length === 0) {
+            return null;
+        }
+        const groups = await this.getGroups();
+        return findGroupParentError(
+            groups,
+            changes.map(item => ({ id: item.id, parent_id: item.parent_id ?? null }))
+        );
+    }
+
+    // 未指定面板时使用上级分组所在的面板，顶级分组默认放在第一个面板中
     async createGroup(group: Group): Promise<Group> {
         const result = await this.db
             .prepare(
-                "INSERT INTO groups (name, order_num) VALUES (?, ?) RETURNING id, name, order_num, created_at, updated_at"
+                `INSERT INTO groups (name, order_num, visibility, parent_id, dashboard_id)
+                 VALUES (?, ?, ?, ?, COALESCE(?, (SELECT dashboard_id FROM groups WHERE id = ?), (SELECT id FROM dashboards ORDER BY order_num, id LIMIT 1)))
+                 RETURNING ${GROUP_COLUMNS}`
+            )
+            .bind(
+                group.name,
+                group.order_num,
+                group.visibility || "public",
+                group.parent_id ?? null,
+                group.dashboard_id ?? null,
+                group.parent_id ?? null
             )
-            .bind(group.name, group.order_num)
             .all<Group>();
         if (!result.results || result.results.length === 0) {
             throw new Error("创建分组失败");
@@ -266,7 +3399,7 @@ export class NavigationAPI {
     async updateGroup(id: number, group: Partial<Group>): Promise<Group | null> {
         // 使用参数化查询，避免SQL注入
         const updates: string[] = ["updated_at = CURRENT_TIMESTAMP"];
-        const params: (string | number)[] = [];
+        const params: (string | number | null)[] = [];
 
         // 安全地添加字段
         if (group.name !== undefined) {
@@ -279,10 +3412,30 @@ export class NavigationAPI {
             params.push(group.order_num);
         }
 
+        if (group.visibility !== undefined) {
+            updates.push("visibility = ?");
+            params.push(group.visibility);
+        }
+
+        if (group.parent_id !== undefined) {
+            updates.push("parent_id = ?");
+            params.push(group.parent_id);
+        }
+
+        if (group.dashboard_id !== undefined) {
+            // 移动到其他面板且没有指定上级分组时，成为该面板的顶级分组
+            if (group.parent_id === undefined) {
+                updates.push("parent_id = CASE WHEN dashboard_id = ? THEN parent_id ELSE NULL END");
+                params.push(group.dashboard_id);
+            }
+            updates.push("dashboard_id = ?");
+            params.push(group.dashboard_id);
+        }
+
         // 构建安全的参数化查询
         const query = `UPDATE groups SET ${updates.join(
             ", "
-        )} WHERE id = ? RETURNING id, name, order_num, created_at, updated_at`;
+        )} WHERE id = ? AND deleted_at IS NULL RETURNING ${GROUP_COLUMNS}`;
         params.push(id);
 
         const result = await this.db
@@ -293,51 +3446,135 @@ export class NavigationAPI {
         if (!result.results || result.results.length === 0) {
             return null;
         }
+
+        // 子分组随分组一起移动到新的面板
+        if (group.dashboard_id !== undefined) {
+            const childIds = await this.getDescendantGroupIds(id);
+            if (childIds.length > 0) {
+                await this.db.batch(
+                    childIds.map(childId =>
+                        this.db
+                            .prepare("UPDATE groups SET dashboard_id = ? WHERE id = ?")
+                            .bind(group.dashboard_id, childId)
+                    )
+                );
+            }
+        }
         return result.results[0];
     }
 
-    async deleteGroup(id: number): Promise<boolean> {
-        const result = await this.db.prepare("DELETE FROM groups WHERE id = ?").bind(id).run();
-        return result.success;
+    // 将分组移入回收站，其中的站点随分组一起隐藏；子分组按mode移动到上级或一并移入回收站
+    async deleteGroup(id: number, mode: GroupDeleteMode = "promote"): Promise<boolean> {
+        // 同一次删除的分组使用相同的删除时间，恢复时据此一起恢复
+        const deletedAt = toSqlTimestamp(new Date());
+        const trash = (groupId: number) =>
+            this.db
+                .prepare("UPDATE groups SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL")
+                .bind(deletedAt, groupId);
+
+        let results: D1Result[];
+        if (mode === "cascade") {
+            const ids = [id, ...(await this.getDescendantGroupIds(id))];
+            results = await this.db.batch(ids.map(trash));
+        } else {
+            results = await this.db.batch([
+                this.db
+                    .prepare(
+                        "UPDATE groups SET parent_id = (SELECT parent_id FROM groups WHERE id = ?), updated_at = CURRENT_TIMESTAMP WHERE parent_id = ? AND deleted_at IS NULL"
+                    )
+                    .bind(id, id),
+                trash(id),
+            ]);
+        }
+
+        // 顺带清理超过保留期限的回收站内容
+        await this.purgeExpiredTrash();
+        return results.every(result => result.success);
+    }
+
+    // 获取分组的所有下级分组ID
+    async getDescendantGroupIds(id: number): Promise<number[]> {
+        const tree = await this.getGroupTree();
+        const node = flattenGroupTree(tree).find(item => item.group.id === id)?.group;
+        return node ? flattenGroupTree(node.children).map(item => item.group.id as number) : [];
     }
 
     // 网站相关 API
-    async getSites(groupId?: number): Promise<Site[]> {
-        let query =
-            "SELECT id, group_id, name, url, icon, description, notes, order_num, created_at, updated_at FROM sites";
+    // 传入viewer时只返回其可见分组中的站点，传入dashboardId时只返回该面板中的站点
+    async getSites(
+        groupId?: number,
+        viewer?: AuthUser | null,
+        dashboardId?: number
+    ): Promise<Site[]> {
+        const scopes = getVisibleScopes(viewer);
+        let query = `SELECT ${withAlias(SITE_COLUMNS, "s")} FROM sites s`;
+
+        // 排除回收站中的站点，以及所属分组在回收站中的站点
+        const conditions: string[] = [
+            "s.deleted_at IS NULL",
+            "s.group_id IN (SELECT id FROM groups WHERE deleted_at IS NULL)",
+        ];
         const params: (string | number)[] = [];
 
         if (groupId !== undefined) {
-            query += " WHERE group_id = ?";
+            conditions.push("s.group_id = ?");
             params.push(groupId);
         }
 
-        query += " ORDER BY order_num";
+        if (dashboardId !== undefined) {
+            conditions.push("s.group_id IN (SELECT id FROM groups WHERE dashboard_id = ?)");
+            params.push(dashboardId);
+        }
+
+        query += ` WHERE ${conditions.join(" AND ")} ORDER BY s.order_num`;
 
         const result = await this.db
             .prepare(query)
             .bind(...params)
             .all<Site>();
-        return result.results || [];
+        let sites = result.results || [];
+
+        // 只保留可见分组（包括其所有上级分组都可见）中的站点
+        if (scopes) {
+            const visibleGroupIds = new Set(
+                (await this.getGroups(viewer, dashboardId)).map(group => group.id)
+            );
+            sites = sites.filter(site => visibleGroupIds.has(site.group_id));
+        }
+
+        // 附加每个站点的标签
+        const tagMap = await this.getSiteTagMap(groupId);
+        return sites.map(site =>
+            parseSiteRow({ ...site, tags: tagMap.get(site.id as number) || [] })
+        );
     }
 
-    async getSite(id: number): Promise<Site | null> {
+    async getSite(id: number, viewer?: AuthUser | null): Promise<Site | null> {
         const result = await this.db
             .prepare(
-                "SELECT id, group_id, name, url, icon, description, notes, order_num, created_at, updated_at FROM sites WHERE id = ?"
+                `SELECT ${SITE_COLUMNS} FROM sites WHERE id = ? AND deleted_at IS NULL AND group_id IN (SELECT id FROM groups WHERE deleted_at IS NULL)`
             )
             .bind(id)
             .first<Site>();
-        return result;
+
+        if (!result) {
+            return null;
+        }
+
+        // 站点所属分组对当前用户不可见时，视为不存在
+        if (viewer !== undefined && !(await this.getGroup(result.group_id, viewer))) {
+            return null;
+        }
+        return parseSiteRow({ ...result, tags: await this.getSiteTags(id) });
     }
 
     async createSite(site: Site): Promise<Site> {
         const result = await this.db
             .prepare(
                 `
-      INSERT INTO sites (group_id, name, url, icon, description, notes, order_num) 
-      VALUES (?, ?, ?, ?, ?, ?, ?) 
-      RETURNING id, group_id, name, url, icon, description, notes, order_num, created_at, updated_at
+      INSERT INTO sites (group_id, name, url, icon, description, notes, order_num, alt_urls, custom_fields) 
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) 
+      RETURNING ${SITE_COLUMNS}
     `
             )
             .bind(
@@ -347,17 +3584,34 @@ export class NavigationAPI {
                 site.icon || "",
                 site.description || "",
                 site.notes || "",
-                site.order_num
+                site.order_num,
+                JSON.stringify(normalizeAltUrls(site.alt_urls)),
+                JSON.stringify(normalizeCustomFieldValues(site.custom_fields))
             )
             .all<Site>();
 
         if (!result.results || result.results.length === 0) {
             throw new Error("创建站点失败");
         }
-        return result.results[0];
+
+        const created = result.results[0];
+        return parseSiteRow({
+            ...created,
+            tags: await this.setSiteTags(created.id as number, site.tags),
+        });
     }
 
-    async updateSite(id: number, site: Partial<Site>): Promise<Site | null> {
+    // 修改前的内容有变化时保存为历史版本，author为做出修改的用户
+    async updateSite(
+        id: number,
+        site: Partial<Site>,
+        author?: AuthUser | null
+    ): Promise<Site | null> {
+        const previous = await this.getSite(id);
+        if (!previous) {
+            return null;
+        }
+
         // 使用参数化查询，避免SQL注入
         const updates: string[] = ["updated_at = CURRENT_TIMESTAMP"];
         const params: (string | number)[] = [];
@@ -398,10 +3652,20 @@ export class NavigationAPI {
             params.push(site.order_num);
         }
 
+        if (site.alt_urls !== undefined) {
+            updates.push("alt_urls = ?");
+            params.push(JSON.stringify(normalizeAltUrls(site.alt_urls)));
+        }
+
+        if (site.custom_fields !== undefined) {
+            updates.push("custom_fields = ?");
+            params.push(JSON.stringify(normalizeCustomFieldValues(site.custom_fields)));
+        }
+
         // 构建安全的参数化查询
         const query = `UPDATE sites SET ${updates.join(
             ", "
-        )} WHERE id = ? RETURNING id, group_id, name, url, icon, description, notes, order_num, created_at, updated_at`;
+        )} WHERE id = ? AND deleted_at IS NULL RETURNING ${SITE_COLUMNS}`;
         params.push(id);
 
         const result = await this.db
@@ -412,14 +3676,455 @@ export class NavigationAPI {
         if (!result.results || result.results.length === 0) {
             return null;
         }
-        return result.results[0];
+
+        // 未传入tags时保留原有标签
+        const tags =
+            site.tags !== undefined
+                ? await this.setSiteTags(id, site.tags)
+                : await this.getSiteTags(id);
+        const updated = parseSiteRow({ ...result.results[0], tags });
+
+        const snapshot = toSiteSnapshot(previous);
+        if (!isSameSnapshot(snapshot, toSiteSnapshot(updated))) {
+            await this.addSiteRevision(id, snapshot, author?.username || "system");
+        }
+        return updated;
+    }
+
+    // 保存历史版本，只保留最近的MAX_SITE_REVISIONS个
+    private async addSiteRevision(
+        siteId: number,
+        snapshot: SiteSnapshot,
+        username: string
+    ): Promise<void> {
+        await this.db.batch([
+            this.db
+                .prepare("INSERT INTO site_revisions (site_id, snapshot, username) VALUES (?, ?, ?)")
+                .bind(siteId, JSON.stringify(snapshot), username),
+            this.db
+                .prepare(
+                    "DELETE FROM site_revisions WHERE site_id = ? AND id NOT IN (SELECT id FROM site_revisions WHERE site_id = ? ORDER BY id DESC LIMIT ?)"
+                )
+                .bind(siteId, siteId, MAX_SITE_REVISIONS),
+        ]);
+    }
+
+    // 获取站点的历史版本，最新的在前
+    async getSiteRevisions(siteId: number): Promise<SiteRevision[]> {
+        const result = await this.db
+            .prepare(
+                "SELECT id, site_id, snapshot, username, created_at FROM site_revisions WHERE site_id = ? ORDER BY id DESC"
+            )
+            .bind(siteId)
+            .all<Omit<SiteRevision, "snapshot"> & { snapshot: string }>();
+        return (result.results || []).map(row => ({ ...row, snapshot: JSON.parse(row.snapshot) }));
+    }
+
+    // 将站点恢复到某个历史版本，恢复前的内容同样会保存为新的历史版本
+    async restoreSiteRevision(
+        siteId: number,
+        revisionId: number,
+        author?: AuthUser | null
+    ): Promise<Site | null> {
+        const revision = await this.db
+            .prepare("SELECT snapshot FROM site_revisions WHERE id = ? AND site_id = ?")
+            .bind(revisionId, siteId)
+            .first<{ snapshot: string }>();
+        if (!revision) {
+            return null;
+        }
+
+        const { group_id, ...snapshot } = JSON.parse(revision.snapshot) as SiteSnapshot;
+        // 原分组已被删除时保留在当前分组
+        const groupExists = !!(await this.getGroup(group_id));
+        return this.updateSite(siteId, groupExists ? { ...snapshot, group_id } : snapshot, author);
+    }
+
+    // 获取站点的标签，按名称排序
+    private async getSiteTags(siteId: number): Promise<string[]> {
+        const result = await this.db
+            .prepare(
+                "SELECT t.name FROM site_tags st JOIN tags t ON t.id = st.tag_id WHERE st.site_id = ? ORDER BY t.name"
+            )
+            .bind(siteId)
+            .all<{ name: string }>();
+        return (result.results || []).map(row => row.name);
+    }
+
+    // 批量获取站点ID到标签列表的映射，传入groupId时只查询该分组的站点
+    private async getSiteTagMap(groupId?: number): Promise<Map<number, string[]>> {
+        let query = "SELECT st.site_id, t.name FROM site_tags st JOIN tags t ON t.id = st.tag_id";
+        const params: number[] = [];
+        if (groupId !== undefined) {
+            query += " WHERE st.site_id IN (SELECT id FROM sites WHERE group_id = ?)";
+            params.push(groupId);
+        }
+        query += " ORDER BY t.name";
+
+        const result = await this.db
+            .prepare(query)
+            .bind(...params)
+            .all<{ site_id: number; name: string }>();
+
+        const tagMap = new Map<number, string[]>();
+        for (const row of result.results || []) {
+            const tags = tagMap.get(row.site_id) || [];
+            tags.push(row.name);
+            tagMap.set(row.site_id, tags);
+        }
+        return tagMap;
+    }
+
+    // 替换站点的全部标签，不存在的标签自动创建，不再被使用的标签一并删除
+    private async setSiteTags(siteId: number, tags: unknown): Promise<string[]> {
+        const names = normalizeTags(tags);
+        const statements = [this.db.prepare("DELETE FROM site_tags WHERE site_id = ?").bind(siteId)];
+        for (const name of names) {
+            statements.push(
+                this.db
+                    .prepare("INSERT INTO tags (name) VALUES (?) ON CONFLICT(name) DO NOTHING")
+                    .bind(name),
+                this.db
+                    .prepare(
+                        "INSERT OR IGNORE INTO site_tags (site_id, tag_id) SELECT ?, id FROM tags WHERE name = ?"
+                    )
+                    .bind(siteId, name)
+            );
+        }
+        statements.push(
+            this.db.prepare("DELETE FROM tags WHERE id NOT IN (SELECT tag_id FROM site_tags)")
+        );
+        await this.db.batch(statements);
+        return this.getSiteTags(siteId);
     }
 
+    // 将站点移入回收站
     async deleteSite(id: number): Promise<boolean> {
-        const result = await this.db.prepare("DELETE FROM sites WHERE id = ?").bind(id).run();
+        const result = await this.db
+            .prepare("UPDATE sites SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL")
+            .bind(toSqlTimestamp(new Date()), id)
+            .run();
+
+        // 顺带清理超过保留期限的回收站内容
+        await this.purgeExpiredTrash();
         return result.success;
     }
 
+    // 回收站相关API
+    getTrashRetentionDays(): number {
+        return this.trashRetentionDays;
+    }
+
+    // 获取回收站内容，按删除时间倒序
+    async getTrash(): Promise<TrashContents> {
+        await this.purgeExpiredTrash();
+
+        const groups = await this.db
+            .prepare(
+                `SELECT ${withAlias(GROUP_COLUMNS, "g")}, g.deleted_at,
+                    (SELECT COUNT(*) FROM sites s WHERE s.group_id = g.id AND s.deleted_at IS NULL) AS site_count
+                 FROM groups g WHERE g.deleted_at IS NOT NULL ORDER BY g.deleted_at DESC, g.id`
+            )
+            .all<TrashedGroup>();
+
+        const sites = await this.db
+            .prepare(
+                `SELECT ${withAlias(SITE_COLUMNS, "s")}, s.deleted_at, g.name AS group_name,
+                    g.deleted_at IS NOT NULL AS group_deleted
+                 FROM sites s JOIN groups g ON g.id = s.group_id
+                 WHERE s.deleted_at IS NOT NULL ORDER BY s.deleted_at DESC, s.id`
+            )
+            .all<Omit<TrashedSite, "group_deleted"> & { group_deleted: number }>();
+
+        return {
+            groups: groups.results || [],
+            sites: (sites.results || []).map(site =>
+                parseSiteRow({
+                    ...site,
+                    group_deleted: !!site.group_deleted,
+                })
+            ),
+            retentionDays: this.trashRetentionDays,
+        };
+    }
+
+    // 获取回收站中的分组
+    async getTrashedGroup(id: number): Promise<TrashedGroup | null> {
+        const trash = await this.getTrash();
+        return trash.groups.find(group => group.id === id) || null;
+    }
+
+    // 获取回收站中的站点
+    async getTrashedSite(id: number): Promise<TrashedSite | null> {
+        const trash = await this.getTrash();
+        return trash.sites.find(site => site.id === id) || null;
+    }
+
+    // 从回收站恢复分组，与其一同删除的子分组也会恢复；上级分组已不可用时恢复为顶级分组
+    async restoreGroup(id: number): Promise<Group | null> {
+        const group = await this.db
+            .prepare("SELECT deleted_at FROM groups WHERE id = ? AND deleted_at IS NOT NULL")
+            .bind(id)
+            .first<{ deleted_at: string }>();
+        if (!group) {
+            return null;
+        }
+
+        const ids = [id, ...(await this.getTrashedDescendantIds(id, group.deleted_at))];
+        await this.db.batch([
+            ...ids.map(groupId =>
+                this.db
+                    .prepare(
+                        "UPDATE groups SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+                    )
+                    .bind(groupId)
+            ),
+            this.db
+                .prepare(
+                    "UPDATE groups SET parent_id = NULL WHERE id = ? AND parent_id IS NOT NULL AND parent_id NOT IN (SELECT id FROM groups WHERE deleted_at IS NULL)"
+                )
+                .bind(id),
+        ]);
+        return this.getGroup(id);
+    }
+
+    // 从回收站恢复站点，所属分组也在回收站中时无法恢复
+    async restoreSite(id: number): Promise<Site | null> {
+        const result = await this.db
+            .prepare(
+                "UPDATE sites SET deleted_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND deleted_at IS NOT NULL AND group_id IN (SELECT id FROM groups WHERE deleted_at IS NULL) RETURNING id"
+            )
+            .bind(id)
+            .first<{ id: number }>();
+        return result ? this.getSite(id) : null;
+    }
+
+    // 彻底删除回收站中的分组，连同其中的站点和一同删除的子分组
+    async purgeGroup(id: number): Promise<boolean> {
+        const group = await this.db
+            .prepare("SELECT deleted_at FROM groups WHERE id = ? AND deleted_at IS NOT NULL")
+            .bind(id)
+            .first<{ deleted_at: string }>();
+        if (!group) {
+            return false;
+        }
+
+        const ids = [id, ...(await this.getTrashedDescendantIds(id, group.deleted_at))];
+        const results = await this.db.batch(
+            ids.map(groupId => this.db.prepare("DELETE FROM groups WHERE id = ?").bind(groupId))
+        );
+        await this.deleteUnusedTags();
+        return results.every(result => result.success);
+    }
+
+    // 彻底删除回收站中的站点
+    async purgeSite(id: number): Promise<boolean> {
+        const result = await this.db
+            .prepare("DELETE FROM sites WHERE id = ? AND deleted_at IS NOT NULL RETURNING id")
+            .bind(id)
+            .first<{ id: number }>();
+        await this.deleteUnusedTags();
+        return !!result;
+    }
+
+    // 清空回收站
+    async emptyTrash(): Promise<boolean> {
+        const results = await this.db.batch([
+            this.db.prepare("DELETE FROM sites WHERE deleted_at IS NOT NULL"),
+            this.db.prepare("DELETE FROM groups WHERE deleted_at IS NOT NULL"),
+        ]);
+        await this.deleteUnusedTags();
+        return results.every(result => result.success);
+    }
+
+    // 彻底删除超过保留期限的回收站内容，保留天数为0时不清理
+    async purgeExpiredTrash(): Promise<void> {
+        if (this.trashRetentionDays <= 0) {
+            return;
+        }
+        const cutoff = toSqlTimestamp(
+            new Date(Date.now() - this.trashRetentionDays * 24 * 60 * 60 * 1000)
+        );
+        await this.db.batch([
+            this.db.prepare("DELETE FROM sites WHERE deleted_at < ?").bind(cutoff),
+            this.db.prepare("DELETE FROM groups WHERE deleted_at < ?").bind(cutoff),
+        ]);
+        await this.deleteUnusedTags();
+    }
+
+    // 获取与分组同时删除的下级分组ID
+    private async getTrashedDescendantIds(id: number, deletedAt: string): Promise<number[]> {
+        const result = await this.db
+            .prepare("SELECT id, parent_id FROM groups WHERE deleted_at = ?")
+            .bind(deletedAt)
+            .all<{ id: number; parent_id: number | null }>();
+        const groups = result.results || [];
+
+        const ids: number[] = [];
+        let parents = [id];
+        while (parents.length > 0) {
+            const children = groups
+                .filter(group => group.parent_id !== null && parents.includes(group.parent_id))
+                .map(group => group.id)
+                .filter(childId => childId !== id && !ids.includes(childId));
+            ids.push(...children);
+            parents = children;
+        }
+        return ids;
+    }
+
+    // 删除不再被任何站点使用的标签
+    private async deleteUnusedTags(): Promise<void> {
+        await this.db.prepare("DELETE FROM tags WHERE id NOT IN (SELECT tag_id FROM site_tags)").run();
+    }
+
+    // 获取管理员定义的站点自定义字段
+    async getCustomFields(): Promise<CustomField[]> {
+        return parseCustomFieldSchema(await this.getConfig(CUSTOM_FIELDS_CONFIG_KEY));
+    }
+
+    // 图标相关API
+    // 保存上传的图标并顺便清理无用的图标，返回可以填写为站点图标的路径
+    async createIcon(bytes: Uint8Array): Promise<UploadedIcon> {
+        const icon = await this.saveIcon(bytes);
+        await this.deleteUnusedIcons();
+        return icon;
+    }
+
+    async getIcon(id: string): Promise<{ content_type: string; data: Uint8Array } | null> {
+        if (!ICON_ID_PATTERN.test(id)) {
+            return null;
+        }
+        const row = await this.db
+            .prepare("SELECT content_type, data FROM icons WHERE id = ?")
+            .bind(id)
+            .first<{ content_type: string; data: string }>();
+        return row ? { content_type: row.content_type, data: base64UrlDecode(row.data) } : null;
+    }
+
+    // 检查格式和大小后保存图标，相同内容的图标只保存一份，重复上传时刷新上传时间
+    private async saveIcon(bytes: Uint8Array): Promise<UploadedIcon> {
+        const contentType = sniffImageType(bytes);
+        if (!contentType) {
+            throw new Error("不支持的图片格式，请使用PNG、JPEG、GIF、WebP、ICO或SVG图片");
+        }
+        if (bytes.length > MAX_ICON_BYTES) {
+            throw new Error(`图标不能超过${MAX_ICON_BYTES / 1024}KB`);
+        }
+
+        const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+        const id = Array.from(digest, byte => byte.toString(16).padStart(2, "0")).join("");
+        await this.db
+            .prepare(
+                `INSERT INTO icons (id, content_type, data, size) VALUES (?, ?, ?, ?)
+                ON CONFLICT(id) DO UPDATE SET created_at = CURRENT_TIMESTAMP`
+            )
+            .bind(id, contentType, base64UrlEncode(bytes), bytes.length)
+            .run();
+
+        return { id, url: ICON_PATH_PREFIX + id, content_type: contentType, size: bytes.length };
+    }
+
+    // 自动获取网站图标并保存，找不到可用的图标时返回null；结果按页面地址缓存，page为已经读取的网页
+    async discoverFavicon(
+        pageUrl: string,
+        page?: { html: string; url: string } | null
+    ): Promise<FaviconResult | null> {
+        const url = new URL(pageUrl);
+        url.hash = "";
+        const key = url.href;
+        const now = Math.floor(Date.now() / 1000);
+
+        const cached = await this.db
+            .prepare("SELECT icon_id, source, fetched_at FROM favicon_cache WHERE url = ?")
+            .bind(key)
+            .first<{ icon_id: string | null; source: string | null; fetched_at: number }>();
+        if (cached) {
+            const ttl = cached.icon_id ? FAVICON_CACHE_TTL_SECONDS : FAVICON_MISS_TTL_SECONDS;
+            if (now - cached.fetched_at < ttl) {
+                if (!cached.icon_id) {
+                    return null;
+                }
+                // 缓存的图标没有被使用时可能已经被清理，此时重新获取
+                const icon = await this.db
+                    .prepare("SELECT id FROM icons WHERE id = ?")
+                    .bind(cached.icon_id)
+                    .first();
+                if (icon) {
+                    return { url: ICON_PATH_PREFIX + cached.icon_id, source: cached.source || "" };
+                }
+            }
+        }
+
+        // 依次尝试候选图标，跳过无法下载、格式不支持或过大的图标
+        let result: FaviconResult | null = null;
+        for (const iconUrl of await findIconUrls(key, page)) {
+            const data = await fetchLimited(iconUrl, MAX_ICON_BYTES);
+            if (!data) {
+                continue;
+            }
+            try {
+                const icon = await this.saveIcon(data.bytes);
+                result = { url: icon.url, source: iconUrl };
+                break;
+            } catch {
+                continue;
+            }
+        }
+
+        await this.db.batch([
+            this.db
+                .prepare("DELETE FROM favicon_cache WHERE fetched_at < ?")
+                .bind(now - FAVICON_CACHE_TTL_SECONDS),
+            this.db
+                .prepare(
+                    `INSERT INTO favicon_cache (url, icon_id, source, fetched_at) VALUES (?, ?, ?, ?)
+                    ON CONFLICT(url) DO UPDATE SET icon_id = excluded.icon_id, source = excluded.source, fetched_at = excluded.fetched_at`
+                )
+                .bind(key, result ? getIconId(result.url) : null, result?.source ?? null, now),
+        ]);
+        return result;
+    }
+
+    // 读取网页的标题、描述、OpenGraph图片和图标，作为新增站点时的建议；无法访问网页时返回null
+    async getSiteMetadata(pageUrl: string): Promise<SiteMetadata | null> {
+        const page = await fetchPage(pageUrl);
+        if (!page) {
+            return null;
+        }
+        const icon = await this.discoverFavicon(pageUrl, page);
+        return { url: page.url, ...parsePageMetadata(page.html, page.url), icon: icon?.url ?? null };
+    }
+
+    // 获取站点使用的上传图标，用于导出
+    private async getSiteIcons(sites: Site[]): Promise<StoredIcon[]> {
+        const ids = [...new Set(sites.map(site => getIconId(site.icon)).filter(id => id !== null))];
+        const icons: StoredIcon[] = [];
+        for (const id of ids) {
+            const icon = await this.db
+                .prepare("SELECT id, content_type, data FROM icons WHERE id = ?")
+                .bind(id)
+                .first<StoredIcon>();
+            if (icon) {
+                icons.push(icon);
+            }
+        }
+        return icons;
+    }
+
+    // 删除超过保留时间且没有被站点（包括回收站中的站点）和历史版本使用的图标
+    private async deleteUnusedIcons(): Promise<void> {
+        const cutoff = toSqlTimestamp(new Date(Date.now() - UNUSED_ICON_GRACE_SECONDS * 1000));
+        await this.db
+            .prepare(
+                `DELETE FROM icons WHERE created_at < ?
+                AND NOT EXISTS (SELECT 1 FROM sites WHERE sites.icon = ? || icons.id)
+                AND NOT EXISTS (SELECT 1 FROM site_revisions WHERE instr(site_revisions.snapshot, icons.id) > 0)`
+            )
+            .bind(cutoff, ICON_PATH_PREFIX)
+            .run();
+    }
+
     // 配置相关API
     async getConfigs(): Promise<Record<string, string>> {
         const result = await this.db.prepare("SELECT key, value FROM configs").all<Config>();
@@ -433,6 +4138,14 @@ export class NavigationAPI {
         return configs;
     }
 
+    // 获取可以公开给访客的配置（仅限site.*）
+    async getPublicConfigs(): Promise<Record<string, string>> {
+        const configs = await this.getConfigs();
+        return Object.fromEntries(
+            Object.entries(configs).filter(([key]) => isPublicConfigKey(key))
+        );
+    }
+
     async getConfig(key: string): Promise<string | null> {
         const result = await this.db
             .prepare("SELECT value FROM configs WHERE key = ?")
@@ -469,16 +4182,22 @@ export class NavigationAPI {
     }
 
     // 批量更新排序
-    async updateGroupOrder(groupOrders: { id: number; order_num: number }[]): Promise<boolean> {
+    async updateGroupOrder(groupOrders: GroupOrder[]): Promise<boolean> {
         // 使用事务确保所有更新一起成功或失败
         return await this.db
             .batch(
                 groupOrders.map(item =>
-                    this.db
-                        .prepare(
-                            "UPDATE groups SET order_num = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
-                        )
-                        .bind(item.order_num, item.id)
+                    item.parent_id !== undefined
+                        ? this.db
+                              .prepare(
+                                  "UPDATE groups SET order_num = ?, parent_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+                              )
+                              .bind(item.order_num, item.parent_id, item.id)
+                        : this.db
+                              .prepare(
+                                  "UPDATE groups SET order_num = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+                              )
+                              .bind(item.order_num, item.id)
                 )
             )
             .then(() => true)
@@ -501,55 +4220,127 @@ export class NavigationAPI {
             .catch(() => false);
     }
 
-    // 导出所有数据
-    async exportData(): Promise<ExportData> {
-        // 获取所有分组
-        const groups = await this.getGroups();
+    // 导出数据，传入dashboardId时只导出该面板；传入viewer时只导出其可见的分组和站点，非管理员只导出公开配置
+    async exportData(viewer?: AuthUser | null, dashboardId?: number): Promise<ExportData> {
+        const dashboards = await this.getDashboards();
 
-        // 获取所有站点
-        const sites = await this.getSites();
+        // 获取分组
+        const groups = await this.getGroups(viewer, dashboardId);
 
-        // 获取所有配置
-        const configs = await this.getConfigs();
+        // 获取站点
+        const sites = await this.getSites(undefined, viewer, dashboardId);
+
+        // 获取配置
+        const configs =
+            viewer === undefined || (viewer && hasRole(viewer.role, "admin"))
+                ? await this.getConfigs()
+                : await this.getPublicConfigs();
+
+        // 获取站点使用的上传图标
+        const icons = await this.getSiteIcons(sites);
 
         return {
+            dashboards:
+                dashboardId !== undefined
+                    ? dashboards.filter(dashboard => dashboard.id === dashboardId)
+                    : dashboards,
             groups,
             sites,
+            icons,
             configs,
             version: "1.0", // 数据版本号，便于后续兼容性处理
             exportDate: new Date().toISOString(),
         };
     }
 
-    // 导入所有数据
-    async importData(data: ExportData): Promise<boolean> {
+    // 导入所有数据，传入dashboardId时只替换该面板中的分组和站点，所有分组都导入到该面板
+    async importData(data: ExportData, dashboardId?: number): Promise<boolean> {
         try {
             // 使用事务确保数据完整性
             // 清空现有数据
-            await this.db.exec("DELETE FROM sites");
-            await this.db.exec("DELETE FROM groups");
+            const dashboardMap = new Map<number, number>();
+            if (dashboardId !== undefined) {
+                await this.db.batch([
+                    this.db
+                        .prepare(
+                            "DELETE FROM site_tags WHERE site_id IN (SELECT id FROM sites WHERE group_id IN (SELECT id FROM groups WHERE dashboard_id = ?))"
+                        )
+                        .bind(dashboardId),
+                    this.db
+                        .prepare(
+                            "DELETE FROM sites WHERE group_id IN (SELECT id FROM groups WHERE dashboard_id = ?)"
+                        )
+                        .bind(dashboardId),
+                    this.db.prepare("DELETE FROM groups WHERE dashboard_id = ?").bind(dashboardId),
+                ]);
+                await this.deleteUnusedTags();
+            } else {
+                await this.db.exec("DELETE FROM site_tags");
+                await this.db.exec("DELETE FROM tags");
+                await this.db.exec("DELETE FROM sites");
+                await this.db.exec("DELETE FROM groups");
 
-            // 导入分组数据
+                // 导入数据中包含面板时替换所有面板，否则保留现有面板，分组导入到第一个面板
+                if (Array.isArray(data.dashboards) && data.dashboards.length > 0) {
+                    await this.db.exec("DELETE FROM dashboards");
+                    for (const [index, dashboard] of data.dashboards.entries()) {
+                        const slug = String(dashboard.slug || "").toLowerCase();
+                        const created = await this.createDashboard({
+                            slug: DASHBOARD_SLUG_PATTERN.test(slug) ? slug : `dashboard-${index + 1}`,
+                            name: dashboard.name || slug || "导航站",
+                            title: dashboard.title || "",
+                            custom_css: dashboard.custom_css || "",
+                            order_num: dashboard.order_num ?? index,
+                        });
+                        if (dashboard.id) {
+                            dashboardMap.set(dashboard.id, created.id as number);
+                        }
+                    }
+                }
+            }
+
+            // 导入分组数据，并记录旧ID到新ID的映射
+            const groupMap = new Map<number, number>();
             for (const group of data.groups) {
-                await this.createGroup({
+                const created = await this.createGroup({
                     name: group.name,
                     order_num: group.order_num,
+                    visibility: GROUP_VISIBILITIES.includes(group.visibility as GroupVisibility)
+                        ? group.visibility
+                        : "public",
+                    dashboard_id:
+                        dashboardId ??
+                        (group.dashboard_id != null ? dashboardMap.get(group.dashboard_id) : undefined),
                 });
+                if (group.id) {
+                    groupMap.set(group.id, created.id as number);
+                }
             }
 
-            // 获取新创建的分组，用于映射ID
-            const newGroups = await this.getGroups();
-            const groupMap = new Map<number, number>();
+            // 所有分组创建后再恢复上下级关系
+            for (const group of data.groups) {
+                const newId = group.id ? groupMap.get(group.id) : undefined;
+                const newParentId = group.parent_id != null ? groupMap.get(group.parent_id) : undefined;
+                if (newId && newParentId && newParentId !== newId) {
+                    await this.updateGroup(newId, { parent_id: newParentId });
+                }
+            }
 
-            // 创建旧ID到新ID的映射
-            data.groups.forEach((oldGroup, index) => {
-                if (oldGroup.id && index < newGroups.length) {
-                    groupMap.set(oldGroup.id, newGroups[index].id as number);
+            // 先导入图标，图标ID由内容决定，站点中的图标路径导入后仍然有效；跳过无法识别的图标
+            for (const icon of Array.isArray(data.icons) ? data.icons : []) {
+                const bytes = typeof icon?.data === "string" ? decodeIconData(icon.data) : null;
+                if (bytes) {
+                    await this.saveIcon(bytes).catch(error =>
+                        console.error("导入图标失败:", error)
+                    );
                 }
-            });
+            }
 
-            // 导入站点数据，更新分组ID
+            // 导入站点数据，更新分组ID；只导入一个面板时跳过不属于导入分组的站点
             for (const site of data.sites) {
+                if (dashboardId !== undefined && !groupMap.has(site.group_id)) {
+                    continue;
+                }
                 const newGroupId = groupMap.get(site.group_id) || site.group_id;
                 await this.createSite({
                     ...site,
@@ -557,8 +4348,8 @@ export class NavigationAPI {
                 });
             }
 
-            // 导入配置数据
-            for (const [key, value] of Object.entries(data.configs)) {
+            // 导入配置数据，只导入一个面板时不修改全局配置
+            for (const [key, value] of Object.entries(dashboardId === undefined ? data.configs : {})) {
                 if (key !== "DB_INITIALIZED") {
                     // 跳过数据库初始化标志
                     await this.setConfig(key, value);
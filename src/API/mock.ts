@@ -1,11 +1,67 @@
-import { Group, Site, LoginResponse, ExportData } from "./http";
+import {
+    Group,
+    Site,
+    LoginResponse,
+    ExportData,
+    User,
+    CreateUserRequest,
+    UpdateUserRequest,
+    AuthStatus,
+    Session,
+    ApiToken,
+    CreateApiTokenRequest,
+    CreatedApiToken,
+    TwoFactorStatus,
+    TwoFactorSetup,
+    AuditLog,
+    AuditLogQuery,
+    AuditLogPage,
+    SetupRequest,
+    SetupResponse,
+    GroupNode,
+    GroupDeleteMode,
+    GroupOrder,
+    buildGroupTree,
+    TrashContents,
+    TrashedSite,
+    SiteRevision,
+    Dashboard,
+    StoredIcon,
+    UploadedIcon,
+    FaviconResult,
+    SiteMetadata,
+} from "./http";
 
 // 模拟数据
+const mockDashboards: Dashboard[] = [
+    {
+        id: 1,
+        slug: "default",
+        name: "个人导航",
+        title: "我的导航站",
+        custom_css: "",
+        order_num: 0,
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+    },
+    {
+        id: 2,
+        slug: "ops",
+        name: "运维",
+        title: "运维导航",
+        custom_css: "",
+        order_num: 1,
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+    },
+];
+
 const mockGroups: Group[] = [
     {
         id: 1,
         name: "常用工具",
         order_num: 1,
+        dashboard_id: 1,
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
     },
@@ -13,6 +69,7 @@ const mockGroups: Group[] = [
         id: 2,
         name: "开发资源",
         order_num: 2,
+        dashboard_id: 1,
         created_at: "2024-01-01T20:00:00Z",
         updated_at: "2024-01-01T30:00:00Z",
     },
@@ -20,6 +77,9 @@ const mockGroups: Group[] = [
         id: 3,
         name: "开发资源3",
         order_num: 3,
+        visibility: "private",
+        parent_id: 2,
+        dashboard_id: 1,
         created_at: "2024-01-01T40:00:00Z",
         updated_at: "2024-01-01T50:00:00Z",
     },
@@ -35,6 +95,7 @@ const mockSites: Site[] = [
         description: "搜索引擎",
         notes: "",
         order_num: 1,
+        tags: ["搜索"],
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
     },
@@ -47,6 +108,8 @@ const mockSites: Site[] = [
         description: "代码托管平台",
         notes: "",
         order_num: 2,
+        tags: ["开发", "开源"],
+        alt_urls: { mirror: "https://hub.fastgit.xyz" },
         created_at: "2024-01-01T00:00:00Z",
         updated_at: "2024-01-01T00:00:00Z",
     },
@@ -107,9 +170,62 @@ const mockConfigs: Record<string, string> = {
     "site.customCss": ""
 };
 
+// 模拟用户数据
+const mockUsers: User[] = [
+    {
+        id: 1,
+        username: "admin",
+        role: "admin",
+        is_active: true,
+        two_factor_enabled: false,
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+    },
+];
+
+// 模拟会话数据
+const mockSessions: Session[] = [
+    {
+        id: "mock-session",
+        user_id: 1,
+        username: "admin",
+        ip: "127.0.0.1",
+        user_agent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0",
+        created_at: "2024-01-01T00:00:00Z",
+        last_seen_at: Math.floor(Date.now() / 1000),
+        expires_at: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+        current: true,
+    },
+];
+
+// 模拟API令牌数据
+const mockApiTokens: ApiToken[] = [];
+
+// 回收站：分组连同其中的站点一起保存，以便恢复
+const mockTrashedGroups: { group: Group; sites: Site[]; deleted_at: string }[] = [];
+const mockTrashedSites: (Site & { deleted_at: string })[] = [];
+
+const mockSiteRevisions: SiteRevision[] = [];
+
+// 模拟审计日志数据
+const mockAuditLogs: AuditLog[] = [
+    {
+        id: 1,
+        user_id: 1,
+        username: "admin",
+        ip: "127.0.0.1",
+        action: "update",
+        entity_type: "site",
+        entity_id: "1",
+        changes: { name: { before: "Google搜索", after: "Google" } },
+        created_at: Math.floor(Date.now() / 1000) - 60 * 60,
+    },
+];
+
 // 模拟API实现
 export class MockNavigationClient {
     private token: string | null = null;
+    private mockTwoFactorEnabled = false;
 
     constructor() {
         // 从本地存储加载令牌
@@ -140,9 +256,9 @@ export class MockNavigationClient {
     }
 
     // 登录API
-    async login(username: string, password: string): Promise<LoginResponse> {
+    async login(username: string, password: string, remember = false): Promise<LoginResponse> {
         await new Promise(resolve => setTimeout(resolve, 500));
-        console.log(username, password);
+        console.log(username, password, remember);
         // 模拟登录验证逻辑 - 在Mock环境中任何账号密码都能登录
         const token = btoa(`${username}:${new Date().getTime()}`);
         this.setToken(token);
@@ -150,35 +266,117 @@ export class MockNavigationClient {
         return {
             success: true,
             token: token,
+            user: { id: 1, username: "admin", role: "admin" },
             message: "登录成功(模拟环境)"
         };
     }
 
+    // 模拟环境不会要求两步验证，任何验证码都能通过
+    async loginWithTwoFactor(twoFactorToken: string, code: string): Promise<LoginResponse> {
+        console.log(twoFactorToken, code);
+        return this.login("admin", "");
+    }
+
     // 登出
-    logout(): void {
+    async logout(): Promise<void> {
         this.clearToken();
     }
 
-    // 检查身份验证状态
-    async checkAuthStatus(): Promise<boolean> {
+    // 获取认证状态和当前用户角色
+    getSsoLoginUrl(remember = false): string {
+        return `/api/auth/oidc/start${remember ? "?remember=1" : ""}`;
+    }
+
+    consumeSsoRedirect(): string | null {
+        return null;
+    }
+
+    async getAuthStatus(): Promise<AuthStatus> {
         await new Promise(resolve => setTimeout(resolve, 300));
-        
-        // 模拟真实环境中的行为：如果有token则认为已认证
-        if (this.token) {
-            return true;
+
+        // 模拟真实环境中的行为：如果有token则认为已以管理员身份登录
+        return {
+            authEnabled: true,
+            authenticated: !!this.token,
+            publicRead: false,
+            rememberMeDays: 30,
+            cookieSessions: false,
+            ssoEnabled: false,
+            setupRequired: false,
+            user: this.token ? { id: 1, username: "admin", role: "admin" } : null,
+        };
+    }
+
+    async setup(request: SetupRequest): Promise<SetupResponse> {
+        await new Promise(resolve => setTimeout(resolve, 300));
+        request.starterGroups?.forEach((name, index) => {
+            mockGroups.push({ id: mockGroups.length + 1, name, order_num: index + 1 });
+        });
+        return { success: true };
+    }
+
+    // 面板相关API
+    async getDashboards(): Promise<Dashboard[]> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return [...mockDashboards].sort((a, b) => a.order_num - b.order_num);
+    }
+
+    async createDashboard(dashboard: Dashboard): Promise<Dashboard> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        if (mockDashboards.some(item => item.slug === dashboard.slug)) {
+            throw new Error("面板路径已存在");
         }
-        
-        // 开发环境中，也可以设置为总是返回true，便于开发
-        // return true;
-        
-        // 没有token则需要登录
-        return false;
+        const newDashboard = {
+            ...dashboard,
+            id: Math.max(0, ...mockDashboards.map(item => item.id || 0)) + 1,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        };
+        mockDashboards.push(newDashboard);
+        return newDashboard;
+    }
+
+    async updateDashboard(id: number, dashboard: Partial<Dashboard>): Promise<Dashboard | null> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockDashboards.findIndex(item => item.id === id);
+        if (index === -1) return null;
+        if (mockDashboards.some(item => item.id !== id && item.slug === dashboard.slug)) {
+            throw new Error("面板路径已存在");
+        }
+
+        mockDashboards[index] = {
+            ...mockDashboards[index],
+            ...dashboard,
+            updated_at: new Date().toISOString(),
+        };
+        return mockDashboards[index];
     }
 
-    async getGroups(): Promise<Group[]> {
+    async deleteDashboard(id: number): Promise<boolean> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockDashboards.findIndex(item => item.id === id);
+        if (index === -1) return false;
+        if (mockDashboards.length <= 1) {
+            throw new Error("至少需要保留一个面板");
+        }
+        if (mockGroups.some(group => group.dashboard_id === id)) {
+            throw new Error("面板中还有分组，请先删除或移动到其他面板");
+        }
+        mockDashboards.splice(index, 1);
+        return true;
+    }
+
+    async getGroups(dashboard?: string): Promise<Group[]> {
         // 模拟网络延迟
         await new Promise(resolve => setTimeout(resolve, 200));
-        return [...mockGroups];
+        const dashboardId = mockDashboards.find(item => item.slug === dashboard)?.id;
+        return dashboard
+            ? mockGroups.filter(group => group.dashboard_id === dashboardId)
+            : [...mockGroups];
+    }
+
+    async getGroupTree(): Promise<GroupNode[]> {
+        return buildGroupTree(await this.getGroups());
     }
 
     async getGroup(id: number): Promise<Group | null> {
@@ -188,8 +386,10 @@ export class MockNavigationClient {
 
     async createGroup(group: Group): Promise<Group> {
         await new Promise(resolve => setTimeout(resolve, 200));
+        const parent = mockGroups.find(g => g.id === group.parent_id);
         const newGroup = {
             ...group,
+            dashboard_id: group.dashboard_id ?? parent?.dashboard_id ?? mockDashboards[0]?.id,
             id: Math.max(0, ...mockGroups.map(g => g.id || 0)) + 1,
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
@@ -211,12 +411,41 @@ export class MockNavigationClient {
         return mockGroups[index];
     }
 
-    async deleteGroup(id: number): Promise<boolean> {
+    async deleteGroup(id: number, children: GroupDeleteMode = "promote"): Promise<boolean> {
         await new Promise(resolve => setTimeout(resolve, 200));
-        const index = mockGroups.findIndex(g => g.id === id);
-        if (index === -1) return false;
+        const group = mockGroups.find(g => g.id === id);
+        if (!group) return false;
+
+        // 收集要删除的分组，cascade时包括所有下级分组
+        const removed = new Set([id]);
+        if (children === "cascade") {
+            let size = 0;
+            while (size !== removed.size) {
+                size = removed.size;
+                mockGroups.forEach(g => {
+                    if (g.parent_id != null && removed.has(g.parent_id)) removed.add(g.id!);
+                });
+            }
+        } else {
+            mockGroups.forEach(g => {
+                if (g.parent_id === id) g.parent_id = group.parent_id ?? null;
+            });
+        }
 
-        mockGroups.splice(index, 1);
+        const deletedAt = new Date().toISOString();
+        for (let i = mockGroups.length - 1; i >= 0; i--) {
+            const removedGroup = mockGroups[i];
+            if (!removed.has(removedGroup.id!)) continue;
+            mockGroups.splice(i, 1);
+            mockTrashedGroups.push({
+                group: removedGroup,
+                sites: mockSites.filter(s => s.group_id === removedGroup.id),
+                deleted_at: deletedAt,
+            });
+        }
+        for (let i = mockSites.length - 1; i >= 0; i--) {
+            if (removed.has(mockSites[i].group_id)) mockSites.splice(i, 1);
+        }
         return true;
     }
 
@@ -251,6 +480,23 @@ export class MockNavigationClient {
         const index = mockSites.findIndex(s => s.id === id);
         if (index === -1) return null;
 
+        const previous = mockSites[index];
+        mockSiteRevisions.unshift({
+            id: mockSiteRevisions.length + 1,
+            site_id: id,
+            snapshot: {
+                group_id: previous.group_id,
+                name: previous.name,
+                url: previous.url,
+                icon: previous.icon,
+                description: previous.description,
+                notes: previous.notes,
+                tags: previous.tags || [],
+            },
+            username: "admin",
+            created_at: new Date().toISOString(),
+        });
+
         mockSites[index] = {
             ...mockSites[index],
             ...site,
@@ -259,21 +505,152 @@ export class MockNavigationClient {
         return mockSites[index];
     }
 
+    async getSiteRevisions(siteId: number): Promise<SiteRevision[]> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return mockSiteRevisions.filter(revision => revision.site_id === siteId);
+    }
+
+    async restoreSiteRevision(siteId: number, revisionId: number): Promise<Site | null> {
+        const revision = mockSiteRevisions.find(
+            item => item.id === revisionId && item.site_id === siteId
+        );
+        return revision ? this.updateSite(siteId, revision.snapshot) : null;
+    }
+
     async deleteSite(id: number): Promise<boolean> {
         await new Promise(resolve => setTimeout(resolve, 200));
         const index = mockSites.findIndex(s => s.id === id);
         if (index === -1) return false;
 
-        mockSites.splice(index, 1);
+        const [site] = mockSites.splice(index, 1);
+        mockTrashedSites.push({ ...site, deleted_at: new Date().toISOString() });
+        return true;
+    }
+
+    // 模拟环境没有图标存储，直接使用data URL作为图标地址
+    async uploadIcon(data: Blob | string): Promise<UploadedIcon> {
+        const url =
+            typeof data === "string"
+                ? data
+                : await new Promise<string>((resolve, reject) => {
+                      const reader = new FileReader();
+                      reader.onload = () => resolve(reader.result as string);
+                      reader.onerror = () => reject(new Error("读取文件失败"));
+                      reader.readAsDataURL(data);
+                  });
+        return {
+            id: String(Date.now()),
+            url,
+            content_type: typeof data === "string" ? "" : data.type,
+            size: typeof data === "string" ? data.length : data.size,
+        };
+    }
+
+    // 模拟环境直接使用网站的/favicon.ico
+    async discoverFavicon(url: string): Promise<FaviconResult> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const icon = new URL("/favicon.ico", url).href;
+        return { url: icon, source: icon };
+    }
+
+    // 模拟环境使用域名作为标题
+    async getSiteMetadata(url: string): Promise<SiteMetadata> {
+        const favicon = await this.discoverFavicon(url);
+        return {
+            url,
+            title: new URL(url).hostname,
+            description: "",
+            image: null,
+            icon: favicon.url,
+        };
+    }
+
+    async getIcons(): Promise<StoredIcon[]> {
+        return [];
+    }
+
+    async getTrash(): Promise<TrashContents> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const groupName = (groupId: number) =>
+            mockGroups.find(g => g.id === groupId)?.name ||
+            mockTrashedGroups.find(item => item.group.id === groupId)?.group.name ||
+            "";
+        return {
+            groups: mockTrashedGroups.map(item => ({
+                ...item.group,
+                deleted_at: item.deleted_at,
+                site_count: item.sites.length,
+            })),
+            sites: mockTrashedSites.map(
+                (site): TrashedSite => ({
+                    ...site,
+                    group_name: groupName(site.group_id),
+                    group_deleted: !mockGroups.some(g => g.id === site.group_id),
+                })
+            ),
+            retentionDays: 30,
+        };
+    }
+
+    async restoreGroup(id: number): Promise<Group | null> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockTrashedGroups.findIndex(item => item.group.id === id);
+        if (index === -1) return null;
+
+        const [{ group, sites }] = mockTrashedGroups.splice(index, 1);
+        const parentExists = mockGroups.some(g => g.id === group.parent_id);
+        const restored = { ...group, parent_id: parentExists ? group.parent_id : null };
+        mockGroups.push(restored);
+        mockSites.push(...sites);
+        return restored;
+    }
+
+    async restoreSite(id: number): Promise<Site | null> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockTrashedSites.findIndex(s => s.id === id);
+        if (index === -1 || !mockGroups.some(g => g.id === mockTrashedSites[index].group_id)) {
+            return null;
+        }
+
+        const [trashed] = mockTrashedSites.splice(index, 1);
+        const site: Site = { ...trashed };
+        delete (site as Partial<typeof trashed>).deleted_at;
+        mockSites.push(site);
+        return site;
+    }
+
+    async purgeGroup(id: number): Promise<boolean> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockTrashedGroups.findIndex(item => item.group.id === id);
+        if (index === -1) return false;
+        mockTrashedGroups.splice(index, 1);
+        return true;
+    }
+
+    async purgeSite(id: number): Promise<boolean> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockTrashedSites.findIndex(s => s.id === id);
+        if (index === -1) return false;
+        mockTrashedSites.splice(index, 1);
+        return true;
+    }
+
+    async emptyTrash(): Promise<boolean> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        mockTrashedGroups.splice(0);
+        mockTrashedSites.splice(0);
         return true;
     }
 
-    async updateGroupOrder(groupOrders: { id: number; order_num: number }[]): Promise<boolean> {
+    async updateGroupOrder(groupOrders: GroupOrder[]): Promise<boolean> {
         await new Promise(resolve => setTimeout(resolve, 200));
         for (const order of groupOrders) {
             const index = mockGroups.findIndex(g => g.id === order.id);
             if (index !== -1) {
                 mockGroups[index].order_num = order.order_num;
+                if (order.parent_id !== undefined) {
+                    mockGroups[index].parent_id = order.parent_id;
+                }
             }
         }
         return true;
@@ -316,10 +693,137 @@ export class MockNavigationClient {
         return false;
     }
 
+    // 用户管理API
+    async getUsers(): Promise<User[]> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return [...mockUsers];
+    }
+
+    async createUser(user: CreateUserRequest): Promise<User> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const newUser: User = {
+            id: Math.max(0, ...mockUsers.map(u => u.id)) + 1,
+            username: user.username,
+            role: user.role || "editor",
+            is_active: true,
+            two_factor_enabled: false,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        };
+        mockUsers.push(newUser);
+        return newUser;
+    }
+
+    async updateUser(id: number, user: UpdateUserRequest): Promise<User | null> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockUsers.findIndex(u => u.id === id);
+        if (index === -1) return null;
+
+        mockUsers[index] = {
+            ...mockUsers[index],
+            ...(user.role !== undefined && { role: user.role }),
+            ...(user.is_active !== undefined && { is_active: user.is_active }),
+            updated_at: new Date().toISOString(),
+        };
+        return mockUsers[index];
+    }
+
+    // 会话管理
+    async getSessions(): Promise<Session[]> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return [...mockSessions];
+    }
+
+    async revokeSession(id: string): Promise<boolean> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockSessions.findIndex(s => s.id === id);
+        if (index === -1) return false;
+        mockSessions.splice(index, 1);
+        return true;
+    }
+
+    // 两步验证
+    async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return {
+            enabled: this.mockTwoFactorEnabled,
+            recoveryCodesRemaining: this.mockTwoFactorEnabled ? 10 : 0,
+        };
+    }
+
+    async setupTwoFactor(): Promise<TwoFactorSetup> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const secret = "JBSWY3DPEHPK3PXP";
+        return {
+            secret,
+            otpauthUri: `otpauth://totp/NaviHive%3Aadmin?secret=${secret}&issuer=NaviHive`,
+        };
+    }
+
+    async enableTwoFactor(code: string): Promise<string[]> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        console.log(code);
+        this.mockTwoFactorEnabled = true;
+        return Array.from({ length: 10 }, (_, i) => `mock${i}-code${i}`);
+    }
+
+    async disableTwoFactor(code: string): Promise<boolean> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        console.log(code);
+        this.mockTwoFactorEnabled = false;
+        return true;
+    }
+
+    // 个人API令牌
+    async getApiTokens(): Promise<ApiToken[]> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        return [...mockApiTokens];
+    }
+
+    async createApiToken(token: CreateApiTokenRequest): Promise<CreatedApiToken> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const plainToken = `nh_mock${Date.now()}`;
+        const newToken: ApiToken = {
+            id: Math.max(0, ...mockApiTokens.map(t => t.id)) + 1,
+            name: token.name,
+            scopes: token.scopes,
+            token_prefix: plainToken.slice(0, 11),
+            created_at: new Date().toISOString(),
+            last_used_at: null,
+        };
+        mockApiTokens.push(newToken);
+        return { ...newToken, token: plainToken };
+    }
+
+    async deleteApiToken(id: number): Promise<boolean> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const index = mockApiTokens.findIndex(t => t.id === id);
+        if (index === -1) return false;
+        mockApiTokens.splice(index, 1);
+        return true;
+    }
+
+    // 审计日志
+    async getAuditLogs(query: AuditLogQuery = {}): Promise<AuditLogPage> {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const items = mockAuditLogs.filter(
+            log =>
+                (!query.username || log.username === query.username) &&
+                (!query.action || log.action === query.action) &&
+                (!query.entity_type || log.entity_type === query.entity_type) &&
+                (!query.entity_id || log.entity_id === query.entity_id) &&
+                (query.since === undefined || log.created_at >= query.since) &&
+                (query.until === undefined || log.created_at <= query.until)
+        );
+        const offset = query.offset || 0;
+        return { items: items.slice(offset, offset + (query.limit || 50)), total: items.length };
+    }
+
     // 数据导出
     async exportData(): Promise<ExportData> {
         await new Promise(resolve => setTimeout(resolve, 200));
         return {
+            dashboards: [...mockDashboards],
             groups: [...mockGroups],
             sites: [...mockSites],
             configs: {...mockConfigs},
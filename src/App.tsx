@@ -1,11 +1,45 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { NavigationClient } from "./API/client";
 import { MockNavigationClient } from "./API/mock";
-import { Site, Group } from "./API/http";
-import { GroupWithSites } from "./types";
+import {
+    Site,
+    Group,
+    Dashboard,
+    AuthUser,
+    hasRole,
+    CreateApiTokenRequest,
+    LoginResponse,
+    AuditLogQuery,
+    SetupRequest,
+    GroupDeleteMode,
+    buildGroupTree,
+    flattenGroupTree,
+    resolveSiteUrl,
+    AUTO_NETWORK_PROFILE,
+    CustomField,
+    parseCustomFieldSchema,
+    CUSTOM_FIELDS_CONFIG_KEY,
+    StoredIcon,
+    getIconId,
+} from "./API/http";
+import { GroupWithSites, GroupTreeNode } from "./types";
 import ThemeToggle from "./components/ThemeToggle";
 import GroupCard from "./components/GroupCard";
 import LoginForm from "./components/LoginForm";
+import SessionManagerDialog from "./components/SessionManagerDialog";
+import AuditLogDialog from "./components/AuditLogDialog";
+import ApiTokenDialog from "./components/ApiTokenDialog";
+import TwoFactorDialog from "./components/TwoFactorDialog";
+import SetupWizard from "./components/SetupWizard";
+import TagInput from "./components/TagInput";
+import TagFilterBar from "./components/TagFilterBar";
+import TrashDialog from "./components/TrashDialog";
+import GroupParentSelect from "./components/GroupParentSelect";
+import DashboardSwitcher from "./components/DashboardSwitcher";
+import DashboardManagerDialog from "./components/DashboardManagerDialog";
+import NetworkProfileSwitcher from "./components/NetworkProfileSwitcher";
+import CustomFieldInputs from "./components/CustomFieldInputs";
+import CustomFieldSchemaDialog from "./components/CustomFieldSchemaDialog";
 import "./App.css";
 import {
     DndContext,
@@ -62,6 +96,13 @@ import FileUploadIcon from "@mui/icons-material/FileUpload";
 import FileDownloadIcon from "@mui/icons-material/FileDownload";
 import LogoutIcon from "@mui/icons-material/Logout";
 import MenuIcon from "@mui/icons-material/Menu";
+import LoginIcon from "@mui/icons-material/Login";
+import DevicesIcon from "@mui/icons-material/Devices";
+import HistoryIcon from "@mui/icons-material/History";
+import KeyIcon from "@mui/icons-material/Key";
+import SecurityIcon from "@mui/icons-material/Security";
+import DeleteOutlineIcon from "@mui/icons-material/DeleteOutline";
+import TuneIcon from "@mui/icons-material/Tune";
 
 // 根据环境选择使用真实API还是模拟API
 const isDevEnvironment = import.meta.env.DEV;
@@ -84,8 +125,46 @@ const DEFAULT_CONFIGS = {
     "site.title": "导航站",
     "site.name": "导航站",
     "site.customCss": "",
+    "network.probeUrl": "",
+    "network.probeProfile": "lan",
+    "network.fallbackOrder": "",
 };
 
+// 检测地址的超时时间，内网地址在外网通常无法连接而是等待超时
+const NETWORK_PROBE_TIMEOUT_MS = 3000;
+
+// 请求检测地址判断是否能访问，只关心能否连接，不读取响应内容
+async function probeNetwork(url: string, signal: AbortSignal): Promise<boolean> {
+    try {
+        await fetch(url, { mode: "no-cors", cache: "no-store", signal });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// 从地址中读取面板路径，/d/:slug 对应指定面板，其他地址显示第一个面板
+function getDashboardSlugFromPath(): string | null {
+    const match = window.location.pathname.match(/^\/d\/([^/]+)\/?$/);
+    return match ? decodeURIComponent(match[1]).toLowerCase() : null;
+}
+
+// 加载每个分组的站点并确保id存在
+async function loadGroupsWithSites(groupsData: Group[]): Promise<GroupWithSites[]> {
+    return Promise.all(
+        groupsData
+            .filter(group => group.id !== undefined) // 过滤掉没有id的分组
+            .map(async group => {
+                const sites = await api.getSites(group.id);
+                return {
+                    ...group,
+                    id: group.id as number, // 确保id不为undefined
+                    sites,
+                } as GroupWithSites;
+            })
+    );
+}
+
 function App() {
     // 主题模式状态
     const [darkMode, setDarkMode] = useState(() => {
@@ -114,23 +193,154 @@ function App() {
     };
 
     const [groups, setGroups] = useState<GroupWithSites[]>([]);
+    // 面板列表和地址中的面板路径，未指定路径时显示第一个面板
+    const [dashboards, setDashboards] = useState<Dashboard[]>([]);
+    const [dashboardSlug, setDashboardSlug] = useState<string | null>(getDashboardSlugFromPath);
+    const currentDashboard = useMemo(
+        () =>
+            dashboards.find(dashboard => dashboard.slug === dashboardSlug) ?? dashboards[0] ?? null,
+        [dashboards, dashboardSlug]
+    );
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [sortMode, setSortMode] = useState<SortMode>(SortMode.None);
     const [currentSortingGroupId, setCurrentSortingGroupId] = useState<number | null>(null);
+    // 标签筛选，选中多个时显示带有任意一个选中标签的站点
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+    // 所有站点上出现过的标签
+    const allTags = useMemo(
+        () =>
+            Array.from(
+                new Set(groups.flatMap(group => group.sites.flatMap(site => site.tags || [])))
+            ).sort((a, b) => a.localeCompare(b)),
+        [groups]
+    );
+
+    // 分组树，以及分组排序模式下按层级展开的列表
+    const groupTree = useMemo(() => buildGroupTree(groups), [groups]);
+    const sortableGroups = useMemo(() => flattenGroupTree(groupTree), [groupTree]);
+
+    // 按选中的标签筛选站点，隐藏没有匹配站点且没有匹配子分组的分组；排序时始终显示全部
+    const filteredGroups = useMemo(() => {
+        const activeTags = selectedTags.filter(tag => allTags.includes(tag));
+        if (sortMode !== SortMode.None || activeTags.length === 0) {
+            return groupTree;
+        }
+        const filterTree = (nodes: GroupTreeNode[]): GroupTreeNode[] =>
+            nodes
+                .map(group => ({
+                    ...group,
+                    sites: group.sites.filter(site =>
+                        site.tags?.some(tag => activeTags.includes(tag))
+                    ),
+                    children: filterTree(group.children),
+                }))
+                .filter(group => group.sites.length > 0 || group.children.length > 0);
+        return filterTree(groupTree);
+    }, [groupTree, selectedTags, allTags, sortMode]);
 
     // 新增认证状态
     const [isAuthChecking, setIsAuthChecking] = useState(true);
     const [isAuthRequired, setIsAuthRequired] = useState(false);
     const [isAuthenticated, setIsAuthenticated] = useState(false);
     const [loginError, setLoginError] = useState<string | null>(null);
+    const [loginRetryAfter, setLoginRetryAfter] = useState<number | null>(null);
+    const [rememberMeDays, setRememberMeDays] = useState(30);
+    const [ssoEnabled, setSsoEnabled] = useState(false);
+    // 首次安装向导
+    const [isSetupRequired, setIsSetupRequired] = useState(false);
+    const [isAuthEnabled, setIsAuthEnabled] = useState(true);
+    const [setupLoading, setSetupLoading] = useState(false);
+    const [setupError, setSetupError] = useState<string | null>(null);
+    const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
     const [loginLoading, setLoginLoading] = useState(false);
+    const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
+    // 公开只读模式：未登录访客可浏览，登录入口以弹窗形式提供
+    const [isPublicRead, setIsPublicRead] = useState(false);
+    // 首次加载时fetchData来自挂载时的闭包，读不到最新的isPublicRead，通过ref读取
+    const isPublicReadRef = useRef(false);
+    const [openLoginDialog, setOpenLoginDialog] = useState(false);
+
+    // 根据当前角色计算可用的操作
+    const currentRole = currentUser?.role ?? "viewer";
+    const canEdit = hasRole(currentRole, "editor");
+    const isAdmin = hasRole(currentRole, "admin");
 
     // 配置状态
     const [configs, setConfigs] = useState<Record<string, string>>(DEFAULT_CONFIGS);
     const [openConfig, setOpenConfig] = useState(false);
     const [tempConfigs, setTempConfigs] = useState<Record<string, string>>(DEFAULT_CONFIGS);
 
+    // 网络环境：决定点击站点时打开主链接还是某个备用链接，选择保存在浏览器中
+    const [networkProfile, setNetworkProfile] = useState(
+        () => localStorage.getItem("networkProfile") ?? AUTO_NETWORK_PROFILE
+    );
+    const [detectedProfile, setDetectedProfile] = useState<string | null>(null);
+    const probeUrl = configs["network.probeUrl"];
+    const probeProfile = configs["network.probeProfile"] || DEFAULT_CONFIGS["network.probeProfile"];
+    const fallbackOrder = useMemo(
+        () =>
+            (configs["network.fallbackOrder"] || "")
+                .split(/[,，\s]+/)
+                .map(name => name.trim().toLowerCase())
+                .filter(Boolean),
+        [configs]
+    );
+
+    // 自动检测：能访问检测地址时使用检测对应的网络环境，否则使用默认链接
+    useEffect(() => {
+        if (networkProfile !== AUTO_NETWORK_PROFILE || !probeUrl) {
+            setDetectedProfile(null);
+            return;
+        }
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), NETWORK_PROBE_TIMEOUT_MS);
+        let cancelled = false;
+        probeNetwork(probeUrl, controller.signal).then(reachable => {
+            if (!cancelled) {
+                setDetectedProfile(reachable ? probeProfile : null);
+            }
+        });
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            controller.abort();
+        };
+    }, [networkProfile, probeUrl, probeProfile]);
+
+    const activeProfile =
+        networkProfile === AUTO_NETWORK_PROFILE ? detectedProfile : networkProfile || null;
+    const resolveUrl = useCallback(
+        (site: Site) => resolveSiteUrl(site, activeProfile, fallbackOrder),
+        [activeProfile, fallbackOrder]
+    );
+
+    // 站点备用链接中出现过的网络环境
+    const networkProfiles = useMemo(
+        () =>
+            Array.from(
+                new Set([
+                    ...groups.flatMap(group =>
+                        group.sites.flatMap(site => Object.keys(site.alt_urls || {}))
+                    ),
+                    ...fallbackOrder,
+                ])
+            ).sort((a, b) => a.localeCompare(b)),
+        [groups, fallbackOrder]
+    );
+
+    // 管理员定义的站点自定义字段
+    const customFields = useMemo(
+        () => parseCustomFieldSchema(configs[CUSTOM_FIELDS_CONFIG_KEY]),
+        [configs]
+    );
+
+    const handleNetworkProfileChange = (profile: string) => {
+        setNetworkProfile(profile);
+        localStorage.setItem("networkProfile", profile);
+    };
+
     // 配置传感器，支持鼠标、触摸和键盘操作
     const sensors = useSensors(
         useSensor(PointerSensor, {
@@ -154,6 +364,7 @@ function App() {
     const [openAddGroup, setOpenAddGroup] = useState(false);
     const [openAddSite, setOpenAddSite] = useState(false);
     const [newGroup, setNewGroup] = useState<Partial<Group>>({ name: "", order_num: 0 });
+    const [newSiteMetadataLoading, setNewSiteMetadataLoading] = useState(false);
     const [newSite, setNewSite] = useState<Partial<Site>>({
         name: "",
         url: "",
@@ -170,6 +381,27 @@ function App() {
 
     // 新增导入对话框状态
     const [openImport, setOpenImport] = useState(false);
+
+    // 会话管理对话框
+    const [openSessions, setOpenSessions] = useState(false);
+
+    // 审计日志对话框
+    const [openAuditLog, setOpenAuditLog] = useState(false);
+
+    // 回收站对话框
+    const [openTrash, setOpenTrash] = useState(false);
+
+    // 面板管理对话框
+    const [openDashboards, setOpenDashboards] = useState(false);
+
+    // 自定义字段对话框
+    const [openCustomFields, setOpenCustomFields] = useState(false);
+
+    // API令牌对话框
+    const [openApiTokens, setOpenApiTokens] = useState(false);
+
+    // 两步验证对话框
+    const [openTwoFactor, setOpenTwoFactor] = useState(false);
     const [importFile, setImportFile] = useState<File | null>(null);
     const [importError, setImportError] = useState<string | null>(null);
     const [importLoading, setImportLoading] = useState(false);
@@ -193,25 +425,47 @@ function App() {
             setIsAuthChecking(true);
             console.log("开始检查认证状态...");
 
-            // 尝试进行API调用，检查是否需要认证
-            const result = await api.checkAuthStatus();
-            console.log("认证检查结果:", result);
+            // SSO登录跳转回来时，先保存令牌或显示失败原因
+            const ssoError = api.consumeSsoRedirect();
+            if (ssoError) {
+                setLoginError(ssoError);
+            }
+
+            // 获取认证状态和当前用户角色
+            const status = await api.getAuthStatus();
+            console.log("认证检查结果:", status);
+            isPublicReadRef.current = status.publicRead;
+            setIsPublicRead(status.publicRead);
+            setRememberMeDays(status.rememberMeDays);
+            setSsoEnabled(status.ssoEnabled);
+            setIsAuthEnabled(status.authEnabled);
+            setIsSetupRequired(status.setupRequired);
+
+            if (status.setupRequired) {
+                // 数据库尚未初始化，先显示安装向导
+                console.log("数据库未初始化，显示安装向导");
+                return;
+            }
 
-            if (!result) {
+            if (!status.authenticated && status.publicRead) {
+                // 公开只读模式，以访客身份加载数据
+                console.log("未认证，以访客身份浏览");
+                setCurrentUser(null);
+                setIsAuthenticated(false);
+                setIsAuthRequired(false);
+                await fetchData();
+                await fetchConfigs();
+            } else if (!status.authenticated) {
                 // 未认证，需要登录
                 console.log("未认证，设置需要登录状态");
 
-                // 如果有token但无效，清除它
-                if (api.isLoggedIn()) {
-                    console.log("清除无效token");
-                    api.logout();
-                }
-
                 // 直接更新状态，确保先设置认证状态再结束检查
+                setCurrentUser(null);
                 setIsAuthenticated(false);
                 setIsAuthRequired(true);
             } else {
                 // 直接更新认证状态
+                setCurrentUser(status.user);
                 setIsAuthenticated(true);
                 setIsAuthRequired(false);
 
@@ -234,25 +488,78 @@ function App() {
         }
     };
 
+    // 完成安装向导，启用认证时用刚创建的管理员账号直接登录
+    const handleSetup = async (request: SetupRequest) => {
+        try {
+            setSetupLoading(true);
+            setSetupError(null);
+            await api.setup(request);
+            setIsSetupRequired(false);
+
+            if (request.username && request.password) {
+                // 登录失败时回到登录界面
+                setIsAuthRequired(true);
+                await handleLogin(request.username, request.password, false);
+            } else {
+                await checkAuthStatus();
+            }
+        } catch (error) {
+            console.error("初始化失败:", error);
+            setSetupError("初始化失败: " + (error as Error).message);
+        } finally {
+            setSetupLoading(false);
+        }
+    };
+
     // 登录功能
-    const handleLogin = async (username: string, password: string) => {
+    const handleLogin = (username: string, password: string, remember: boolean) =>
+        submitLogin(() => api.login(username, password, remember));
+
+    // 登录第二步：提交两步验证码
+    const handleVerifyTwoFactor = (code: string) => {
+        if (!twoFactorToken) return;
+        return submitLogin(() => api.loginWithTwoFactor(twoFactorToken, code));
+    };
+
+    // SSO登录：整页跳转到身份提供方，完成后回到首页
+    const handleSsoLogin = (remember: boolean) => {
+        window.location.href = api.getSsoLoginUrl(remember);
+    };
+
+    // 取消两步验证，返回用户名密码输入
+    const handleCancelTwoFactor = () => {
+        setTwoFactorToken(null);
+        setLoginError(null);
+        setLoginRetryAfter(null);
+    };
+
+    // 调用登录接口并处理结果，密码登录和两步验证共用
+    const submitLogin = async (doLogin: () => Promise<LoginResponse>) => {
         try {
             setLoginLoading(true);
             setLoginError(null);
+            setLoginRetryAfter(null);
 
             // 调用登录接口
-            const success = await api.login(username, password);
+            const result = await doLogin();
 
-            if (success) {
+            if (result.success) {
                 // 登录成功
+                setTwoFactorToken(null);
+                setCurrentUser(result.user ?? null);
                 setIsAuthenticated(true);
                 setIsAuthRequired(false);
+                setOpenLoginDialog(false);
                 // 加载数据
                 await fetchData();
                 await fetchConfigs();
+            } else if (result.twoFactorRequired && result.twoFactorToken) {
+                // 密码正确，需要输入两步验证码
+                setTwoFactorToken(result.twoFactorToken);
             } else {
                 // 登录失败
-                handleError("用户名或密码错误");
+                setLoginError(result.message || "用户名或密码错误");
+                setLoginRetryAfter(result.retryAfter ?? null);
                 setIsAuthenticated(false);
             }
         } catch (error) {
@@ -265,14 +572,23 @@ function App() {
     };
 
     // 登出功能
-    const handleLogout = () => {
-        api.logout();
+    const handleLogout = async () => {
+        await api.logout();
+        setCurrentUser(null);
         setIsAuthenticated(false);
+        handleMenuClose();
+
+        // 公开只读模式下退出后继续以访客身份浏览
+        if (isPublicRead) {
+            await fetchData();
+            await fetchConfigs();
+            return;
+        }
+
         setIsAuthRequired(true);
 
         // 清空数据
         setGroups([]);
-        handleMenuClose();
 
         // 显示提示信息
         setError("已退出登录，请重新登录");
@@ -303,16 +619,31 @@ function App() {
         // 确保初始化时重置排序状态
         setSortMode(SortMode.None);
         setCurrentSortingGroupId(null);
+
+        // 浏览器前进后退时切换到地址对应的面板
+        const handlePopState = () => {
+            const slug = getDashboardSlugFromPath();
+            setDashboardSlug(slug);
+            setSelectedTags([]);
+            fetchData(slug);
+        };
+        window.addEventListener("popstate", handlePopState);
+        return () => window.removeEventListener("popstate", handlePopState);
     }, []);
 
+    // 面板的标题、名称和自定义CSS，旧数据没有面板时使用网站配置
+    const siteTitle = currentDashboard?.title || configs["site.title"] || "导航站";
+    const siteName = currentDashboard?.name || configs["site.name"];
+    const siteCustomCss = currentDashboard ? currentDashboard.custom_css : configs["site.customCss"];
+
     // 设置文档标题
     useEffect(() => {
-        document.title = configs["site.title"] || "导航站";
-    }, [configs]);
+        document.title = siteTitle;
+    }, [siteTitle]);
 
     // 应用自定义CSS
     useEffect(() => {
-        const customCss = configs["site.customCss"];
+        const customCss = siteCustomCss;
         let styleElement = document.getElementById("custom-style");
 
         if (!styleElement) {
@@ -324,7 +655,7 @@ function App() {
         // 添加安全过滤，防止CSS注入攻击
         const sanitizedCss = sanitizeCSS(customCss || "");
         styleElement.textContent = sanitizedCss;
-    }, [configs]);
+    }, [siteCustomCss]);
 
     // CSS安全过滤函数
     const sanitizeCSS = (css: string): string => {
@@ -367,35 +698,35 @@ function App() {
         setSnackbarOpen(false);
     };
 
-    const fetchData = async () => {
+    const fetchData = async (slug: string | null = dashboardSlug) => {
         try {
             setLoading(true);
             setError(null);
-            const groupsData = await api.getGroups();
-
-            // 获取每个分组的站点并确保id存在
-            const groupsWithSites = await Promise.all(
-                groupsData
-                    .filter(group => group.id !== undefined) // 过滤掉没有id的分组
-                    .map(async group => {
-                        const sites = await api.getSites(group.id);
-                        return {
-                            ...group,
-                            id: group.id as number, // 确保id不为undefined
-                            sites,
-                        } as GroupWithSites;
-                    })
-            );
 
-            setGroups(groupsWithSites);
+            // 先加载面板列表，地址中的面板不存在时回到首页
+            const dashboardsData = await api.getDashboards();
+            setDashboards(dashboardsData);
+            let dashboard = dashboardsData.find(item => item.slug === slug) ?? dashboardsData[0];
+            if (slug && dashboard?.slug !== slug) {
+                handleError(`面板 "${slug}" 不存在`);
+                window.history.replaceState(null, "", "/");
+                setDashboardSlug(null);
+                dashboard = dashboardsData[0];
+            }
+            const groupsData = await api.getGroups(dashboard?.slug);
+
+            // 获取每个分组的站点
+            setGroups(await loadGroupsWithSites(groupsData));
         } catch (error) {
             console.error("加载数据失败:", error);
             handleError("加载数据失败: " + (error instanceof Error ? error.message : "未知错误"));
 
             // 如果因为认证问题导致加载失败，处理认证状态
             if (error instanceof Error && error.message.includes("认证")) {
-                setIsAuthRequired(true);
+                setCurrentUser(null);
                 setIsAuthenticated(false);
+                // 公开只读模式下不强制跳转登录页
+                setIsAuthRequired(!isPublicReadRef.current);
             }
         } finally {
             setLoading(false);
@@ -415,6 +746,26 @@ function App() {
         }
     };
 
+    // 站点历史版本
+    const loadSiteRevisions = useCallback((siteId: number) => api.getSiteRevisions(siteId), []);
+
+    const handleRestoreSiteRevision = async (siteId: number, revisionId: number) => {
+        await api.restoreSiteRevision(siteId, revisionId);
+        await fetchData(); // 重新加载数据
+    };
+
+    // 上传站点图标，返回可以填写为站点图标的地址
+    const handleUploadIcon = useCallback(
+        async (file: Blob) => (await api.uploadIcon(file)).url,
+        []
+    );
+
+    // 自动获取网站图标，返回可以填写为站点图标的地址
+    const handleDiscoverIcon = useCallback(
+        async (url: string) => (await api.discoverFavicon(url)).url,
+        []
+    );
+
     // 删除站点
     const handleSiteDelete = async (siteId: number) => {
         try {
@@ -430,11 +781,17 @@ function App() {
     const handleSaveGroupOrder = async () => {
         try {
             console.log("保存分组顺序", groups);
-            // 构造需要更新的分组顺序数据
-            const groupOrders = groups.map((group, index) => ({
-                id: group.id as number, // 断言id为number类型
-                order_num: index,
-            }));
+            // 构造需要更新的分组顺序数据，排序号按同级分组中的位置计算
+            const groupOrders = sortableGroups.map(({ group }) => {
+                const siblings = groups.filter(
+                    item => (item.parent_id ?? null) === (group.parent_id ?? null)
+                );
+                return {
+                    id: group.id,
+                    order_num: siblings.findIndex(item => item.id === group.id),
+                    parent_id: group.parent_id ?? null,
+                };
+            });
 
             // 调用API更新分组顺序
             const result = await api.updateGroupOrder(groupOrders);
@@ -512,18 +869,30 @@ function App() {
         if (!over) return;
 
         if (active.id !== over.id) {
-            const oldIndex = groups.findIndex(group => group.id.toString() === active.id);
-            const newIndex = groups.findIndex(group => group.id.toString() === over.id);
+            // 在按层级展开的列表中移动，同级分组的先后顺序随之改变
+            const ordered = sortableGroups.map(({ group }) => group);
+            const oldIndex = ordered.findIndex(group => group.id.toString() === active.id);
+            const newIndex = ordered.findIndex(group => group.id.toString() === over.id);
 
             if (oldIndex !== -1 && newIndex !== -1) {
-                setGroups(arrayMove(groups, oldIndex, newIndex));
+                setGroups(arrayMove(ordered, oldIndex, newIndex));
             }
         }
     };
 
+    // 排序模式下修改上级分组，移动后的分组排在新上级分组的最后
+    const handleGroupParentChange = (groupId: number, parentId: number | null) => {
+        const moved = groups.find(group => group.id === groupId);
+        if (!moved) return;
+        setGroups([
+            ...groups.filter(group => group.id !== groupId),
+            { ...moved, parent_id: parentId },
+        ]);
+    };
+
     // 新增分组相关函数
     const handleOpenAddGroup = () => {
-        setNewGroup({ name: "", order_num: groups.length });
+        setNewGroup({ name: "", order_num: groups.length, parent_id: null });
         setOpenAddGroup(true);
     };
 
@@ -545,7 +914,7 @@ function App() {
                 return;
             }
 
-            await api.createGroup(newGroup as Group);
+            await api.createGroup({ ...newGroup, dashboard_id: currentDashboard?.id } as Group);
             await fetchData(); // 重新加载数据
             handleCloseAddGroup();
             setNewGroup({ name: "", order_num: 0 }); // 重置表单
@@ -568,6 +937,8 @@ function App() {
             icon: "",
             description: "",
             notes: "",
+            tags: [],
+            custom_fields: {},
             group_id: groupId,
             order_num: maxOrderNum,
         });
@@ -586,6 +957,37 @@ function App() {
         });
     };
 
+    // 填写站点URL后按网页内容预填名称、描述和图标，只填写仍为空的字段，获取失败时不影响手动填写
+    const handleSiteUrlBlur = async () => {
+        const url = newSite.url?.trim();
+        if (
+            !url ||
+            (newSite.name && newSite.description && newSite.icon) ||
+            !/^https?:\/\//i.test(url)
+        ) {
+            return;
+        }
+
+        try {
+            setNewSiteMetadataLoading(true);
+            const metadata = await api.getSiteMetadata(url);
+            setNewSite(prev =>
+                prev.url?.trim() === url
+                    ? {
+                          ...prev,
+                          name: prev.name || metadata.title,
+                          description: prev.description || metadata.description,
+                          icon: prev.icon || metadata.icon || "",
+                      }
+                    : prev
+            );
+        } catch (error) {
+            console.warn("获取网页信息失败:", error);
+        } finally {
+            setNewSiteMetadataLoading(false);
+        }
+    };
+
     const handleCreateSite = async () => {
         try {
             if (!newSite.name || !newSite.url) {
@@ -602,9 +1004,71 @@ function App() {
         }
     };
 
-    // 配置相关函数
+    // 切换面板，第一个面板使用首页地址
+    const handleSwitchDashboard = (dashboard: Dashboard) => {
+        const slug = dashboard.id === dashboards[0]?.id ? null : dashboard.slug;
+        window.history.pushState(null, "", slug ? `/d/${encodeURIComponent(slug)}` : "/");
+        setDashboardSlug(slug);
+        setSelectedTags([]);
+        fetchData(slug);
+    };
+
+    // 面板管理
+    const handleOpenDashboards = () => {
+        setOpenDashboards(true);
+    };
+
+    const handleCreateDashboard = async (name: string, slug: string) => {
+        await api.createDashboard({
+            name,
+            slug,
+            title: name,
+            custom_css: "",
+            order_num: dashboards.length,
+        });
+        setDashboards(await api.getDashboards());
+    };
+
+    const handleDeleteDashboard = async (dashboardId: number) => {
+        await api.deleteDashboard(dashboardId);
+        // 删除的是当前面板时回到首页
+        if (dashboardId === currentDashboard?.id) {
+            window.history.replaceState(null, "", "/");
+            setDashboardSlug(null);
+            await fetchData(null);
+        } else {
+            setDashboards(await api.getDashboards());
+        }
+    };
+
+    // 自定义字段定义，没有字段时删除配置
+    const handleOpenCustomFields = () => {
+        setOpenCustomFields(true);
+        handleMenuClose();
+    };
+
+    const handleSaveCustomFields = async (fields: CustomField[]) => {
+        const nextConfigs = { ...configs };
+        if (fields.length > 0) {
+            nextConfigs[CUSTOM_FIELDS_CONFIG_KEY] = JSON.stringify(fields);
+            await api.setConfig(CUSTOM_FIELDS_CONFIG_KEY, nextConfigs[CUSTOM_FIELDS_CONFIG_KEY]);
+        } else {
+            delete nextConfigs[CUSTOM_FIELDS_CONFIG_KEY];
+            await api.deleteConfig(CUSTOM_FIELDS_CONFIG_KEY);
+        }
+        setConfigs(nextConfigs);
+    };
+
+    // 配置相关函数，名称、标题和自定义CSS保存在当前面板中
     const handleOpenConfig = () => {
-        setTempConfigs({ ...configs });
+        setTempConfigs({
+            "site.title": siteTitle,
+            "site.name": siteName,
+            "site.customCss": siteCustomCss,
+            "network.probeUrl": configs["network.probeUrl"],
+            "network.probeProfile": configs["network.probeProfile"],
+            "network.fallbackOrder": configs["network.fallbackOrder"],
+        });
         setOpenConfig(true);
     };
 
@@ -621,15 +1085,32 @@ function App() {
 
     const handleSaveConfig = async () => {
         try {
-            // 保存所有配置
+            if (!currentDashboard?.id) {
+                throw new Error("面板不存在");
+            }
+
+            // 保存到当前面板
+            await api.updateDashboard(currentDashboard.id, {
+                name: tempConfigs["site.name"],
+                title: tempConfigs["site.title"],
+                custom_css: tempConfigs["site.customCss"],
+            });
+
+            // 网络环境配置所有面板共用，清空时删除配置
+            const networkConfigs = { ...configs };
             for (const [key, value] of Object.entries(tempConfigs)) {
-                if (configs[key] !== value) {
-                    await api.setConfig(key, value);
+                if (!key.startsWith("network.") || configs[key] === value.trim()) continue;
+                if (value.trim()) {
+                    await api.setConfig(key, value.trim());
+                } else {
+                    await api.deleteConfig(key);
                 }
+                networkConfigs[key] = value.trim() || DEFAULT_CONFIGS[key as keyof typeof DEFAULT_CONFIGS];
             }
 
-            // 更新配置状态
-            setConfigs({ ...tempConfigs });
+            // 更新面板和配置状态
+            setDashboards(await api.getDashboards());
+            setConfigs(networkConfigs);
             handleCloseConfig();
         } catch (error) {
             console.error("保存配置失败:", error);
@@ -637,17 +1118,27 @@ function App() {
         }
     };
 
-    // 处理导出数据
-    const handleExportData = async () => {
+    // 处理导出数据，默认只导出当前面板
+    const handleExportData = async (all = false) => {
         try {
             setLoading(true);
+            const exportGroups = all ? await loadGroupsWithSites(await api.getGroups()) : groups;
+            // 一并导出站点使用的上传图标
+            const iconIds = exportGroups
+                .flatMap(group => group.sites.map(site => getIconId(site.icon)))
+                .filter(id => id !== null);
             const exportData = {
-                groups: groups.map(group => ({
+                dashboards: all ? dashboards : currentDashboard ? [currentDashboard] : [],
+                groups: exportGroups.map(group => ({
                     id: group.id,
                     name: group.name,
                     order_num: group.order_num,
+                    visibility: group.visibility,
+                    parent_id: group.parent_id ?? null,
+                    dashboard_id: group.dashboard_id,
                     sites: group.sites,
                 })),
+                icons: await api.getIcons([...new Set(iconIds)]),
                 configs: configs,
             };
 
@@ -655,7 +1146,11 @@ function App() {
             const dataStr = JSON.stringify(exportData, null, 2);
             const dataUri = "data:application/json;charset=utf-8," + encodeURIComponent(dataStr);
 
-            const exportFileName = `导航站备份_${new Date().toISOString().slice(0, 10)}.json`;
+            const date = new Date().toISOString().slice(0, 10);
+            const exportFileName =
+                all || !currentDashboard
+                    ? `导航站备份_${date}.json`
+                    : `导航站备份_${currentDashboard.slug}_${date}.json`;
 
             const linkElement = document.createElement("a");
             linkElement.setAttribute("href", dataUri);
@@ -669,6 +1164,89 @@ function App() {
         }
     };
 
+    // 处理会话管理对话框
+    const handleOpenSessions = () => {
+        setOpenSessions(true);
+        handleMenuClose();
+    };
+
+    const loadSessions = useCallback(() => api.getSessions(), []);
+
+    const handleRevokeSession = useCallback(async (sessionId: string) => {
+        await api.revokeSession(sessionId);
+    }, []);
+
+    // 处理审计日志对话框
+    const handleOpenAuditLog = () => {
+        setOpenAuditLog(true);
+        handleMenuClose();
+    };
+
+    const loadAuditLogs = useCallback((query: AuditLogQuery) => api.getAuditLogs(query), []);
+
+    // 处理回收站对话框，恢复后重新加载分组和站点
+    const handleOpenTrash = () => {
+        setOpenTrash(true);
+        handleMenuClose();
+    };
+
+    const loadTrash = useCallback(() => api.getTrash(), []);
+
+    const handleRestoreGroup = async (groupId: number) => {
+        await api.restoreGroup(groupId);
+        await fetchData();
+    };
+
+    const handleRestoreSite = async (siteId: number) => {
+        await api.restoreSite(siteId);
+        await fetchData();
+    };
+
+    const handlePurgeGroup = async (groupId: number) => {
+        await api.purgeGroup(groupId);
+    };
+
+    const handlePurgeSite = async (siteId: number) => {
+        await api.purgeSite(siteId);
+    };
+
+    const handleEmptyTrash = async () => {
+        await api.emptyTrash();
+    };
+
+    // 处理API令牌对话框
+    const handleOpenApiTokens = () => {
+        setOpenApiTokens(true);
+        handleMenuClose();
+    };
+
+    const loadApiTokens = useCallback(() => api.getApiTokens(), []);
+
+    const handleCreateApiToken = useCallback(
+        (token: CreateApiTokenRequest) => api.createApiToken(token),
+        []
+    );
+
+    const handleRevokeApiToken = useCallback(async (tokenId: number) => {
+        await api.deleteApiToken(tokenId);
+    }, []);
+
+    // 处理两步验证对话框
+    const handleOpenTwoFactor = () => {
+        setOpenTwoFactor(true);
+        handleMenuClose();
+    };
+
+    const loadTwoFactorStatus = useCallback(() => api.getTwoFactorStatus(), []);
+
+    const handleSetupTwoFactor = useCallback(() => api.setupTwoFactor(), []);
+
+    const handleEnableTwoFactor = useCallback((code: string) => api.enableTwoFactor(code), []);
+
+    const handleDisableTwoFactor = useCallback(async (code: string) => {
+        await api.disableTwoFactor(code);
+    }, []);
+
     // 处理导入对话框
     const handleOpenImport = () => {
         setImportFile(null);
@@ -716,14 +1294,49 @@ function App() {
                         throw new Error("导入文件格式错误：缺少分组数据");
                     }
 
+                    // 按路径匹配面板，不存在的面板自动创建；没有面板信息时导入到当前面板
+                    const dashboardIdMap = new Map<number, number>();
+                    if (Array.isArray(importData.dashboards)) {
+                        for (const dashboard of importData.dashboards as Dashboard[]) {
+                            const target =
+                                dashboards.find(item => item.slug === dashboard.slug) ??
+                                (await api.createDashboard({
+                                    slug: dashboard.slug,
+                                    name: dashboard.name,
+                                    title: dashboard.title || dashboard.name,
+                                    custom_css: dashboard.custom_css || "",
+                                    order_num: dashboards.length + dashboardIdMap.size,
+                                }));
+                            if (dashboard.id && target.id) {
+                                dashboardIdMap.set(dashboard.id, target.id);
+                            }
+                        }
+                    }
+
+                    // 先上传图标，图标地址由内容决定，站点中的图标地址导入后仍然有效
+                    if (Array.isArray(importData.icons)) {
+                        for (const icon of importData.icons as StoredIcon[]) {
+                            await api
+                                .uploadIcon(icon.data)
+                                .catch(error => console.error("导入图标失败:", error));
+                        }
+                    }
+
                     // 导入分组和站点
                     // 这里简化处理，实际应用中可能需要更复杂的导入逻辑
+                    const groupIdMap = new Map<number, number>();
                     for (const group of importData.groups) {
                         // 创建分组
                         const createdGroup = await api.createGroup({
                             name: group.name,
                             order_num: group.order_num,
+                            visibility: group.visibility,
+                            dashboard_id:
+                                dashboardIdMap.get(group.dashboard_id) ?? currentDashboard?.id,
                         } as Group);
+                        if (group.id && createdGroup.id) {
+                            groupIdMap.set(group.id, createdGroup.id);
+                        }
 
                         // 创建站点
                         if (group.sites && Array.isArray(group.sites)) {
@@ -737,6 +1350,15 @@ function App() {
                         }
                     }
 
+                    // 所有分组创建后再恢复上下级关系
+                    for (const group of importData.groups) {
+                        const newId = groupIdMap.get(group.id);
+                        const newParentId = groupIdMap.get(group.parent_id);
+                        if (newId && newParentId) {
+                            await api.updateGroup(newId, { parent_id: newParentId });
+                        }
+                    }
+
                     // 导入配置
                     if (importData.configs) {
                         for (const [key, value] of Object.entries(importData.configs)) {
@@ -782,7 +1404,18 @@ function App() {
                     bgcolor: "background.default",
                 }}
             >
-                <LoginForm onLogin={handleLogin} loading={loginLoading} error={loginError} />
+                <LoginForm
+                    onLogin={handleLogin}
+                    loading={loginLoading}
+                    error={loginError}
+                    retryAfter={loginRetryAfter}
+                    rememberMeDays={rememberMeDays}
+                    twoFactorRequired={!!twoFactorToken}
+                    onVerifyTwoFactor={handleVerifyTwoFactor}
+                    onCancelTwoFactor={handleCancelTwoFactor}
+                    ssoEnabled={ssoEnabled}
+                    onSsoLogin={handleSsoLogin}
+                />
             </Box>
         );
     };
@@ -807,6 +1440,31 @@ function App() {
         );
     }
 
+    // 数据库尚未初始化，显示安装向导
+    if (isSetupRequired) {
+        return (
+            <ThemeProvider theme={theme}>
+                <CssBaseline />
+                <Box
+                    sx={{
+                        minHeight: "100vh",
+                        display: "flex",
+                        alignItems: "center",
+                        justifyContent: "center",
+                        bgcolor: "background.default",
+                    }}
+                >
+                    <SetupWizard
+                        authEnabled={isAuthEnabled}
+                        onSubmit={handleSetup}
+                        loading={setupLoading}
+                        error={setupError}
+                    />
+                </Box>
+            </ThemeProvider>
+        );
+    }
+
     // 如果需要认证但未认证，显示登录界面
     if (isAuthRequired && !isAuthenticated) {
         return (
@@ -821,7 +1479,12 @@ function App() {
     const handleGroupUpdate = async (updatedGroup: Group) => {
         try {
             if (updatedGroup.id) {
-                await api.updateGroup(updatedGroup.id, updatedGroup);
+                await api.updateGroup(updatedGroup.id, {
+                    name: updatedGroup.name,
+                    visibility: updatedGroup.visibility,
+                    parent_id: updatedGroup.parent_id ?? null,
+                    dashboard_id: updatedGroup.dashboard_id,
+                });
                 await fetchData(); // 重新加载数据
             }
         } catch (error) {
@@ -831,9 +1494,9 @@ function App() {
     };
 
     // 删除分组
-    const handleGroupDelete = async (groupId: number) => {
+    const handleGroupDelete = async (groupId: number, children: GroupDeleteMode) => {
         try {
-            await api.deleteGroup(groupId);
+            await api.deleteGroup(groupId, children);
             await fetchData(); // 重新加载数据
         } catch (error) {
             console.error("删除分组失败:", error);
@@ -897,7 +1560,7 @@ function App() {
                                 textAlign: { xs: 'center', sm: 'left' }
                             }}
                         >
-                            {configs["site.name"]}
+                            {siteName}
                         </Typography>
                         <Stack 
                             direction={{ xs: 'row', sm: 'row' }} 
@@ -908,7 +1571,46 @@ function App() {
                             flexWrap="wrap"
                             sx={{ gap: { xs: 1, sm: 2 }, py: { xs: 1, sm: 0 } }}
                         >
-                            {sortMode !== SortMode.None ? (
+                            {sortMode === SortMode.None && networkProfiles.length > 0 && (
+                                <NetworkProfileSwitcher
+                                    profiles={networkProfiles}
+                                    value={
+                                        networkProfile === AUTO_NETWORK_PROFILE && !probeUrl
+                                            ? ""
+                                            : networkProfile
+                                    }
+                                    detected={detectedProfile}
+                                    autoAvailable={!!probeUrl}
+                                    onChange={handleNetworkProfileChange}
+                                />
+                            )}
+                            {sortMode === SortMode.None && (dashboards.length > 1 || isAdmin) && (
+                                <DashboardSwitcher
+                                    dashboards={dashboards}
+                                    current={currentDashboard}
+                                    onSwitch={handleSwitchDashboard}
+                                    onManage={isAdmin ? handleOpenDashboards : undefined}
+                                />
+                            )}
+                            {!isAuthenticated && isPublicRead ? (
+                                <Button
+                                    variant='text'
+                                    color='inherit'
+                                    startIcon={<LoginIcon />}
+                                    onClick={() => {
+                                        setLoginError(null);
+                                        setOpenLoginDialog(true);
+                                    }}
+                                    size="small"
+                                    sx={{ 
+                                        minWidth: 'auto',
+                                        opacity: 0.7,
+                                        fontSize: { xs: '0.75rem', sm: '0.875rem' }
+                                    }}
+                                >
+                                    管理员登录
+                                </Button>
+                            ) : sortMode !== SortMode.None ? (
                                 <>
                                     {sortMode === SortMode.GroupSort && (
                                         <Button
@@ -941,19 +1643,21 @@ function App() {
                                 </>
                             ) : (
                                 <>
-                                    <Button
-                                        variant='contained'
-                                        color='primary'
-                                        startIcon={<AddIcon />}
-                                        onClick={handleOpenAddGroup}
-                                        size="small"
-                                        sx={{ 
-                                            minWidth: 'auto',
-                                            fontSize: { xs: '0.75rem', sm: '0.875rem' }
-                                        }}
-                                    >
-                                        新增分组
-                                    </Button>
+                                    {canEdit && (
+                                        <Button
+                                            variant='contained'
+                                            color='primary'
+                                            startIcon={<AddIcon />}
+                                            onClick={handleOpenAddGroup}
+                                            size="small"
+                                            sx={{ 
+                                                minWidth: 'auto',
+                                                fontSize: { xs: '0.75rem', sm: '0.875rem' }
+                                            }}
+                                        >
+                                            新增分组
+                                        </Button>
+                                    )}
 
                                     <Button
                                         variant='outlined'
@@ -980,31 +1684,93 @@ function App() {
                                             "aria-labelledby": "navigation-button",
                                         }}
                                     >
-                                        <MenuItem onClick={startGroupSort}>
-                                            <ListItemIcon>
-                                                <SortIcon fontSize='small' />
-                                            </ListItemIcon>
-                                            <ListItemText>编辑排序</ListItemText>
-                                        </MenuItem>
-                                        <MenuItem onClick={handleOpenConfig}>
-                                            <ListItemIcon>
-                                                <SettingsIcon fontSize='small' />
-                                            </ListItemIcon>
-                                            <ListItemText>网站设置</ListItemText>
-                                        </MenuItem>
-                                        <Divider />
-                                        <MenuItem onClick={handleExportData}>
+                                        {canEdit && (
+                                            <MenuItem onClick={startGroupSort}>
+                                                <ListItemIcon>
+                                                    <SortIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>编辑排序</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {isAdmin && (
+                                            <MenuItem onClick={handleOpenConfig}>
+                                                <ListItemIcon>
+                                                    <SettingsIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>面板设置</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {isAdmin && (
+                                            <MenuItem onClick={handleOpenCustomFields}>
+                                                <ListItemIcon>
+                                                    <TuneIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>自定义字段</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {canEdit && <Divider />}
+                                        <MenuItem onClick={() => handleExportData()}>
                                             <ListItemIcon>
                                                 <FileDownloadIcon fontSize='small' />
                                             </ListItemIcon>
                                             <ListItemText>导出数据</ListItemText>
                                         </MenuItem>
-                                        <MenuItem onClick={handleOpenImport}>
-                                            <ListItemIcon>
-                                                <FileUploadIcon fontSize='small' />
-                                            </ListItemIcon>
-                                            <ListItemText>导入数据</ListItemText>
-                                        </MenuItem>
+                                        {dashboards.length > 1 && (
+                                            <MenuItem onClick={() => handleExportData(true)}>
+                                                <ListItemIcon>
+                                                    <FileDownloadIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>导出全部面板</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {isAdmin && (
+                                            <MenuItem onClick={handleOpenImport}>
+                                                <ListItemIcon>
+                                                    <FileUploadIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>导入数据</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {isAdmin && isAuthenticated && (
+                                            <MenuItem onClick={handleOpenSessions}>
+                                                <ListItemIcon>
+                                                    <DevicesIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>会话管理</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {canEdit && (
+                                            <MenuItem onClick={handleOpenTrash}>
+                                                <ListItemIcon>
+                                                    <DeleteOutlineIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>回收站</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {isAdmin && (
+                                            <MenuItem onClick={handleOpenAuditLog}>
+                                                <ListItemIcon>
+                                                    <HistoryIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>审计日志</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {isAuthenticated && currentUser?.id !== undefined && (
+                                            <MenuItem onClick={handleOpenApiTokens}>
+                                                <ListItemIcon>
+                                                    <KeyIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>API 令牌</ListItemText>
+                                            </MenuItem>
+                                        )}
+                                        {isAuthenticated && currentUser?.id !== undefined && (
+                                            <MenuItem onClick={handleOpenTwoFactor}>
+                                                <ListItemIcon>
+                                                    <SecurityIcon fontSize='small' />
+                                                </ListItemIcon>
+                                                <ListItemText>两步验证</ListItemText>
+                                            </MenuItem>
+                                        )}
                                         {isAuthenticated && (
                                             <>
                                                 <Divider />
@@ -1026,6 +1792,15 @@ function App() {
                         </Stack>
                     </Box>
 
+                    {/* 标签筛选栏，排序时不显示 */}
+                    {!loading && sortMode === SortMode.None && allTags.length > 0 && (
+                        <TagFilterBar
+                            tags={allTags}
+                            selected={selectedTags}
+                            onChange={setSelectedTags}
+                        />
+                    )}
+
                     {loading && (
                         <Box
                             sx={{
@@ -1053,7 +1828,9 @@ function App() {
                                     onDragEnd={handleDragEnd}
                                 >
                                     <SortableContext
-                                        items={groups.map(group => group.id.toString())}
+                                        items={sortableGroups.map(({ group }) =>
+                                            group.id.toString()
+                                        )}
                                         strategy={verticalListSortingStrategy}
                                     >
                                         <Stack
@@ -1064,11 +1841,14 @@ function App() {
                                                 },
                                             }}
                                         >
-                                            {groups.map(group => (
+                                            {sortableGroups.map(({ group, depth }) => (
                                                 <SortableGroupItem
                                                     key={group.id}
                                                     id={group.id.toString()}
                                                     group={group}
+                                                    depth={depth}
+                                                    groups={groups}
+                                                    onParentChange={handleGroupParentChange}
                                                 />
                                             ))}
                                         </Stack>
@@ -1076,21 +1856,31 @@ function App() {
                                 </DndContext>
                             ) : (
                                 <Stack spacing={5}>
-                                    {groups.map(group => (
+                                    {filteredGroups.map(group => (
                                         <GroupCard
                                             key={`group-${group.id}`}
                                             group={group}
+                                            groups={groups}
+                                            dashboards={dashboards}
+                                            resolveUrl={resolveUrl}
+                                            customFields={customFields}
                                             sortMode={
                                                 sortMode === SortMode.None ? "None" : "SiteSort"
                                             }
                                             currentSortingGroupId={currentSortingGroupId}
-                                            onUpdate={handleSiteUpdate}
-                                            onDelete={handleSiteDelete}
+                                            onUpdate={canEdit ? handleSiteUpdate : undefined}
+                                            onDelete={canEdit ? handleSiteDelete : undefined}
                                             onSaveSiteOrder={handleSaveSiteOrder}
-                                            onStartSiteSort={startSiteSort}
-                                            onAddSite={handleOpenAddSite}
-                                            onUpdateGroup={handleGroupUpdate}
-                                            onDeleteGroup={handleGroupDelete}
+                                            onStartSiteSort={canEdit ? startSiteSort : undefined}
+                                            onAddSite={canEdit ? handleOpenAddSite : undefined}
+                                            onUpdateGroup={canEdit ? handleGroupUpdate : undefined}
+                                            onDeleteGroup={canEdit ? handleGroupDelete : undefined}
+                                            loadRevisions={canEdit ? loadSiteRevisions : undefined}
+                                            onRestoreRevision={
+                                                canEdit ? handleRestoreSiteRevision : undefined
+                                            }
+                                            onUploadIcon={canEdit ? handleUploadIcon : undefined}
+                                            onDiscoverIcon={canEdit ? handleDiscoverIcon : undefined}
                                         />
                                     ))}
                                 </Stack>
@@ -1098,6 +1888,30 @@ function App() {
                         </Box>
                     )}
 
+                    {/* 公开只读模式下的登录对话框 */}
+                    <Dialog
+                        open={openLoginDialog}
+                        onClose={() => setOpenLoginDialog(false)}
+                        maxWidth='xs'
+                        fullWidth
+                        PaperProps={{
+                            sx: { bgcolor: "transparent", boxShadow: "none", backgroundImage: "none" }
+                        }}
+                    >
+                        <LoginForm
+                            onLogin={handleLogin}
+                            loading={loginLoading}
+                            error={loginError}
+                            retryAfter={loginRetryAfter}
+                            rememberMeDays={rememberMeDays}
+                            twoFactorRequired={!!twoFactorToken}
+                            onVerifyTwoFactor={handleVerifyTwoFactor}
+                            onCancelTwoFactor={handleCancelTwoFactor}
+                            ssoEnabled={ssoEnabled}
+                            onSsoLogin={handleSsoLogin}
+                        />
+                    </Dialog>
+
                     {/* 新增分组对话框 */}
                     <Dialog
                         open={openAddGroup}
@@ -1140,6 +1954,15 @@ function App() {
                                 onChange={handleGroupInputChange}
                                 sx={{ mb: 2 }}
                             />
+                            {groups.length > 0 && (
+                                <GroupParentSelect
+                                    groups={groups}
+                                    value={newGroup.parent_id ?? null}
+                                    onChange={parentId =>
+                                        setNewGroup({ ...newGroup, parent_id: parentId })
+                                    }
+                                />
+                            )}
                         </DialogContent>
                         <DialogActions sx={{ px: 3, pb: 3 }}>
                             <Button onClick={handleCloseAddGroup} variant='outlined'>
@@ -1207,6 +2030,12 @@ function App() {
                                             variant='outlined'
                                             value={newSite.url}
                                             onChange={handleSiteInputChange}
+                                            onBlur={handleSiteUrlBlur}
+                                            helperText={
+                                                newSiteMetadataLoading
+                                                    ? "正在获取网页信息…"
+                                                    : "填写后自动获取名称、描述和图标"
+                                            }
                                         />
                                     </Box>
                                 </Box>
@@ -1215,12 +2044,26 @@ function App() {
                                     id='site-icon'
                                     name='icon'
                                     label='图标URL'
-                                    type='url'
+                                    type='text'
                                     fullWidth
                                     variant='outlined'
                                     value={newSite.icon}
                                     onChange={handleSiteInputChange}
                                 />
+                                <TagInput
+                                    value={newSite.tags || []}
+                                    onChange={tags => setNewSite({ ...newSite, tags })}
+                                    options={allTags}
+                                />
+                                {customFields.length > 0 && (
+                                    <CustomFieldInputs
+                                        fields={customFields}
+                                        value={newSite.custom_fields || {}}
+                                        onChange={custom_fields =>
+                                            setNewSite({ ...newSite, custom_fields })
+                                        }
+                                    />
+                                )}
                                 <TextField
                                     margin='dense'
                                     id='site-description'
@@ -1257,7 +2100,7 @@ function App() {
                         </DialogActions>
                     </Dialog>
 
-                    {/* 网站配置对话框 */}
+                    {/* 面板设置对话框 */}
                     <Dialog 
                         open={openConfig} 
                         onClose={handleCloseConfig} 
@@ -1271,7 +2114,7 @@ function App() {
                         }}
                     >
                         <DialogTitle>
-                            网站设置
+                            面板设置
                             <IconButton
                                 aria-label='close'
                                 onClick={handleCloseConfig}
@@ -1286,14 +2129,14 @@ function App() {
                         </DialogTitle>
                         <DialogContent>
                             <DialogContentText sx={{ mb: 2 }}>
-                                配置网站的基本信息和外观
+                                配置当前面板的基本信息和外观
                             </DialogContentText>
                             <Stack spacing={2}>
                                 <TextField
                                     margin='dense'
                                     id='site-title'
                                     name='site.title'
-                                    label='网站标题 (浏览器标签)'
+                                    label='面板标题 (浏览器标签)'
                                     type='text'
                                     fullWidth
                                     variant='outlined'
@@ -1304,7 +2147,7 @@ function App() {
                                     margin='dense'
                                     id='site-name'
                                     name='site.name'
-                                    label='网站名称 (显示在页面中)'
+                                    label='面板名称 (显示在页面中)'
                                     type='text'
                                     fullWidth
                                     variant='outlined'
@@ -1325,6 +2168,48 @@ function App() {
                                     onChange={handleConfigInputChange}
                                     placeholder='/* 自定义样式 */\nbody { }'
                                 />
+                                <Divider />
+                                <Typography variant='subtitle2'>
+                                    网络环境（所有面板共用）
+                                </Typography>
+                                <TextField
+                                    margin='dense'
+                                    id='network-fallback-order'
+                                    name='network.fallbackOrder'
+                                    label='备用链接顺序'
+                                    type='text'
+                                    fullWidth
+                                    variant='outlined'
+                                    value={tempConfigs["network.fallbackOrder"]}
+                                    onChange={handleConfigInputChange}
+                                    placeholder='lan, wan, mirror'
+                                    helperText='当前网络环境没有对应链接时按此顺序选择备用链接，都没有时使用主链接'
+                                />
+                                <TextField
+                                    margin='dense'
+                                    id='network-probe-url'
+                                    name='network.probeUrl'
+                                    label='检测地址'
+                                    type='url'
+                                    fullWidth
+                                    variant='outlined'
+                                    value={tempConfigs["network.probeUrl"]}
+                                    onChange={handleConfigInputChange}
+                                    placeholder='https://nas.lan/favicon.ico'
+                                    helperText='选择"自动检测"时请求此地址，能访问时使用下方的网络环境；留空则不启用自动检测'
+                                />
+                                <TextField
+                                    margin='dense'
+                                    id='network-probe-profile'
+                                    name='network.probeProfile'
+                                    label='检测成功时的网络环境'
+                                    type='text'
+                                    fullWidth
+                                    variant='outlined'
+                                    value={tempConfigs["network.probeProfile"]}
+                                    onChange={handleConfigInputChange}
+                                    placeholder='lan'
+                                />
                             </Stack>
                         </DialogContent>
                         <DialogActions sx={{ px: 3, pb: 3 }}>
@@ -1337,6 +2222,69 @@ function App() {
                         </DialogActions>
                     </Dialog>
 
+                    {/* 自定义字段对话框 */}
+                    <CustomFieldSchemaDialog
+                        open={openCustomFields}
+                        onClose={() => setOpenCustomFields(false)}
+                        fields={customFields}
+                        onSave={handleSaveCustomFields}
+                    />
+
+                    {/* 面板管理对话框 */}
+                    <DashboardManagerDialog
+                        open={openDashboards}
+                        onClose={() => setOpenDashboards(false)}
+                        dashboards={dashboards}
+                        onCreate={handleCreateDashboard}
+                        onDelete={handleDeleteDashboard}
+                    />
+
+                    {/* 会话管理对话框 */}
+                    <SessionManagerDialog
+                        open={openSessions}
+                        onClose={() => setOpenSessions(false)}
+                        loadSessions={loadSessions}
+                        onRevoke={handleRevokeSession}
+                    />
+
+                    {/* 审计日志对话框 */}
+                    <AuditLogDialog
+                        open={openAuditLog}
+                        onClose={() => setOpenAuditLog(false)}
+                        loadLogs={loadAuditLogs}
+                    />
+
+                    {/* 回收站对话框 */}
+                    <TrashDialog
+                        open={openTrash}
+                        onClose={() => setOpenTrash(false)}
+                        loadTrash={loadTrash}
+                        onRestoreGroup={handleRestoreGroup}
+                        onRestoreSite={handleRestoreSite}
+                        onPurgeGroup={handlePurgeGroup}
+                        onPurgeSite={handlePurgeSite}
+                        onEmpty={handleEmptyTrash}
+                    />
+
+                    {/* API令牌对话框 */}
+                    <ApiTokenDialog
+                        open={openApiTokens}
+                        onClose={() => setOpenApiTokens(false)}
+                        loadTokens={loadApiTokens}
+                        onCreate={handleCreateApiToken}
+                        onRevoke={handleRevokeApiToken}
+                    />
+
+                    {/* 两步验证对话框 */}
+                    <TwoFactorDialog
+                        open={openTwoFactor}
+                        onClose={() => setOpenTwoFactor(false)}
+                        loadStatus={loadTwoFactorStatus}
+                        onSetup={handleSetupTwoFactor}
+                        onEnable={handleEnableTwoFactor}
+                        onDisable={handleDisableTwoFactor}
+                    />
+
                     {/* 导入数据对话框 */}
                     <Dialog 
                         open={openImport} 
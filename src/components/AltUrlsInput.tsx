@@ -0,0 +1,77 @@
+import React from "react";
+import { Box, Button, IconButton, Stack, TextField, Typography } from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { MAX_ALT_URLS_PER_SITE, NETWORK_PROFILE_PATTERN } from "../API/http";
+
+// 编辑中的备用链接，允许暂时为空或重名，保存时再整理
+export interface AltUrlRow {
+    name: string;
+    url: string;
+}
+
+interface AltUrlsInputProps {
+    value: AltUrlRow[];
+    onChange: (rows: AltUrlRow[]) => void;
+}
+
+// 备用链接编辑：每行一个网络环境名称（如lan、wan）和对应的链接
+const AltUrlsInput: React.FC<AltUrlsInputProps> = ({ value, onChange }) => {
+    const updateRow = (index: number, changes: Partial<AltUrlRow>) => {
+        onChange(value.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    };
+
+    return (
+        <Box>
+            <Typography variant='body2' color='text.secondary' gutterBottom>
+                备用链接
+            </Typography>
+            <Stack spacing={1.5}>
+                {value.map((row, index) => {
+                    const name = row.name.trim().toLowerCase();
+                    const nameError = name !== "" && !NETWORK_PROFILE_PATTERN.test(name);
+                    return (
+                        <Box key={index} sx={{ display: "flex", gap: 1, alignItems: "flex-start" }}>
+                            <TextField
+                                size='small'
+                                label='网络环境'
+                                placeholder='lan'
+                                value={row.name}
+                                onChange={e => updateRow(index, { name: e.target.value })}
+                                error={nameError}
+                                helperText={nameError ? "只能包含字母、数字、_ 和 -" : undefined}
+                                sx={{ width: 140, flexShrink: 0 }}
+                            />
+                            <TextField
+                                size='small'
+                                label='链接'
+                                placeholder='http://192.168.1.10:8080'
+                                type='url'
+                                fullWidth
+                                value={row.url}
+                                onChange={e => updateRow(index, { url: e.target.value })}
+                            />
+                            <IconButton
+                                aria-label='删除备用链接'
+                                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                            >
+                                <DeleteIcon fontSize='small' />
+                            </IconButton>
+                        </Box>
+                    );
+                })}
+            </Stack>
+            <Button
+                size='small'
+                startIcon={<AddIcon />}
+                disabled={value.length >= MAX_ALT_URLS_PER_SITE}
+                onClick={() => onChange([...value, { name: "", url: "" }])}
+                sx={{ mt: value.length > 0 ? 1 : 0 }}
+            >
+                添加备用链接
+            </Button>
+        </Box>
+    );
+};
+
+export default AltUrlsInput;
@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogContentText,
+    IconButton,
+    Table,
+    TableHead,
+    TableBody,
+    TableRow,
+    TableCell,
+    TableContainer,
+    Button,
+    Chip,
+    Alert,
+    Box,
+    CircularProgress,
+    Typography,
+    TextField,
+    FormGroup,
+    FormControlLabel,
+    Checkbox,
+    Stack,
+    Divider,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import AddIcon from "@mui/icons-material/Add";
+import { ApiToken, ApiTokenScope, CreateApiTokenRequest, CreatedApiToken } from "../API/http";
+
+interface ApiTokenDialogProps {
+    open: boolean;
+    onClose: () => void;
+    loadTokens: () => Promise<ApiToken[]>;
+    onCreate: (token: CreateApiTokenRequest) => Promise<CreatedApiToken>;
+    onRevoke: (tokenId: number) => Promise<void>;
+}
+
+// 权限范围说明
+const SCOPE_OPTIONS: { value: ApiTokenScope; label: string }[] = [
+    { value: "read", label: "read（读取分组、站点和配置）" },
+    { value: "write:sites", label: "write:sites（新增、修改、删除站点）" },
+    { value: "write:groups", label: "write:groups（新增、修改、删除分组）" },
+    { value: "admin", label: "admin（全部权限，包括配置和用户管理）" },
+];
+
+// 格式化Unix秒时间戳
+function formatTime(seconds: number | null): string {
+    return seconds ? new Date(seconds * 1000).toLocaleString() : "从未使用";
+}
+
+const ApiTokenDialog: React.FC<ApiTokenDialogProps> = ({
+    open,
+    onClose,
+    loadTokens,
+    onCreate,
+    onRevoke,
+}) => {
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [name, setName] = useState("");
+    const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+    const [creating, setCreating] = useState(false);
+    const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+    const fetchTokens = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            setTokens(await loadTokens());
+        } catch (error) {
+            setError("加载API令牌失败: " + (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [loadTokens]);
+
+    // 每次打开时刷新列表，并清除上次创建的令牌明文
+    useEffect(() => {
+        if (open) {
+            setName("");
+            setScopes(["read"]);
+            setCreatedToken(null);
+            fetchTokens();
+        }
+    }, [open, fetchTokens]);
+
+    const handleScopeChange = (scope: ApiTokenScope, checked: boolean) => {
+        setScopes(prev => (checked ? [...prev, scope] : prev.filter(item => item !== scope)));
+    };
+
+    const handleCreate = async () => {
+        if (!name.trim() || scopes.length === 0) return;
+        try {
+            setCreating(true);
+            setError(null);
+            const created = await onCreate({ name: name.trim(), scopes });
+            const { token, ...rest } = created;
+            setCreatedToken(token);
+            setTokens(prev => [...prev, rest]);
+            setName("");
+            setScopes(["read"]);
+        } catch (error) {
+            setError("创建API令牌失败: " + (error as Error).message);
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleRevoke = async (token: ApiToken) => {
+        if (!window.confirm(`确定要撤销令牌"${token.name}"吗？使用该令牌的脚本将无法继续访问。`)) {
+            return;
+        }
+        try {
+            await onRevoke(token.id);
+            setTokens(prev => prev.filter(item => item.id !== token.id));
+        } catch (error) {
+            setError("撤销API令牌失败: " + (error as Error).message);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!createdToken) return;
+        try {
+            await navigator.clipboard.writeText(createdToken);
+        } catch {
+            setError("复制失败，请手动选择令牌复制");
+        }
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth='md'
+            fullWidth
+            PaperProps={{
+                sx: {
+                    m: { xs: 2, sm: "auto" },
+                    width: { xs: "calc(100% - 32px)", sm: "auto" },
+                },
+            }}
+        >
+            <DialogTitle>
+                API 令牌
+                <IconButton
+                    aria-label='close'
+                    onClick={onClose}
+                    sx={{
+                        position: "absolute",
+                        right: 8,
+                        top: 8,
+                    }}
+                >
+                    <CloseIcon />
+                </IconButton>
+            </DialogTitle>
+            <DialogContent>
+                <DialogContentText sx={{ mb: 2 }}>
+                    API 令牌用于脚本和自动化，请求时放在 Authorization: Bearer 头中。令牌的权限不会超过您自己的角色。
+                </DialogContentText>
+
+                {error && (
+                    <Alert severity='error' sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                {createdToken && (
+                    <Alert
+                        severity='success'
+                        sx={{ mb: 2, wordBreak: "break-all" }}
+                        action={
+                            <IconButton size='small' aria-label='复制' onClick={handleCopy}>
+                                <ContentCopyIcon fontSize='small' />
+                            </IconButton>
+                        }
+                    >
+                        令牌已创建，请立即复制保存，关闭后将无法再次查看：
+                        <Box component='code' sx={{ display: "block", mt: 1, fontFamily: "monospace" }}>
+                            {createdToken}
+                        </Box>
+                    </Alert>
+                )}
+
+                {/* 创建令牌 */}
+                <Stack spacing={1} sx={{ mb: 3 }}>
+                    <TextField
+                        label='令牌名称'
+                        size='small'
+                        fullWidth
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        placeholder='例如：CI 自动添加站点'
+                    />
+                    <FormGroup>
+                        {SCOPE_OPTIONS.map(option => (
+                            <FormControlLabel
+                                key={option.value}
+                                control={
+                                    <Checkbox
+                                        size='small'
+                                        checked={scopes.includes(option.value)}
+                                        onChange={e =>
+                                            handleScopeChange(option.value, e.target.checked)
+                                        }
+                                    />
+                                }
+                                label={option.label}
+                            />
+                        ))}
+                    </FormGroup>
+                    <Box>
+                        <Button
+                            variant='contained'
+                            startIcon={creating ? <CircularProgress size={20} /> : <AddIcon />}
+                            disabled={creating || !name.trim() || scopes.length === 0}
+                            onClick={handleCreate}
+                        >
+                            创建令牌
+                        </Button>
+                    </Box>
+                </Stack>
+
+                <Divider sx={{ mb: 2 }} />
+
+                {loading ? (
+                    <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+                        <CircularProgress size={32} />
+                    </Box>
+                ) : tokens.length === 0 ? (
+                    <Typography variant='body2' color='text.secondary' sx={{ py: 2 }}>
+                        暂无API令牌
+                    </Typography>
+                ) : (
+                    <TableContainer>
+                        <Table size='small'>
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>名称</TableCell>
+                                    <TableCell>令牌</TableCell>
+                                    <TableCell>权限范围</TableCell>
+                                    <TableCell>最后使用</TableCell>
+                                    <TableCell align='right'>操作</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {tokens.map(token => (
+                                    <TableRow key={token.id}>
+                                        <TableCell>{token.name}</TableCell>
+                                        <TableCell sx={{ fontFamily: "monospace" }}>
+                                            {token.token_prefix}…
+                                        </TableCell>
+                                        <TableCell>
+                                            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5 }}>
+                                                {token.scopes.map(scope => (
+                                                    <Chip key={scope} label={scope} size='small' />
+                                                ))}
+                                            </Box>
+                                        </TableCell>
+                                        <TableCell>{formatTime(token.last_used_at)}</TableCell>
+                                        <TableCell align='right'>
+                                            <Button
+                                                size='small'
+                                                color='error'
+                                                variant='outlined'
+                                                onClick={() => handleRevoke(token)}
+                                            >
+                                                撤销
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default ApiTokenDialog;
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogContentText,
+    IconButton,
+    Table,
+    TableHead,
+    TableBody,
+    TableRow,
+    TableCell,
+    TableContainer,
+    TablePagination,
+    Button,
+    Chip,
+    Alert,
+    Box,
+    CircularProgress,
+    Typography,
+    TextField,
+    MenuItem,
+    Stack,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import {
+    AuditLog,
+    AuditLogQuery,
+    AuditLogPage,
+    AuditAction,
+    AuditEntityType,
+    AUDIT_ACTIONS,
+    AUDIT_ENTITY_TYPES,
+} from "../API/http";
+
+interface AuditLogDialogProps {
+    open: boolean;
+    onClose: () => void;
+    loadLogs: (query: AuditLogQuery) => Promise<AuditLogPage>;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+    create: "新增",
+    update: "修改",
+    delete: "删除",
+    reorder: "排序",
+    import: "导入",
+    restore: "恢复",
+    purge: "彻底删除",
+};
+
+const ACTION_COLORS: Record<AuditAction, "success" | "info" | "error" | "default" | "warning"> = {
+    create: "success",
+    update: "info",
+    delete: "error",
+    reorder: "default",
+    import: "warning",
+    restore: "success",
+    purge: "error",
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+    dashboard: "面板",
+    group: "分组",
+    site: "站点",
+    config: "配置",
+    user: "用户",
+    session: "会话",
+    api_token: "API令牌",
+    data: "全部数据",
+};
+
+const ROWS_PER_PAGE = 20;
+
+// 日期输入框的值（YYYY-MM-DD）转换为Unix秒，endOfDay表示取当天结束时刻
+function toUnixSeconds(date: string, endOfDay = false): number | undefined {
+    if (!date) return undefined;
+    const time = new Date(`${date}T${endOfDay ? "23:59:59" : "00:00:00"}`).getTime();
+    return isNaN(time) ? undefined : Math.floor(time / 1000);
+}
+
+// 格式化变更前后的值，过长的内容截断显示
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") return "（空）";
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+const AuditLogDialog: React.FC<AuditLogDialogProps> = ({ open, onClose, loadLogs }) => {
+    const [logs, setLogs] = useState<AuditLog[]>([]);
+    const [total, setTotal] = useState(0);
+    const [page, setPage] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // 过滤条件，点击"查询"后才生效
+    const [username, setUsername] = useState("");
+    const [action, setAction] = useState<AuditAction | "">("");
+    const [entityType, setEntityType] = useState<AuditEntityType | "">("");
+    const [since, setSince] = useState("");
+    const [until, setUntil] = useState("");
+    const [query, setQuery] = useState<AuditLogQuery>({});
+
+    const fetchLogs = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            const result = await loadLogs({
+                ...query,
+                limit: ROWS_PER_PAGE,
+                offset: page * ROWS_PER_PAGE,
+            });
+            setLogs(result.items);
+            setTotal(result.total);
+        } catch (error) {
+            setError("加载审计日志失败: " + (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [loadLogs, query, page]);
+
+    useEffect(() => {
+        if (open) {
+            fetchLogs();
+        }
+    }, [open, fetchLogs]);
+
+    const handleSearch = () => {
+        setPage(0);
+        setQuery({
+            username: username.trim() || undefined,
+            action: action || undefined,
+            entity_type: entityType || undefined,
+            since: toUnixSeconds(since),
+            until: toUnixSeconds(until, true),
+        });
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth='lg'
+            fullWidth
+            PaperProps={{
+                sx: {
+                    m: { xs: 2, sm: "auto" },
+                    width: { xs: "calc(100% - 32px)", sm: "auto" },
+                },
+            }}
+        >
+            <DialogTitle>
+                审计日志
+                <IconButton
+                    aria-label='close'
+                    onClick={onClose}
+                    sx={{
+                        position: "absolute",
+                        right: 8,
+                        top: 8,
+                    }}
+                >
+                    <CloseIcon />
+                </IconButton>
+            </DialogTitle>
+            <DialogContent>
+                <DialogContentText sx={{ mb: 2 }}>
+                    记录所有分组、站点、配置、用户的修改以及数据导入，包括操作者、IP、时间和字段变更。
+                </DialogContentText>
+
+                {/* 过滤条件 */}
+                <Stack direction={{ xs: "column", sm: "row" }} spacing={1} sx={{ mb: 2 }}>
+                    <TextField
+                        label='用户'
+                        size='small'
+                        value={username}
+                        onChange={e => setUsername(e.target.value)}
+                    />
+                    <TextField
+                        select
+                        label='操作'
+                        size='small'
+                        value={action}
+                        onChange={e => setAction(e.target.value as AuditAction | "")}
+                        sx={{ minWidth: 100 }}
+                    >
+                        <MenuItem value=''>全部</MenuItem>
+                        {AUDIT_ACTIONS.map(item => (
+                            <MenuItem key={item} value={item}>
+                                {ACTION_LABELS[item]}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                    <TextField
+                        select
+                        label='对象'
+                        size='small'
+                        value={entityType}
+                        onChange={e => setEntityType(e.target.value as AuditEntityType | "")}
+                        sx={{ minWidth: 100 }}
+                    >
+                        <MenuItem value=''>全部</MenuItem>
+                        {AUDIT_ENTITY_TYPES.map(item => (
+                            <MenuItem key={item} value={item}>
+                                {ENTITY_LABELS[item]}
+                            </MenuItem>
+                        ))}
+                    </TextField>
+                    <TextField
+                        label='开始日期'
+                        type='date'
+                        size='small'
+                        value={since}
+                        onChange={e => setSince(e.target.value)}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                    />
+                    <TextField
+                        label='结束日期'
+                        type='date'
+                        size='small'
+                        value={until}
+                        onChange={e => setUntil(e.target.value)}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                    />
+                    <Button variant='contained' onClick={handleSearch} disabled={loading}>
+                        查询
+                    </Button>
+                </Stack>
+
+                {error && (
+                    <Alert severity='error' sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                {loading ? (
+                    <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+                        <CircularProgress size={32} />
+                    </Box>
+                ) : logs.length === 0 ? (
+                    <Typography variant='body2' color='text.secondary' sx={{ py: 2 }}>
+                        暂无审计日志
+                    </Typography>
+                ) : (
+                    <TableContainer>
+                        <Table size='small'>
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>时间</TableCell>
+                                    <TableCell>用户</TableCell>
+                                    <TableCell>IP</TableCell>
+                                    <TableCell>操作</TableCell>
+                                    <TableCell>对象</TableCell>
+                                    <TableCell>变更</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {logs.map(log => (
+                                    <TableRow key={log.id} sx={{ verticalAlign: "top" }}>
+                                        <TableCell sx={{ whiteSpace: "nowrap" }}>
+                                            {new Date(log.created_at * 1000).toLocaleString()}
+                                        </TableCell>
+                                        <TableCell>{log.username}</TableCell>
+                                        <TableCell>{log.ip || "-"}</TableCell>
+                                        <TableCell>
+                                            <Chip
+                                                label={ACTION_LABELS[log.action] || log.action}
+                                                color={ACTION_COLORS[log.action] || "default"}
+                                                size='small'
+                                            />
+                                        </TableCell>
+                                        <TableCell sx={{ whiteSpace: "nowrap" }}>
+                                            {ENTITY_LABELS[log.entity_type] || log.entity_type}
+                                            {log.entity_id ? ` #${log.entity_id}` : ""}
+                                        </TableCell>
+                                        <TableCell>
+                                            {Object.entries(log.changes).map(([field, change]) => (
+                                                <Typography
+                                                    key={field}
+                                                    variant='body2'
+                                                    sx={{ wordBreak: "break-all" }}
+                                                >
+                                                    <strong>{field}</strong>:{" "}
+                                                    {formatValue(change.before)} →{" "}
+                                                    {formatValue(change.after)}
+                                                </Typography>
+                                            ))}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+
+                <TablePagination
+                    component='div'
+                    count={total}
+                    page={page}
+                    onPageChange={(_, newPage) => setPage(newPage)}
+                    rowsPerPage={ROWS_PER_PAGE}
+                    rowsPerPageOptions={[ROWS_PER_PAGE]}
+                    labelDisplayedRows={({ from, to, count }) => `${from}-${to} / 共 ${count} 条`}
+                />
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default AuditLogDialog;
@@ -0,0 +1,61 @@
+import React from "react";
+import { Stack, TextField } from "@mui/material";
+import { CustomField, CustomFieldValues, validateCustomFieldValue } from "../API/http";
+
+interface CustomFieldInputsProps {
+    fields: CustomField[];
+    value: CustomFieldValues;
+    onChange: (values: CustomFieldValues) => void;
+}
+
+// 输入框类型，必填和链接格式由表单提交时的浏览器校验检查
+const INPUT_TYPES: Record<CustomField["type"], string> = {
+    text: "text",
+    number: "number",
+    url: "url",
+    date: "date",
+};
+
+// 按字段定义渲染自定义字段的输入框，数字字段的值转换为数字
+const CustomFieldInputs: React.FC<CustomFieldInputsProps> = ({ fields, value, onChange }) => {
+    const handleChange = (field: CustomField, input: string) => {
+        const next = { ...value };
+        if (input === "") {
+            delete next[field.name];
+        } else {
+            next[field.name] = field.type === "number" ? Number(input) : input;
+        }
+        onChange(next);
+    };
+
+    return (
+        <Stack spacing={2.5}>
+            {fields.map(field => {
+                const current = value[field.name];
+                // 空值由required属性提示，这里只显示格式错误
+                const error =
+                    current === undefined ? null : validateCustomFieldValue(field, current);
+                return (
+                    <TextField
+                        key={field.name}
+                        label={field.name}
+                        required={field.required}
+                        fullWidth
+                        size='small'
+                        variant='outlined'
+                        type={INPUT_TYPES[field.type]}
+                        value={current ?? ""}
+                        onChange={e => handleChange(field, e.target.value)}
+                        error={!!error}
+                        helperText={error || undefined}
+                        slotProps={
+                            field.type === "date" ? { inputLabel: { shrink: true } } : undefined
+                        }
+                    />
+                );
+            })}
+        </Stack>
+    );
+};
+
+export default CustomFieldInputs;
@@ -0,0 +1,202 @@
+import React, { useState, useEffect } from "react";
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogContentText,
+    DialogActions,
+    IconButton,
+    Button,
+    Alert,
+    Box,
+    Stack,
+    TextField,
+    Select,
+    MenuItem,
+    FormControl,
+    InputLabel,
+    FormControlLabel,
+    Checkbox,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteIcon from "@mui/icons-material/Delete";
+import {
+    CustomField,
+    CustomFieldType,
+    CUSTOM_FIELD_TYPES,
+    MAX_CUSTOM_FIELDS,
+    MAX_CUSTOM_FIELD_NAME_LENGTH,
+} from "../API/http";
+
+interface CustomFieldSchemaDialogProps {
+    open: boolean;
+    onClose: () => void;
+    fields: CustomField[];
+    onSave: (fields: CustomField[]) => Promise<void>;
+}
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+    text: "文本",
+    number: "数字",
+    url: "链接",
+    date: "日期",
+};
+
+// 自定义字段定义：管理员定义一次，所有站点的设置中都会显示这些字段
+const CustomFieldSchemaDialog: React.FC<CustomFieldSchemaDialogProps> = ({
+    open,
+    onClose,
+    fields,
+    onSave,
+}) => {
+    const [rows, setRows] = useState<CustomField[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    // 每次打开时从当前定义开始编辑
+    useEffect(() => {
+        if (open) {
+            setRows(fields);
+            setError(null);
+        }
+    }, [open, fields]);
+
+    const updateRow = (index: number, changes: Partial<CustomField>) => {
+        setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    };
+
+    const handleSave = async () => {
+        const trimmed = rows.map(row => ({ ...row, name: row.name.trim() }));
+        const names = trimmed.map(row => row.name);
+        if (names.some(name => !name)) {
+            setError("字段名称不能为空");
+            return;
+        }
+        if (new Set(names).size !== names.length) {
+            setError("字段名称不能重复");
+            return;
+        }
+
+        try {
+            setSaving(true);
+            setError(null);
+            await onSave(trimmed);
+            onClose();
+        } catch (error) {
+            setError("保存自定义字段失败: " + (error as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth='md'
+            fullWidth
+            PaperProps={{
+                sx: {
+                    m: { xs: 2, sm: "auto" },
+                    width: { xs: "calc(100% - 32px)", sm: "auto" },
+                },
+            }}
+        >
+            <DialogTitle>
+                自定义字段
+                <IconButton
+                    aria-label='close'
+                    onClick={onClose}
+                    sx={{
+                        position: "absolute",
+                        right: 8,
+                        top: 8,
+                    }}
+                >
+                    <CloseIcon />
+                </IconButton>
+            </DialogTitle>
+            <DialogContent>
+                <DialogContentText sx={{ mb: 2 }}>
+                    为网站添加负责人、环境、工单链接、到期日期等结构化信息。字段会显示在网站设置中，
+                    有值的字段在鼠标悬停在网站卡片上时显示。修改字段名称后，原名称下保存的值不再显示。
+                </DialogContentText>
+
+                {error && (
+                    <Alert severity='error' sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                <Stack spacing={1.5}>
+                    {rows.map((row, index) => (
+                        <Box key={index} sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+                            <TextField
+                                size='small'
+                                label='字段名称'
+                                value={row.name}
+                                onChange={e => updateRow(index, { name: e.target.value })}
+                                slotProps={{
+                                    htmlInput: { maxLength: MAX_CUSTOM_FIELD_NAME_LENGTH },
+                                }}
+                                sx={{ flex: 1 }}
+                            />
+                            <FormControl size='small' sx={{ width: 120 }}>
+                                <InputLabel id={`custom-field-type-${index}`}>类型</InputLabel>
+                                <Select
+                                    labelId={`custom-field-type-${index}`}
+                                    value={row.type}
+                                    label='类型'
+                                    onChange={e =>
+                                        updateRow(index, { type: e.target.value as CustomFieldType })
+                                    }
+                                >
+                                    {CUSTOM_FIELD_TYPES.map(type => (
+                                        <MenuItem key={type} value={type}>
+                                            {TYPE_LABELS[type]}
+                                        </MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                            <FormControlLabel
+                                control={
+                                    <Checkbox
+                                        checked={row.required}
+                                        onChange={e => updateRow(index, { required: e.target.checked })}
+                                    />
+                                }
+                                label='必填'
+                            />
+                            <IconButton
+                                aria-label='删除字段'
+                                onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                            >
+                                <DeleteIcon fontSize='small' />
+                            </IconButton>
+                        </Box>
+                    ))}
+                </Stack>
+                <Button
+                    size='small'
+                    startIcon={<AddIcon />}
+                    disabled={rows.length >= MAX_CUSTOM_FIELDS}
+                    onClick={() => setRows([...rows, { name: "", type: "text", required: false }])}
+                    sx={{ mt: rows.length > 0 ? 1.5 : 0 }}
+                >
+                    添加字段
+                </Button>
+            </DialogContent>
+            <DialogActions sx={{ px: 3, pb: 3 }}>
+                <Button onClick={onClose} variant='outlined'>
+                    取消
+                </Button>
+                <Button onClick={handleSave} variant='contained' color='primary' disabled={saving}>
+                    保存
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default CustomFieldSchemaDialog;
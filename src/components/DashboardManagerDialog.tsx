@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from "react";
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogContentText,
+    IconButton,
+    Table,
+    TableHead,
+    TableBody,
+    TableRow,
+    TableCell,
+    TableContainer,
+    Button,
+    Alert,
+    Stack,
+    TextField,
+    Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteIcon from "@mui/icons-material/Delete";
+import { Dashboard, DASHBOARD_SLUG_PATTERN } from "../API/http";
+
+interface DashboardManagerDialogProps {
+    open: boolean;
+    onClose: () => void;
+    dashboards: Dashboard[];
+    onCreate: (name: string, slug: string) => Promise<void>;
+    onDelete: (dashboardId: number) => Promise<void>;
+}
+
+// 面板地址，第一个面板同时作为首页
+function getDashboardPath(dashboard: Dashboard, index: number): string {
+    return index === 0 ? `/ 或 /d/${dashboard.slug}` : `/d/${dashboard.slug}`;
+}
+
+const DashboardManagerDialog: React.FC<DashboardManagerDialogProps> = ({
+    open,
+    onClose,
+    dashboards,
+    onCreate,
+    onDelete,
+}) => {
+    const [name, setName] = useState("");
+    const [slug, setSlug] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    // 每次打开时清空表单
+    useEffect(() => {
+        if (open) {
+            setName("");
+            setSlug("");
+            setError(null);
+        }
+    }, [open]);
+
+    const slugValid = DASHBOARD_SLUG_PATTERN.test(slug);
+
+    // 执行操作，操作进行中禁用所有按钮
+    const runAction = async (action: () => Promise<void>, failure: string) => {
+        try {
+            setBusy(true);
+            setError(null);
+            await action();
+            return true;
+        } catch (error) {
+            setError(`${failure}: ${(error as Error).message}`);
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        if (await runAction(() => onCreate(name.trim(), slug), "创建面板失败")) {
+            setName("");
+            setSlug("");
+        }
+    };
+
+    const handleDelete = (dashboard: Dashboard) => {
+        if (!window.confirm(`确定要删除面板 "${dashboard.name}" 吗？`)) {
+            return;
+        }
+        runAction(() => onDelete(dashboard.id!), "删除面板失败");
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth='md'
+            fullWidth
+            PaperProps={{
+                sx: {
+                    m: { xs: 2, sm: "auto" },
+                    width: { xs: "calc(100% - 32px)", sm: "auto" },
+                },
+            }}
+        >
+            <DialogTitle>
+                管理面板
+                <IconButton
+                    aria-label='close'
+                    onClick={onClose}
+                    sx={{
+                        position: "absolute",
+                        right: 8,
+                        top: 8,
+                    }}
+                >
+                    <CloseIcon />
+                </IconButton>
+            </DialogTitle>
+            <DialogContent>
+                <DialogContentText sx={{ mb: 2 }}>
+                    每个面板有独立的分组、名称、标题和自定义样式，通过各自的地址访问。
+                    切换到面板后可以在"面板设置"中修改它的名称和外观；只能删除没有分组的面板。
+                </DialogContentText>
+
+                {error && (
+                    <Alert severity='error' sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                <TableContainer sx={{ mb: 3 }}>
+                    <Table size='small'>
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>名称</TableCell>
+                                <TableCell>地址</TableCell>
+                                <TableCell align='right'>操作</TableCell>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {dashboards.map((dashboard, index) => (
+                                <TableRow key={dashboard.id}>
+                                    <TableCell>{dashboard.name}</TableCell>
+                                    <TableCell>
+                                        <Typography variant='body2' fontFamily='monospace'>
+                                            {getDashboardPath(dashboard, index)}
+                                        </Typography>
+                                    </TableCell>
+                                    <TableCell align='right'>
+                                        <Button
+                                            size='small'
+                                            color='error'
+                                            variant='outlined'
+                                            startIcon={<DeleteIcon />}
+                                            disabled={busy || dashboards.length <= 1}
+                                            onClick={() => handleDelete(dashboard)}
+                                        >
+                                            删除
+                                        </Button>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </TableContainer>
+
+                <Typography variant='subtitle2' sx={{ mb: 1 }}>
+                    新建面板
+                </Typography>
+                <Stack direction={{ xs: "column", sm: "row" }} spacing={2} alignItems='flex-start'>
+                    <TextField
+                        label='面板名称'
+                        size='small'
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        sx={{ flex: 1 }}
+                    />
+                    <TextField
+                        label='路径'
+                        size='small'
+                        value={slug}
+                        onChange={e => setSlug(e.target.value.toLowerCase())}
+                        error={slug !== "" && !slugValid}
+                        helperText={`访问地址为 /d/${slug || "路径"}，只能包含小写字母、数字和连字符`}
+                        sx={{ flex: 1 }}
+                    />
+                    <Button
+                        variant='contained'
+                        startIcon={<AddIcon />}
+                        disabled={busy || !name.trim() || !slugValid}
+                        onClick={handleCreate}
+                    >
+                        创建
+                    </Button>
+                </Stack>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default DashboardManagerDialog;
@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { Button, Menu, MenuItem, Divider, ListItemIcon, ListItemText } from "@mui/material";
+import DashboardIcon from "@mui/icons-material/Dashboard";
+import ArrowDropDownIcon from "@mui/icons-material/ArrowDropDown";
+import CheckIcon from "@mui/icons-material/Check";
+import SettingsIcon from "@mui/icons-material/Settings";
+import { Dashboard } from "../API/http";
+
+interface DashboardSwitcherProps {
+    dashboards: Dashboard[];
+    current: Dashboard | null;
+    onSwitch: (dashboard: Dashboard) => void;
+    onManage?: () => void; // 未提供时不显示管理入口
+}
+
+// 面板切换菜单，显示在页面顶部
+const DashboardSwitcher: React.FC<DashboardSwitcherProps> = ({
+    dashboards,
+    current,
+    onSwitch,
+    onManage,
+}) => {
+    const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+
+    const handleSelect = (dashboard: Dashboard) => {
+        setAnchorEl(null);
+        if (dashboard.id !== current?.id) {
+            onSwitch(dashboard);
+        }
+    };
+
+    const handleManage = () => {
+        setAnchorEl(null);
+        onManage?.();
+    };
+
+    return (
+        <>
+            <Button
+                variant='outlined'
+                color='inherit'
+                startIcon={<DashboardIcon />}
+                endIcon={<ArrowDropDownIcon />}
+                onClick={event => setAnchorEl(event.currentTarget)}
+                aria-controls={anchorEl ? "dashboard-menu" : undefined}
+                aria-haspopup='true'
+                size='small'
+                sx={{
+                    minWidth: "auto",
+                    fontSize: { xs: "0.75rem", sm: "0.875rem" },
+                }}
+            >
+                {current?.name || "面板"}
+            </Button>
+            <Menu
+                id='dashboard-menu'
+                anchorEl={anchorEl}
+                open={Boolean(anchorEl)}
+                onClose={() => setAnchorEl(null)}
+            >
+                {dashboards.map(dashboard => (
+                    <MenuItem
+                        key={dashboard.id}
+                        selected={dashboard.id === current?.id}
+                        onClick={() => handleSelect(dashboard)}
+                    >
+                        <ListItemIcon>
+                            {dashboard.id === current?.id && <CheckIcon fontSize='small' />}
+                        </ListItemIcon>
+                        <ListItemText>{dashboard.name}</ListItemText>
+                    </MenuItem>
+                ))}
+                {onManage && <Divider />}
+                {onManage && (
+                    <MenuItem onClick={handleManage}>
+                        <ListItemIcon>
+                            <SettingsIcon fontSize='small' />
+                        </ListItemIcon>
+                        <ListItemText>管理面板</ListItemText>
+                    </MenuItem>
+                )}
+            </Menu>
+        </>
+    );
+};
+
+export default DashboardSwitcher;
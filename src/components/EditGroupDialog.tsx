@@ -9,15 +9,32 @@ import {
     Typography,
     Box,
     Alert,
+    FormControl,
+    InputLabel,
+    Select,
+    MenuItem,
+    RadioGroup,
+    Radio,
+    FormControlLabel,
 } from "@mui/material";
-import { Group } from "../API/http";
+import { Group, GroupVisibility, GroupDeleteMode, Dashboard } from "../API/http";
+import GroupParentSelect from "./GroupParentSelect";
+
+// 可见性选项说明
+const VISIBILITY_OPTIONS: { value: GroupVisibility; label: string }[] = [
+    { value: "public", label: "公开（所有人可见）" },
+    { value: "private", label: "仅登录用户可见" },
+    { value: "hidden", label: "隐藏（仅编辑者和管理员可见）" },
+];
 
 interface EditGroupDialogProps {
     open: boolean;
     group: Group | null;
     onClose: () => void;
     onSave: (group: Group) => void;
-    onDelete: (groupId: number) => void;
+    onDelete: (groupId: number, children: GroupDeleteMode) => void;
+    groups?: Group[]; // 所有分组，用于选择上级分组
+    dashboards?: Dashboard[]; // 多于一个面板时可以将分组移动到其他面板
 }
 
 const EditGroupDialog: React.FC<EditGroupDialogProps> = ({
@@ -26,25 +43,43 @@ const EditGroupDialog: React.FC<EditGroupDialogProps> = ({
     onClose,
     onSave,
     onDelete,
+    groups = [],
+    dashboards = [],
 }) => {
     const [name, setName] = useState("");
+    const [visibility, setVisibility] = useState<GroupVisibility>("public");
+    const [parentId, setParentId] = useState<number | null>(null);
+    const [dashboardId, setDashboardId] = useState<number | undefined>(undefined);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+    const [deleteMode, setDeleteMode] = useState<GroupDeleteMode>("promote");
+
+    const childCount = group ? groups.filter(item => item.parent_id === group.id).length : 0;
 
     // 当弹窗打开时，初始化名称
     React.useEffect(() => {
         if (group) {
             setName(group.name);
+            setVisibility(group.visibility || "public");
+            setParentId(group.parent_id ?? null);
+            setDashboardId(group.dashboard_id);
         }
         // 关闭删除确认状态
         setShowDeleteConfirm(false);
+        setDeleteMode("promote");
     }, [group, open]);
 
+    // 移动到其他面板时子分组一起移动，分组成为目标面板的顶级分组
+    const movingDashboard = dashboardId !== group?.dashboard_id;
+
     const handleSave = () => {
         if (!group || !name.trim()) return;
         
         onSave({
             ...group,
             name: name.trim(),
+            visibility,
+            parent_id: movingDashboard ? null : parentId,
+            dashboard_id: dashboardId,
         });
     };
 
@@ -56,7 +91,7 @@ const EditGroupDialog: React.FC<EditGroupDialogProps> = ({
             setShowDeleteConfirm(true);
         } else {
             // 确认删除
-            onDelete(group.id!);
+            onDelete(group.id!, deleteMode);
         }
     };
 
@@ -77,13 +112,75 @@ const EditGroupDialog: React.FC<EditGroupDialogProps> = ({
                     />
                 </Box>
 
+                <FormControl fullWidth sx={{ mb: 2 }}>
+                    <InputLabel id="group-visibility-label">可见性</InputLabel>
+                    <Select
+                        labelId="group-visibility-label"
+                        value={visibility}
+                        label="可见性"
+                        onChange={(e) => setVisibility(e.target.value as GroupVisibility)}
+                    >
+                        {VISIBILITY_OPTIONS.map((option) => (
+                            <MenuItem key={option.value} value={option.value}>
+                                {option.label}
+                            </MenuItem>
+                        ))}
+                    </Select>
+                </FormControl>
+
+                {dashboards.length > 1 && (
+                    <FormControl fullWidth sx={{ mb: 2 }}>
+                        <InputLabel id="group-dashboard-label">所属面板</InputLabel>
+                        <Select
+                            labelId="group-dashboard-label"
+                            value={dashboardId ?? ""}
+                            label="所属面板"
+                            onChange={(e) => setDashboardId(Number(e.target.value))}
+                        >
+                            {dashboards.map((dashboard) => (
+                                <MenuItem key={dashboard.id} value={dashboard.id}>
+                                    {dashboard.name}
+                                </MenuItem>
+                            ))}
+                        </Select>
+                    </FormControl>
+                )}
+
+                {groups.length > 1 && !movingDashboard && (
+                    <GroupParentSelect
+                        groups={groups}
+                        value={parentId}
+                        onChange={setParentId}
+                        excludeId={group.id}
+                        sx={{ mb: 2 }}
+                    />
+                )}
+
                 {showDeleteConfirm && (
                     <Alert severity="warning" sx={{ mt: 2 }}>
                         <Typography variant="body2">
                             确定要删除分组 "{group.name}" 吗？
-                            <strong>删除此分组将同时删除该分组下的所有网站。</strong>
-                            此操作无法撤销。
+                            <strong>该分组下的所有网站会随分组一起移入回收站。</strong>
+                            可以在"回收站"中恢复。
                         </Typography>
+                        {childCount > 0 && (
+                            <RadioGroup
+                                value={deleteMode}
+                                onChange={(e) => setDeleteMode(e.target.value as GroupDeleteMode)}
+                                sx={{ mt: 1 }}
+                            >
+                                <FormControlLabel
+                                    value="promote"
+                                    control={<Radio size="small" />}
+                                    label={`将 ${childCount} 个子分组移动到上一级`}
+                                />
+                                <FormControlLabel
+                                    value="cascade"
+                                    control={<Radio size="small" />}
+                                    label="将所有子分组及其网站一起移入回收站"
+                                />
+                            </RadioGroup>
+                        )}
                     </Alert>
                 )}
             </DialogContent>
@@ -1,7 +1,7 @@
-import React, { useState } from "react";
-import { Site, Group } from "../API/http";
+import React, { useState, useEffect } from "react";
+import { Site, Group, Dashboard, GroupDeleteMode, SiteRevision, CustomField } from "../API/http";
 import SiteCard from "./SiteCard";
-import { GroupWithSites } from "../types";
+import { GroupTreeNode } from "../types";
 import EditGroupDialog from "./EditGroupDialog";
 import {
     DndContext,
@@ -20,29 +20,47 @@ import {
     horizontalListSortingStrategy,
 } from "@dnd-kit/sortable";
 // 引入Material UI组件
-import { Paper, Typography, Button, Box, IconButton, Tooltip } from "@mui/material";
+import { Paper, Typography, Button, Box, IconButton, Tooltip, Collapse, Stack } from "@mui/material";
 import SortIcon from "@mui/icons-material/Sort";
 import SaveIcon from "@mui/icons-material/Save";
 import AddIcon from "@mui/icons-material/Add";
 import EditIcon from "@mui/icons-material/Edit";
+import LockIcon from "@mui/icons-material/Lock";
+import VisibilityOffIcon from "@mui/icons-material/VisibilityOff";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import ExpandLessIcon from "@mui/icons-material/ExpandLess";
 
 // 更新组件属性接口
 interface GroupCardProps {
-    group: GroupWithSites;
+    group: GroupTreeNode;
+    groups?: Group[]; // 所有分组，用于在编辑弹窗中选择上级分组
+    dashboards?: Dashboard[]; // 所有面板，用于在编辑弹窗中移动分组
+    resolveUrl?: (site: Site) => string; // 按网络环境选择点击站点时打开的链接
+    customFields?: CustomField[]; // 站点自定义字段定义
+    depth?: number; // 分组层级，顶级分组为0
     index?: number; // 用于Draggable的索引，仅在分组排序模式下需要
     sortMode: "None" | "GroupSort" | "SiteSort";
     currentSortingGroupId: number | null;
-    onUpdate: (updatedSite: Site) => void;
-    onDelete: (siteId: number) => void;
+    onUpdate?: (updatedSite: Site) => void; // 未提供时站点卡片不可编辑
+    onDelete?: (siteId: number) => void;
     onSaveSiteOrder: (groupId: number, sites: Site[]) => void;
-    onStartSiteSort: (groupId: number) => void;
+    onStartSiteSort?: (groupId: number) => void; // 未提供时不显示排序按钮
     onAddSite?: (groupId: number) => void; // 新增添加卡片的可选回调函数
     onUpdateGroup?: (group: Group) => void; // 更新分组的回调函数
-    onDeleteGroup?: (groupId: number) => void; // 删除分组的回调函数
+    onDeleteGroup?: (groupId: number, children: GroupDeleteMode) => void; // 删除分组的回调函数
+    loadRevisions?: (siteId: number) => Promise<SiteRevision[]>; // 站点历史版本
+    onRestoreRevision?: (siteId: number, revisionId: number) => Promise<void>;
+    onUploadIcon?: (file: Blob) => Promise<string>; // 上传图标，返回图标地址
+    onDiscoverIcon?: (url: string) => Promise<string>; // 自动获取网站图标，返回图标地址
 }
 
 const GroupCard: React.FC<GroupCardProps> = ({
     group,
+    groups,
+    dashboards,
+    resolveUrl,
+    customFields,
+    depth = 0,
     sortMode,
     currentSortingGroupId,
     onUpdate,
@@ -52,11 +70,22 @@ const GroupCard: React.FC<GroupCardProps> = ({
     onAddSite,
     onUpdateGroup,
     onDeleteGroup,
+    loadRevisions,
+    onRestoreRevision,
+    onUploadIcon,
+    onDiscoverIcon,
 }) => {
     // 添加本地状态来管理站点排序
     const [sites, setSites] = useState<Site[]>(group.sites);
+
+    // 站点列表变化（重新加载或标签筛选）时同步本地状态
+    useEffect(() => {
+        setSites(group.sites);
+    }, [group.sites]);
     // 添加编辑弹窗的状态
     const [editDialogOpen, setEditDialogOpen] = useState(false);
+    // 子分组默认展开
+    const [childrenExpanded, setChildrenExpanded] = useState(true);
 
     // 配置传感器，支持鼠标、触摸和键盘操作
     const sensors = useSensors(
@@ -109,9 +138,9 @@ const GroupCard: React.FC<GroupCardProps> = ({
     };
 
     // 删除分组处理函数
-    const handleDeleteGroup = (groupId: number) => {
+    const handleDeleteGroup = (groupId: number, children: GroupDeleteMode) => {
         if (onDeleteGroup) {
-            onDeleteGroup(groupId);
+            onDeleteGroup(groupId, children);
             setEditDialogOpen(false);
         }
     };
@@ -170,6 +199,13 @@ const GroupCard: React.FC<GroupCardProps> = ({
                                             onDelete={onDelete}
                                             isEditMode={true}
                                             index={idx}
+                                            groups={groups}
+                                            resolveUrl={resolveUrl}
+                                            customFields={customFields}
+                                            loadRevisions={loadRevisions}
+                                            onRestoreRevision={onRestoreRevision}
+                                            onUploadIcon={onUploadIcon}
+                                            onDiscoverIcon={onDiscoverIcon}
                                         />
                                     </Box>
                                 ))}
@@ -209,6 +245,13 @@ const GroupCard: React.FC<GroupCardProps> = ({
                             onUpdate={onUpdate}
                             onDelete={onDelete}
                             isEditMode={false}
+                            groups={groups}
+                            resolveUrl={resolveUrl}
+                            customFields={customFields}
+                            loadRevisions={loadRevisions}
+                            onRestoreRevision={onRestoreRevision}
+                            onUploadIcon={onUploadIcon}
+                            onDiscoverIcon={onDiscoverIcon}
                         />
                     </Box>
                 ))}
@@ -221,20 +264,25 @@ const GroupCard: React.FC<GroupCardProps> = ({
         onSaveSiteOrder(group.id!, sites);
     };
 
-    // 正常模式或站点排序模式下渲染完整的分组卡片
+    const isNested = depth > 0;
+
+    // 正常模式或站点排序模式下渲染完整的分组卡片，子分组以带边框的卡片嵌套显示
     return (
         <Paper
-            elevation={sortMode === "None" ? 2 : 3}
+            elevation={isNested ? 0 : sortMode === "None" ? 2 : 3}
+            variant={isNested ? "outlined" : "elevation"}
             sx={{
-                borderRadius: 4,
-                p: { xs: 2, sm: 3 },
+                borderRadius: isNested ? 3 : 4,
+                p: { xs: 2, sm: isNested ? 2.5 : 3 },
                 transition: "all 0.3s ease-in-out",
-                border: "1px solid transparent",
-                "&:hover": {
-                    boxShadow: sortMode === "None" ? 6 : 3,
-                    borderColor: "divider",
-                    transform: sortMode === "None" ? "scale(1.01)" : "none",
-                },
+                border: isNested ? undefined : "1px solid transparent",
+                "&:hover": isNested
+                    ? { borderColor: "primary.light" }
+                    : {
+                          boxShadow: sortMode === "None" ? 6 : 3,
+                          borderColor: "divider",
+                          transform: sortMode === "None" ? "scale(1.01)" : "none",
+                      },
             }}
         >
             <Box 
@@ -246,13 +294,36 @@ const GroupCard: React.FC<GroupCardProps> = ({
                 gap={1}
             >
                 <Typography 
-                    variant='h5' 
-                    component='h2' 
+                    variant={isNested ? 'h6' : 'h5'} 
+                    component={isNested ? 'h3' : 'h2'} 
                     fontWeight='600' 
                     color='text.primary'
-                    sx={{ mb: { xs: 1, sm: 0 } }}
+                    sx={{ mb: { xs: 1, sm: 0 }, display: 'flex', alignItems: 'center', gap: 1 }}
                 >
                     {group.name}
+                    {/* 非公开分组的可见性标识 */}
+                    {group.visibility === "private" && (
+                        <Tooltip title="仅登录用户可见">
+                            <LockIcon fontSize="small" color="action" />
+                        </Tooltip>
+                    )}
+                    {group.visibility === "hidden" && (
+                        <Tooltip title="隐藏分组，仅编辑者和管理员可见">
+                            <VisibilityOffIcon fontSize="small" color="action" />
+                        </Tooltip>
+                    )}
+                    {group.children.length > 0 && (
+                        <Tooltip title={childrenExpanded ? "收起子分组" : `展开 ${group.children.length} 个子分组`}>
+                            <IconButton
+                                size="small"
+                                onClick={() => setChildrenExpanded(!childrenExpanded)}
+                                aria-expanded={childrenExpanded}
+                                aria-label="切换子分组"
+                            >
+                                {childrenExpanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+                            </IconButton>
+                        </Tooltip>
+                    )}
                 </Typography>
 
                 <Box 
@@ -297,19 +368,21 @@ const GroupCard: React.FC<GroupCardProps> = ({
                                         添加卡片
                                     </Button>
                                 )}
-                                <Button
-                                    variant='outlined'
-                                    color='primary'
-                                    size='small'
-                                    startIcon={<SortIcon />}
-                                    onClick={() => onStartSiteSort(group.id!)}
-                                    sx={{ 
-                                        minWidth: 'auto',
-                                        fontSize: { xs: '0.75rem', sm: '0.875rem' }
-                                    }}
-                                >
-                                    排序
-                                </Button>
+                                {onStartSiteSort && (
+                                    <Button
+                                        variant='outlined'
+                                        color='primary'
+                                        size='small'
+                                        startIcon={<SortIcon />}
+                                        onClick={() => onStartSiteSort(group.id!)}
+                                        sx={{ 
+                                            minWidth: 'auto',
+                                            fontSize: { xs: '0.75rem', sm: '0.875rem' }
+                                        }}
+                                    >
+                                        排序
+                                    </Button>
+                                )}
                                 
                                 {onUpdateGroup && onDeleteGroup && (
                                     <Tooltip title="编辑分组">
@@ -332,6 +405,38 @@ const GroupCard: React.FC<GroupCardProps> = ({
             {/* 站点卡片区域 */}
             {renderSites()}
 
+            {/* 子分组区域 */}
+            {group.children.length > 0 && (
+                <Collapse in={childrenExpanded} unmountOnExit>
+                    <Stack spacing={2.5} sx={{ mt: 3 }}>
+                        {group.children.map(child => (
+                            <GroupCard
+                                key={`group-${child.id}`}
+                                group={child}
+                                groups={groups}
+                                dashboards={dashboards}
+                                resolveUrl={resolveUrl}
+                                customFields={customFields}
+                                depth={depth + 1}
+                                sortMode={sortMode}
+                                currentSortingGroupId={currentSortingGroupId}
+                                onUpdate={onUpdate}
+                                onDelete={onDelete}
+                                onSaveSiteOrder={onSaveSiteOrder}
+                                onStartSiteSort={onStartSiteSort}
+                                onAddSite={onAddSite}
+                                onUpdateGroup={onUpdateGroup}
+                                onDeleteGroup={onDeleteGroup}
+                                loadRevisions={loadRevisions}
+                                onRestoreRevision={onRestoreRevision}
+                                onUploadIcon={onUploadIcon}
+                                onDiscoverIcon={onDiscoverIcon}
+                            />
+                        ))}
+                    </Stack>
+                </Collapse>
+            )}
+
             {/* 编辑分组弹窗 */}
             {onUpdateGroup && onDeleteGroup && (
                 <EditGroupDialog
@@ -340,6 +445,8 @@ const GroupCard: React.FC<GroupCardProps> = ({
                     onClose={() => setEditDialogOpen(false)}
                     onSave={handleUpdateGroup}
                     onDelete={handleDeleteGroup}
+                    groups={groups}
+                    dashboards={dashboards}
                 />
             )}
         </Paper>
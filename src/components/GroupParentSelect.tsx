@@ -0,0 +1,66 @@
+import React from "react";
+import { FormControl, InputLabel, Select, MenuItem, SxProps, Theme } from "@mui/material";
+import { Group, GroupNode, buildGroupTree, flattenGroupTree } from "../API/http";
+
+interface GroupParentSelectProps {
+    groups: Group[]; // 所有分组
+    value: number | null;
+    onChange: (parentId: number | null) => void;
+    excludeId?: number; // 编辑中的分组，自身及其下级分组不能作为上级
+    label?: string;
+    size?: "small" | "medium";
+    sx?: SxProps<Theme>;
+}
+
+const ROOT_LABEL = "无（顶级分组）";
+
+// 跳过被排除分组的整个子树
+function pruneTree(nodes: GroupNode[], excludeId?: number): GroupNode[] {
+    return nodes
+        .filter(node => node.id !== excludeId)
+        .map(node => ({ ...node, children: pruneTree(node.children, excludeId) }));
+}
+
+// 上级分组选择框：按层级缩进显示分组，选择"无"表示顶级分组
+const GroupParentSelect: React.FC<GroupParentSelectProps> = ({
+    groups,
+    value,
+    onChange,
+    excludeId,
+    label = "上级分组",
+    size,
+    sx,
+}) => {
+    const options = flattenGroupTree(pruneTree(buildGroupTree(groups), excludeId));
+    const labelId = `group-parent-label-${excludeId ?? "new"}`;
+
+    return (
+        <FormControl fullWidth size={size} sx={sx}>
+            <InputLabel id={labelId} shrink>
+                {label}
+            </InputLabel>
+            <Select
+                labelId={labelId}
+                value={value === null ? "" : String(value)}
+                label={label}
+                notched
+                displayEmpty
+                onChange={e => onChange(e.target.value === "" ? null : Number(e.target.value))}
+                renderValue={selected =>
+                    selected === ""
+                        ? ROOT_LABEL
+                        : groups.find(group => String(group.id) === selected)?.name || ""
+                }
+            >
+                <MenuItem value=''>{ROOT_LABEL}</MenuItem>
+                {options.map(({ group, depth }) => (
+                    <MenuItem key={group.id} value={String(group.id)} sx={{ pl: 2 + depth * 2 }}>
+                        {group.name}
+                    </MenuItem>
+                ))}
+            </Select>
+        </FormControl>
+    );
+};
+
+export default GroupParentSelect;
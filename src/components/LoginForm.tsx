@@ -1,20 +1,73 @@
-import React, { useState } from "react";
-import { TextField, Button, Typography, Box, CircularProgress, Alert, Paper } from "@mui/material";
+import React, { useState, useEffect } from "react";
+import {
+    TextField,
+    Button,
+    Typography,
+    Box,
+    CircularProgress,
+    Alert,
+    Paper,
+    FormControlLabel,
+    Checkbox,
+    Divider,
+} from "@mui/material";
 import LockOutlinedIcon from "@mui/icons-material/LockOutlined";
+import LoginIcon from "@mui/icons-material/Login";
 
 interface LoginFormProps {
-    onLogin: (username: string, password: string) => void;
+    onLogin: (username: string, password: string, remember: boolean) => void;
     loading?: boolean;
     error?: string | null;
+    retryAfter?: number | null; // 登录被锁定时距离可重试的秒数
+    rememberMeDays?: number; // "记住我"的免登录天数
+    twoFactorRequired?: boolean; // 密码已通过，等待输入两步验证码
+    onVerifyTwoFactor?: (code: string) => void;
+    onCancelTwoFactor?: () => void;
+    ssoEnabled?: boolean; // 是否显示SSO登录按钮
+    onSsoLogin?: (remember: boolean) => void;
 }
 
-const LoginForm: React.FC<LoginFormProps> = ({ onLogin, loading = false, error = null }) => {
+const LoginForm: React.FC<LoginFormProps> = ({
+    onLogin,
+    loading = false,
+    error = null,
+    retryAfter = null,
+    rememberMeDays = 30,
+    twoFactorRequired = false,
+    onVerifyTwoFactor,
+    onCancelTwoFactor,
+    ssoEnabled = false,
+    onSsoLogin,
+}) => {
     const [username, setUsername] = useState("");
     const [password, setPassword] = useState("");
+    const [remember, setRemember] = useState(false);
+    const [code, setCode] = useState("");
+    const [lockSeconds, setLockSeconds] = useState(0);
+
+    // 收到锁定时间后开始倒计时
+    useEffect(() => {
+        setLockSeconds(retryAfter && retryAfter > 0 ? retryAfter : 0);
+    }, [retryAfter]);
+
+    useEffect(() => {
+        if (lockSeconds <= 0) return;
+        const timer = setTimeout(() => setLockSeconds(seconds => seconds - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [lockSeconds]);
+
+    // 进入或退出两步验证时清空验证码
+    useEffect(() => {
+        setCode("");
+    }, [twoFactorRequired]);
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        onLogin(username, password);
+        if (twoFactorRequired) {
+            onVerifyTwoFactor?.(code.trim());
+            return;
+        }
+        onLogin(username, password, remember);
     };
 
     return (
@@ -61,61 +114,138 @@ const LoginForm: React.FC<LoginFormProps> = ({ onLogin, loading = false, error =
                         <LockOutlinedIcon fontSize='large' />
                     </Box>
                     <Typography component='h1' variant='h5' fontWeight='bold' textAlign='center'>
-                        导航站登录
+                        {twoFactorRequired ? "两步验证" : "导航站登录"}
                     </Typography>
                 </Box>
 
-                {error && (
-                    <Alert severity='error' sx={{ mb: 3 }}>
-                        {error}
+                {lockSeconds > 0 ? (
+                    <Alert severity='warning' sx={{ mb: 3 }}>
+                        尝试次数过多，请在 {lockSeconds} 秒后重试
                     </Alert>
+                ) : (
+                    error &&
+                    !retryAfter && (
+                        <Alert severity='error' sx={{ mb: 3 }}>
+                            {error}
+                        </Alert>
+                    )
                 )}
 
                 <Box component='form' onSubmit={handleSubmit} sx={{ mt: 1 }}>
-                    <TextField
-                        margin='normal'
-                        required
-                        fullWidth
-                        id='username'
-                        label='用户名'
-                        name='username'
-                        autoComplete='username'
-                        autoFocus
-                        value={username}
-                        onChange={e => setUsername(e.target.value)}
-                        disabled={loading}
-                        sx={{ mb: 2 }}
-                    />
-                    <TextField
-                        margin='normal'
-                        required
-                        fullWidth
-                        name='password'
-                        label='密码'
-                        type='password'
-                        id='password'
-                        autoComplete='current-password'
-                        value={password}
-                        onChange={e => setPassword(e.target.value)}
-                        disabled={loading}
-                        sx={{ mb: 3 }}
-                    />
-                    <Button
-                        type='submit'
-                        fullWidth
-                        variant='contained'
-                        color='primary'
-                        disabled={loading || !username || !password}
-                        size='large'
-                        sx={{
-                            py: 1.5,
-                            mt: 2,
-                            mb: 2,
-                            borderRadius: 2,
-                        }}
-                    >
-                        {loading ? <CircularProgress size={24} color='inherit' /> : "登录"}
-                    </Button>
+                    {twoFactorRequired ? (
+                        <>
+                            <Typography variant='body2' color='text.secondary'>
+                                请输入身份验证器应用中的 6 位验证码，或使用一个恢复码。
+                            </Typography>
+                            <TextField
+                                margin='normal'
+                                required
+                                fullWidth
+                                id='code'
+                                label='验证码或恢复码'
+                                name='code'
+                                autoComplete='one-time-code'
+                                autoFocus
+                                value={code}
+                                onChange={e => setCode(e.target.value)}
+                                disabled={loading}
+                                sx={{ mb: 1 }}
+                            />
+                            <Button
+                                type='submit'
+                                fullWidth
+                                variant='contained'
+                                color='primary'
+                                disabled={loading || lockSeconds > 0 || !code.trim()}
+                                size='large'
+                                sx={{
+                                    py: 1.5,
+                                    mt: 2,
+                                    mb: 1,
+                                    borderRadius: 2,
+                                }}
+                            >
+                                {loading ? <CircularProgress size={24} color='inherit' /> : "验证"}
+                            </Button>
+                            <Button fullWidth onClick={onCancelTwoFactor} disabled={loading}>
+                                返回重新登录
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            <TextField
+                                margin='normal'
+                                required
+                                fullWidth
+                                id='username'
+                                label='用户名'
+                                name='username'
+                                autoComplete='username'
+                                autoFocus
+                                value={username}
+                                onChange={e => setUsername(e.target.value)}
+                                disabled={loading}
+                                sx={{ mb: 2 }}
+                            />
+                            <TextField
+                                margin='normal'
+                                required
+                                fullWidth
+                                name='password'
+                                label='密码'
+                                type='password'
+                                id='password'
+                                autoComplete='current-password'
+                                value={password}
+                                onChange={e => setPassword(e.target.value)}
+                                disabled={loading}
+                                sx={{ mb: 1 }}
+                            />
+                            <FormControlLabel
+                                control={
+                                    <Checkbox
+                                        checked={remember}
+                                        onChange={e => setRemember(e.target.checked)}
+                                        disabled={loading}
+                                        color='primary'
+                                    />
+                                }
+                                label={`记住我（${rememberMeDays} 天内免登录）`}
+                            />
+                            <Button
+                                type='submit'
+                                fullWidth
+                                variant='contained'
+                                color='primary'
+                                disabled={loading || lockSeconds > 0 || !username || !password}
+                                size='large'
+                                sx={{
+                                    py: 1.5,
+                                    mt: 2,
+                                    mb: 2,
+                                    borderRadius: 2,
+                                }}
+                            >
+                                {loading ? <CircularProgress size={24} color='inherit' /> : "登录"}
+                            </Button>
+                            {ssoEnabled && (
+                                <>
+                                    <Divider sx={{ mb: 2 }}>或</Divider>
+                                    <Button
+                                        fullWidth
+                                        variant='outlined'
+                                        size='large'
+                                        startIcon={<LoginIcon />}
+                                        onClick={() => onSsoLogin?.(remember)}
+                                        disabled={loading}
+                                        sx={{ py: 1.5, borderRadius: 2 }}
+                                    >
+                                        使用 SSO 登录
+                                    </Button>
+                                </>
+                            )}
+                        </>
+                    )}
                 </Box>
             </Paper>
         </Box>
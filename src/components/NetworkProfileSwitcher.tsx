@@ -0,0 +1,76 @@
+import React, { useState } from "react";
+import { Button, Menu, MenuItem, Divider, ListItemIcon, ListItemText } from "@mui/material";
+import LanIcon from "@mui/icons-material/Lan";
+import ArrowDropDownIcon from "@mui/icons-material/ArrowDropDown";
+import CheckIcon from "@mui/icons-material/Check";
+import { AUTO_NETWORK_PROFILE } from "../API/http";
+
+interface NetworkProfileSwitcherProps {
+    profiles: string[]; // 站点备用链接中出现过的网络环境
+    value: string; // 空字符串为默认链接，AUTO_NETWORK_PROFILE为自动检测
+    detected: string | null; // 自动检测到的网络环境，null表示使用默认链接
+    autoAvailable: boolean; // 是否配置了检测地址
+    onChange: (value: string) => void;
+}
+
+// 网络环境切换菜单，决定点击站点时打开哪个链接
+const NetworkProfileSwitcher: React.FC<NetworkProfileSwitcherProps> = ({
+    profiles,
+    value,
+    detected,
+    autoAvailable,
+    onChange,
+}) => {
+    const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+
+    const handleSelect = (profile: string) => {
+        setAnchorEl(null);
+        onChange(profile);
+    };
+
+    const label =
+        value === AUTO_NETWORK_PROFILE
+            ? `自动（${detected || "默认"}）`
+            : value || "默认链接";
+
+    const renderItem = (profile: string, text: string) => (
+        <MenuItem key={profile} selected={profile === value} onClick={() => handleSelect(profile)}>
+            <ListItemIcon>{profile === value && <CheckIcon fontSize='small' />}</ListItemIcon>
+            <ListItemText>{text}</ListItemText>
+        </MenuItem>
+    );
+
+    return (
+        <>
+            <Button
+                variant='outlined'
+                color='inherit'
+                startIcon={<LanIcon />}
+                endIcon={<ArrowDropDownIcon />}
+                onClick={event => setAnchorEl(event.currentTarget)}
+                aria-controls={anchorEl ? "network-profile-menu" : undefined}
+                aria-haspopup='true'
+                size='small'
+                sx={{
+                    minWidth: "auto",
+                    fontSize: { xs: "0.75rem", sm: "0.875rem" },
+                }}
+            >
+                {label}
+            </Button>
+            <Menu
+                id='network-profile-menu'
+                anchorEl={anchorEl}
+                open={Boolean(anchorEl)}
+                onClose={() => setAnchorEl(null)}
+            >
+                {autoAvailable && renderItem(AUTO_NETWORK_PROFILE, "自动检测")}
+                {renderItem("", "默认链接")}
+                {profiles.length > 0 && <Divider />}
+                {profiles.map(profile => renderItem(profile, profile))}
+            </Menu>
+        </>
+    );
+};
+
+export default NetworkProfileSwitcher;
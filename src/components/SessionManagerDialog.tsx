@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogContentText,
+    IconButton,
+    Table,
+    TableHead,
+    TableBody,
+    TableRow,
+    TableCell,
+    TableContainer,
+    Button,
+    Chip,
+    Alert,
+    Box,
+    CircularProgress,
+    Typography,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { Session } from "../API/http";
+
+interface SessionManagerDialogProps {
+    open: boolean;
+    onClose: () => void;
+    loadSessions: () => Promise<Session[]>;
+    onRevoke: (sessionId: string) => Promise<void>;
+}
+
+// 从User-Agent中粗略识别浏览器和操作系统
+function describeDevice(userAgent: string | null): string {
+    if (!userAgent) return "未知设备";
+
+    const browser =
+        [
+            { pattern: /Edg\//, name: "Edge" },
+            { pattern: /Firefox\//, name: "Firefox" },
+            { pattern: /Chrome\//, name: "Chrome" },
+            { pattern: /Safari\//, name: "Safari" },
+        ].find(item => item.pattern.test(userAgent))?.name || "未知浏览器";
+
+    const os =
+        [
+            { pattern: /Android/, name: "Android" },
+            { pattern: /iPhone|iPad/, name: "iOS" },
+            { pattern: /Windows/, name: "Windows" },
+            { pattern: /Mac OS X/, name: "macOS" },
+            { pattern: /Linux/, name: "Linux" },
+        ].find(item => item.pattern.test(userAgent))?.name || "未知系统";
+
+    return `${browser} · ${os}`;
+}
+
+// 格式化Unix秒时间戳
+function formatTime(seconds: number): string {
+    return new Date(seconds * 1000).toLocaleString();
+}
+
+const SessionManagerDialog: React.FC<SessionManagerDialogProps> = ({
+    open,
+    onClose,
+    loadSessions,
+    onRevoke,
+}) => {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+
+    const fetchSessions = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            setSessions(await loadSessions());
+        } catch (error) {
+            setError("加载会话失败: " + (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [loadSessions]);
+
+    // 每次打开时刷新会话列表
+    useEffect(() => {
+        if (open) {
+            fetchSessions();
+        }
+    }, [open, fetchSessions]);
+
+    const handleRevoke = async (session: Session) => {
+        if (!window.confirm(`确定要撤销 ${session.username} 的这个会话吗？该设备需要重新登录。`)) {
+            return;
+        }
+        try {
+            setRevokingId(session.id);
+            await onRevoke(session.id);
+            setSessions(prev => prev.filter(item => item.id !== session.id));
+        } catch (error) {
+            setError("撤销会话失败: " + (error as Error).message);
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth='md'
+            fullWidth
+            PaperProps={{
+                sx: {
+                    m: { xs: 2, sm: "auto" },
+                    width: { xs: "calc(100% - 32px)", sm: "auto" },
+                },
+            }}
+        >
+            <DialogTitle>
+                会话管理
+                <IconButton
+                    aria-label='close'
+                    onClick={onClose}
+                    sx={{
+                        position: "absolute",
+                        right: 8,
+                        top: 8,
+                    }}
+                >
+                    <CloseIcon />
+                </IconButton>
+            </DialogTitle>
+            <DialogContent>
+                <DialogContentText sx={{ mb: 2 }}>
+                    以下是当前所有有效的登录会话，撤销后对应设备的令牌会立即失效。
+                </DialogContentText>
+
+                {error && (
+                    <Alert severity='error' sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                {loading ? (
+                    <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+                        <CircularProgress size={32} />
+                    </Box>
+                ) : sessions.length === 0 ? (
+                    <Typography variant='body2' color='text.secondary' sx={{ py: 2 }}>
+                        暂无有效会话
+                    </Typography>
+                ) : (
+                    <TableContainer>
+                        <Table size='small'>
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>用户</TableCell>
+                                    <TableCell>设备</TableCell>
+                                    <TableCell>IP</TableCell>
+                                    <TableCell>最后活动</TableCell>
+                                    <TableCell align='right'>操作</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {sessions.map(session => (
+                                    <TableRow key={session.id}>
+                                        <TableCell>{session.username}</TableCell>
+                                        <TableCell title={session.user_agent || undefined}>
+                                            {describeDevice(session.user_agent)}
+                                        </TableCell>
+                                        <TableCell>{session.ip || "-"}</TableCell>
+                                        <TableCell>{formatTime(session.last_seen_at)}</TableCell>
+                                        <TableCell align='right'>
+                                            {session.current ? (
+                                                <Chip label='当前会话' size='small' color='primary' />
+                                            ) : (
+                                                <Button
+                                                    size='small'
+                                                    color='error'
+                                                    variant='outlined'
+                                                    disabled={revokingId === session.id}
+                                                    onClick={() => handleRevoke(session)}
+                                                >
+                                                    撤销
+                                                </Button>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default SessionManagerDialog;
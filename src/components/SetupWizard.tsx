@@ -0,0 +1,277 @@
+import React, { useState } from "react";
+import {
+    TextField,
+    Button,
+    Typography,
+    Box,
+    CircularProgress,
+    Alert,
+    Paper,
+    Stepper,
+    Step,
+    StepLabel,
+    Chip,
+    Stack,
+} from "@mui/material";
+import RocketLaunchIcon from "@mui/icons-material/RocketLaunch";
+import AddIcon from "@mui/icons-material/Add";
+import { SetupRequest } from "../API/http";
+
+interface SetupWizardProps {
+    authEnabled: boolean; // 未启用认证时跳过管理员账号
+    onSubmit: (request: SetupRequest) => void;
+    loading?: boolean;
+    error?: string | null;
+}
+
+// 与服务端的密码长度要求保持一致
+const MIN_PASSWORD_LENGTH = 8;
+
+const DEFAULT_STARTER_GROUPS = ["常用工具", "开发", "学习"];
+
+const SetupWizard: React.FC<SetupWizardProps> = ({
+    authEnabled,
+    onSubmit,
+    loading = false,
+    error = null,
+}) => {
+    const steps = authEnabled ? ["管理员账号", "站点信息", "初始分组"] : ["站点信息", "初始分组"];
+    const [activeStep, setActiveStep] = useState(0);
+
+    const [username, setUsername] = useState("admin");
+    const [password, setPassword] = useState("");
+    const [confirmPassword, setConfirmPassword] = useState("");
+    const [siteTitle, setSiteTitle] = useState("导航站");
+    const [starterGroups, setStarterGroups] = useState<string[]>(DEFAULT_STARTER_GROUPS);
+    const [groupName, setGroupName] = useState("");
+
+    const currentStep = steps[activeStep];
+    const passwordTooShort = password.length > 0 && password.length < MIN_PASSWORD_LENGTH;
+    const passwordMismatch = confirmPassword.length > 0 && confirmPassword !== password;
+
+    // 当前步骤是否填写完整
+    const canContinue =
+        currentStep !== "管理员账号" ||
+        (!!username.trim() && password.length >= MIN_PASSWORD_LENGTH && password === confirmPassword);
+
+    const handleAddGroup = () => {
+        const name = groupName.trim();
+        if (name && !starterGroups.includes(name)) {
+            setStarterGroups([...starterGroups, name]);
+        }
+        setGroupName("");
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canContinue) return;
+
+        if (activeStep < steps.length - 1) {
+            setActiveStep(activeStep + 1);
+            return;
+        }
+
+        onSubmit({
+            username: authEnabled ? username.trim() : undefined,
+            password: authEnabled ? password : undefined,
+            siteTitle: siteTitle.trim() || undefined,
+            starterGroups,
+        });
+    };
+
+    return (
+        <Box
+            sx={{
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                width: "100%",
+                maxWidth: "100%",
+                p: { xs: 2, sm: 4 },
+            }}
+        >
+            <Paper
+                elevation={3}
+                sx={{
+                    p: { xs: 3, sm: 4 },
+                    borderRadius: 2,
+                    width: "100%",
+                    maxWidth: { xs: "90%", sm: 520 },
+                }}
+            >
+                <Box
+                    sx={{
+                        display: "flex",
+                        flexDirection: "column",
+                        alignItems: "center",
+                        mb: 3,
+                    }}
+                >
+                    <Box
+                        sx={{
+                            mb: 2,
+                            width: 56,
+                            height: 56,
+                            borderRadius: "50%",
+                            display: "flex",
+                            justifyContent: "center",
+                            alignItems: "center",
+                            backgroundColor: "primary.main",
+                            color: "white",
+                        }}
+                    >
+                        <RocketLaunchIcon fontSize='large' />
+                    </Box>
+                    <Typography component='h1' variant='h5' fontWeight='bold' textAlign='center'>
+                        欢迎使用导航站
+                    </Typography>
+                    <Typography variant='body2' color='text.secondary' textAlign='center' sx={{ mt: 1 }}>
+                        首次使用需要完成以下设置，完成后安装向导将不再可用。
+                    </Typography>
+                </Box>
+
+                <Stepper activeStep={activeStep} alternativeLabel sx={{ mb: 3 }}>
+                    {steps.map(label => (
+                        <Step key={label}>
+                            <StepLabel>{label}</StepLabel>
+                        </Step>
+                    ))}
+                </Stepper>
+
+                {error && (
+                    <Alert severity='error' sx={{ mb: 3 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                <Box component='form' onSubmit={handleSubmit}>
+                    {currentStep === "管理员账号" && (
+                        <>
+                            <TextField
+                                margin='normal'
+                                required
+                                fullWidth
+                                label='管理员用户名'
+                                autoComplete='username'
+                                autoFocus
+                                value={username}
+                                onChange={e => setUsername(e.target.value)}
+                                disabled={loading}
+                            />
+                            <TextField
+                                margin='normal'
+                                required
+                                fullWidth
+                                label='密码'
+                                type='password'
+                                autoComplete='new-password'
+                                value={password}
+                                onChange={e => setPassword(e.target.value)}
+                                disabled={loading}
+                                error={passwordTooShort}
+                                helperText={`至少 ${MIN_PASSWORD_LENGTH} 位`}
+                            />
+                            <TextField
+                                margin='normal'
+                                required
+                                fullWidth
+                                label='确认密码'
+                                type='password'
+                                autoComplete='new-password'
+                                value={confirmPassword}
+                                onChange={e => setConfirmPassword(e.target.value)}
+                                disabled={loading}
+                                error={passwordMismatch}
+                                helperText={passwordMismatch ? "两次输入的密码不一致" : " "}
+                            />
+                        </>
+                    )}
+
+                    {currentStep === "站点信息" && (
+                        <TextField
+                            margin='normal'
+                            fullWidth
+                            label='站点标题'
+                            autoFocus
+                            value={siteTitle}
+                            onChange={e => setSiteTitle(e.target.value)}
+                            disabled={loading}
+                            helperText='显示在页面顶部和浏览器标签上，之后可在网站设置中修改'
+                        />
+                    )}
+
+                    {currentStep === "初始分组" && (
+                        <>
+                            <Typography variant='body2' color='text.secondary' sx={{ mb: 2 }}>
+                                可选：预先创建几个分组，之后也可以随时添加或删除。
+                            </Typography>
+                            <Stack direction='row' spacing={1} sx={{ mb: 2 }}>
+                                <TextField
+                                    size='small'
+                                    fullWidth
+                                    label='分组名称'
+                                    value={groupName}
+                                    onChange={e => setGroupName(e.target.value)}
+                                    onKeyDown={e => {
+                                        if (e.key === "Enter") {
+                                            e.preventDefault();
+                                            handleAddGroup();
+                                        }
+                                    }}
+                                    disabled={loading}
+                                />
+                                <Button
+                                    variant='outlined'
+                                    startIcon={<AddIcon />}
+                                    onClick={handleAddGroup}
+                                    disabled={loading || !groupName.trim()}
+                                    sx={{ whiteSpace: "nowrap" }}
+                                >
+                                    添加
+                                </Button>
+                            </Stack>
+                            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, minHeight: 32 }}>
+                                {starterGroups.map(name => (
+                                    <Chip
+                                        key={name}
+                                        label={name}
+                                        onDelete={
+                                            loading
+                                                ? undefined
+                                                : () => setStarterGroups(starterGroups.filter(item => item !== name))
+                                        }
+                                    />
+                                ))}
+                            </Box>
+                        </>
+                    )}
+
+                    <Box sx={{ display: "flex", justifyContent: "space-between", mt: 3 }}>
+                        <Button
+                            onClick={() => setActiveStep(activeStep - 1)}
+                            disabled={loading || activeStep === 0}
+                        >
+                            上一步
+                        </Button>
+                        <Button
+                            type='submit'
+                            variant='contained'
+                            disabled={loading || !canContinue}
+                            sx={{ borderRadius: 2, minWidth: 120 }}
+                        >
+                            {loading ? (
+                                <CircularProgress size={24} color='inherit' />
+                            ) : activeStep < steps.length - 1 ? (
+                                "下一步"
+                            ) : (
+                                "完成设置"
+                            )}
+                        </Button>
+                    </Box>
+                </Box>
+            </Paper>
+        </Box>
+    );
+};
+
+export default SetupWizard;
@@ -1,6 +1,6 @@
 // src/components/SiteCard.tsx
 import { useState, memo } from "react";
-import { Site } from "../API/http";
+import { Site, Group, SiteRevision, CustomField } from "../API/http";
 import SiteSettingsModal from "./SiteSettingsModal";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
@@ -14,16 +14,24 @@ import {
     IconButton,
     Box,
     Fade,
+    Tooltip,
 } from "@mui/material";
 import SettingsIcon from "@mui/icons-material/Settings";
 import DragIndicatorIcon from "@mui/icons-material/DragIndicator";
 
 interface SiteCardProps {
     site: Site;
-    onUpdate: (updatedSite: Site) => void;
-    onDelete: (siteId: number) => void;
+    onUpdate?: (updatedSite: Site) => void; // 未提供时隐藏设置按钮（只读）
+    onDelete?: (siteId: number) => void;
     isEditMode?: boolean;
     index?: number;
+    groups?: Group[]; // 所有分组，用于在设置中移动站点
+    resolveUrl?: (site: Site) => string; // 未提供时始终打开主链接
+    customFields?: CustomField[]; // 有值的自定义字段在鼠标悬停时显示
+    loadRevisions?: (siteId: number) => Promise<SiteRevision[]>;
+    onRestoreRevision?: (siteId: number, revisionId: number) => Promise<void>;
+    onUploadIcon?: (file: Blob) => Promise<string>; // 上传图标，返回图标地址
+    onDiscoverIcon?: (url: string) => Promise<string>; // 自动获取网站图标，返回图标地址
 }
 
 // 使用memo包装组件以减少不必要的重渲染
@@ -33,6 +41,13 @@ const SiteCard = memo(function SiteCard({
     onDelete,
     isEditMode = false,
     index = 0,
+    groups,
+    resolveUrl,
+    customFields = [],
+    loadRevisions,
+    onRestoreRevision,
+    onUploadIcon,
+    onDiscoverIcon,
 }: SiteCardProps) {
     const [showSettings, setShowSettings] = useState(false);
     const [iconError, setIconError] = useState(!site.icon);
@@ -52,6 +67,23 @@ const SiteCard = memo(function SiteCard({
         position: "relative" as const,
     };
 
+    // 有值的自定义字段，鼠标悬停在卡片上时显示；没有时不显示提示
+    const customFieldEntries = customFields
+        .filter(field => site.custom_fields?.[field.name] !== undefined)
+        .map(field => [field.name, String(site.custom_fields![field.name])]);
+    const customFieldTooltip =
+        customFieldEntries.length > 0 ? (
+            <Box>
+                {customFieldEntries.map(([name, value]) => (
+                    <Typography key={name} variant='caption' display='block'>
+                        {name}：{value}
+                    </Typography>
+                ))}
+            </Box>
+        ) : (
+            ""
+        );
+
     // 如果没有图标，使用首字母作为图标
     const fallbackIcon = site.name.charAt(0).toUpperCase();
 
@@ -70,7 +102,7 @@ const SiteCard = memo(function SiteCard({
     // 处理卡片点击
     const handleCardClick = () => {
         if (!isEditMode && site.url) {
-            window.open(site.url, "_blank");
+            window.open(resolveUrl ? resolveUrl(site) : site.url, "_blank");
         }
     };
 
@@ -207,118 +239,122 @@ const SiteCard = memo(function SiteCard({
                         </Typography>
                     </Box>
                 ) : (
-                    <CardActionArea onClick={handleCardClick} sx={{ height: "100%" }}>
-                        <CardContent
-                            sx={{
-                                position: "relative",
-                                height: "100%",
-                                display: "flex",
-                                flexDirection: "column",
-                                p: { xs: 1.5, sm: 2 },
-                                "&:last-child": { pb: { xs: 1.5, sm: 2 } },
-                            }}
-                        >
-                            {/* 图标和名称 */}
-                            <Box display='flex' alignItems='center' mb={1}>
-                                {!iconError && site.icon ? (
-                                    <Box position='relative' mr={1.5} width={32} height={32} flexShrink={0}>
-                                        <Skeleton
-                                            variant='rounded'
-                                            width={32}
-                                            height={32}
-                                            sx={{
-                                                display: !imageLoaded ? "block" : "none",
-                                                position: "absolute",
-                                            }}
-                                        />
-                                        <Fade in={imageLoaded} timeout={500}>
-                                            <Box
-                                                component='img'
-                                                src={site.icon}
-                                                alt={site.name}
+                    <Tooltip title={customFieldTooltip} placement='bottom-start' arrow>
+                        <CardActionArea onClick={handleCardClick} sx={{ height: "100%" }}>
+                            <CardContent
+                                sx={{
+                                    position: "relative",
+                                    height: "100%",
+                                    display: "flex",
+                                    flexDirection: "column",
+                                    p: { xs: 1.5, sm: 2 },
+                                    "&:last-child": { pb: { xs: 1.5, sm: 2 } },
+                                }}
+                            >
+                                {/* 图标和名称 */}
+                                <Box display='flex' alignItems='center' mb={1}>
+                                    {!iconError && site.icon ? (
+                                        <Box position='relative' mr={1.5} width={32} height={32} flexShrink={0}>
+                                            <Skeleton
+                                                variant='rounded'
+                                                width={32}
+                                                height={32}
                                                 sx={{
-                                                    width: 32,
-                                                    height: 32,
-                                                    borderRadius: 1,
-                                                    objectFit: "cover",
+                                                    display: !imageLoaded ? "block" : "none",
+                                                    position: "absolute",
                                                 }}
-                                                onError={handleIconError}
-                                                onLoad={handleImageLoad}
                                             />
-                                        </Fade>
-                                    </Box>
-                                ) : (
-                                    <Box
+                                            <Fade in={imageLoaded} timeout={500}>
+                                                <Box
+                                                    component='img'
+                                                    src={site.icon}
+                                                    alt={site.name}
+                                                    sx={{
+                                                        width: 32,
+                                                        height: 32,
+                                                        borderRadius: 1,
+                                                        objectFit: "cover",
+                                                    }}
+                                                    onError={handleIconError}
+                                                    onLoad={handleImageLoad}
+                                                />
+                                            </Fade>
+                                        </Box>
+                                    ) : (
+                                        <Box
+                                            sx={{
+                                                width: 32,
+                                                height: 32,
+                                                mr: 1.5,
+                                                borderRadius: 1,
+                                                bgcolor: "primary.light",
+                                                color: "primary.main",
+                                                display: "flex",
+                                                alignItems: "center",
+                                                justifyContent: "center",
+                                                border: 1,
+                                                borderColor: "primary.main",
+                                                opacity: 0.8,
+                                            }}
+                                        >
+                                            {fallbackIcon}
+                                        </Box>
+                                    )}
+                                    <Typography
+                                        variant='subtitle1'
+                                        fontWeight='medium'
+                                        noWrap
                                         sx={{
-                                            width: 32,
-                                            height: 32,
-                                            mr: 1.5,
-                                            borderRadius: 1,
-                                            bgcolor: "primary.light",
-                                            color: "primary.main",
-                                            display: "flex",
-                                            alignItems: "center",
-                                            justifyContent: "center",
-                                            border: 1,
-                                            borderColor: "primary.main",
-                                            opacity: 0.8,
+                                            fontSize: { xs: '0.875rem', sm: '1rem' },
                                         }}
                                     >
-                                        {fallbackIcon}
-                                    </Box>
-                                )}
+                                        {site.name}
+                                    </Typography>
+                                </Box>
+
+                                {/* 描述 */}
                                 <Typography
-                                    variant='subtitle1'
-                                    fontWeight='medium'
-                                    noWrap
+                                    variant='body2'
+                                    color='text.secondary'
                                     sx={{
-                                        fontSize: { xs: '0.875rem', sm: '1rem' },
+                                        display: "-webkit-box",
+                                        WebkitLineClamp: 2,
+                                        WebkitBoxOrient: "vertical",
+                                        overflow: "hidden",
+                                        flexGrow: 1,
+                                        fontSize: { xs: '0.75rem', sm: '0.875rem' },
                                     }}
                                 >
-                                    {site.name}
+                                    {site.description || "暂无描述"}
                                 </Typography>
-                            </Box>
-
-                            {/* 描述 */}
-                            <Typography
-                                variant='body2'
-                                color='text.secondary'
-                                sx={{
-                                    display: "-webkit-box",
-                                    WebkitLineClamp: 2,
-                                    WebkitBoxOrient: "vertical",
-                                    overflow: "hidden",
-                                    flexGrow: 1,
-                                    fontSize: { xs: '0.75rem', sm: '0.875rem' },
-                                }}
-                            >
-                                {site.description || "暂无描述"}
-                            </Typography>
 
-                            {/* 设置按钮 */}
-                            <IconButton
-                                size='small'
-                                sx={{
-                                    position: "absolute",
-                                    top: 8,
-                                    right: 8,
-                                    bgcolor: "action.hover",
-                                    opacity: 0,
-                                    transition: "opacity 0.2s",
-                                    "&:hover": {
-                                        bgcolor: "action.selected",
-                                    },
-                                    ".MuiCardActionArea-root:hover &": {
-                                        opacity: 1,
-                                    },
-                                }}
-                                onClick={handleSettingsClick}
-                                aria-label='网站设置'
-                            >
-                                <SettingsIcon fontSize='small' />
-                            </IconButton>
-                        </CardContent>
-                    </CardActionArea>
+                                {/* 设置按钮 */}
+                                {onUpdate && onDelete && (
+                                    <IconButton
+                                        size='small'
+                                        sx={{
+                                            position: "absolute",
+                                            top: 8,
+                                            right: 8,
+                                            bgcolor: "action.hover",
+                                            opacity: 0,
+                                            transition: "opacity 0.2s",
+                                            "&:hover": {
+                                                bgcolor: "action.selected",
+                                            },
+                                            ".MuiCardActionArea-root:hover &": {
+                                                opacity: 1,
+                                            },
+                                        }}
+                                        onClick={handleSettingsClick}
+                                        aria-label='网站设置'
+                                    >
+                                        <SettingsIcon fontSize='small' />
+                                    </IconButton>
+                                )}
+                            </CardContent>
+                        </CardActionArea>
+                    </Tooltip>
                 )}
             </Card>
         </Box>
@@ -331,12 +367,18 @@ const SiteCard = memo(function SiteCard({
                     {cardContent}
                 </div>
 
-                {showSettings && (
+                {showSettings && onUpdate && onDelete && (
                     <SiteSettingsModal
                         site={site}
                         onUpdate={onUpdate}
                         onDelete={onDelete}
                         onClose={handleCloseSettings}
+                        groups={groups}
+                        customFields={customFields}
+                        loadRevisions={loadRevisions}
+                        onRestoreRevision={onRestoreRevision}
+                        onUploadIcon={onUploadIcon}
+                        onDiscoverIcon={onDiscoverIcon}
                     />
                 )}
             </>
@@ -347,12 +389,18 @@ const SiteCard = memo(function SiteCard({
         <>
             {cardContent}
 
-            {showSettings && (
+            {showSettings && onUpdate && onDelete && (
                 <SiteSettingsModal
                     site={site}
                     onUpdate={onUpdate}
                     onDelete={onDelete}
                     onClose={handleCloseSettings}
+                    groups={groups}
+                    customFields={customFields}
+                    loadRevisions={loadRevisions}
+                    onRestoreRevision={onRestoreRevision}
+                    onUploadIcon={onUploadIcon}
+                    onDiscoverIcon={onDiscoverIcon}
                 />
             )}
         </>
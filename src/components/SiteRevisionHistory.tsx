@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+    Box,
+    Button,
+    Alert,
+    CircularProgress,
+    Typography,
+    Paper,
+    Stack,
+} from "@mui/material";
+import RestoreIcon from "@mui/icons-material/Restore";
+import { Site, Group, SiteRevision, SiteSnapshot, SITE_REVISION_FIELDS } from "../API/http";
+
+interface SiteRevisionHistoryProps {
+    site: Site;
+    groups?: Group[]; // 用于显示分组名称
+    loadRevisions: (siteId: number) => Promise<SiteRevision[]>;
+    onRestore: (siteId: number, revisionId: number) => Promise<void>;
+}
+
+type RevisionField = (typeof SITE_REVISION_FIELDS)[number];
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+    group_id: "所属分组",
+    name: "名称",
+    url: "链接",
+    icon: "图标",
+    description: "描述",
+    notes: "备注",
+    tags: "标签",
+    alt_urls: "备用链接",
+    custom_fields: "自定义字段",
+};
+
+// 历史版本时间为UTC的SQLite时间戳，转换为本地时间显示
+function formatTime(value: string): string {
+    const date = new Date(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+    return isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+// 站点历史版本列表：每个版本显示被下一次修改改动的字段，可以恢复到任意版本
+const SiteRevisionHistory: React.FC<SiteRevisionHistoryProps> = ({
+    site,
+    groups = [],
+    loadRevisions,
+    onRestore,
+}) => {
+    const [revisions, setRevisions] = useState<SiteRevision[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [restoring, setRestoring] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchRevisions = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            setRevisions(await loadRevisions(site.id!));
+        } catch (error) {
+            setError("加载历史版本失败: " + (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [loadRevisions, site.id]);
+
+    useEffect(() => {
+        fetchRevisions();
+    }, [fetchRevisions]);
+
+    const formatValue = (field: RevisionField, snapshot: SiteSnapshot): string => {
+        if (field === "tags") {
+            return snapshot.tags.join("、") || "（无）";
+        }
+        if (field === "alt_urls" || field === "custom_fields") {
+            const entries = Object.entries(snapshot[field] || {});
+            return entries.map(([name, value]) => `${name}: ${value}`).join("、") || "（无）";
+        }
+        if (field === "group_id") {
+            return groups.find(group => group.id === snapshot.group_id)?.name || `#${snapshot.group_id}`;
+        }
+        return String(snapshot[field] || "") || "（空）";
+    };
+
+    const handleRestore = async (revision: SiteRevision) => {
+        if (!window.confirm("确定要恢复到这个版本吗？当前内容会保存为新的历史版本。")) {
+            return;
+        }
+        try {
+            setRestoring(true);
+            setError(null);
+            await onRestore(site.id!, revision.id);
+        } catch (error) {
+            setError("恢复历史版本失败: " + (error as Error).message);
+            setRestoring(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+                <CircularProgress size={32} />
+            </Box>
+        );
+    }
+
+    // 最新版本之后的状态就是站点的当前内容
+    const current: SiteSnapshot = {
+        group_id: site.group_id,
+        name: site.name,
+        url: site.url,
+        icon: site.icon || "",
+        description: site.description || "",
+        notes: site.notes || "",
+        tags: site.tags || [],
+        alt_urls: site.alt_urls || {},
+        custom_fields: site.custom_fields || {},
+    };
+
+    return (
+        <Box>
+            {error && (
+                <Alert severity='error' sx={{ mb: 2 }}>
+                    {error}
+                </Alert>
+            )}
+
+            {revisions.length === 0 ? (
+                <Typography variant='body2' color='text.secondary' sx={{ py: 2 }}>
+                    暂无历史版本，修改网站信息后会自动保存修改前的内容。
+                </Typography>
+            ) : (
+                <Stack spacing={1.5}>
+                    {revisions.map((revision, index) => {
+                        const next = index === 0 ? current : revisions[index - 1].snapshot;
+                        const changedFields = SITE_REVISION_FIELDS.filter(
+                            field => formatValue(field, revision.snapshot) !== formatValue(field, next)
+                        );
+
+                        return (
+                            <Paper key={revision.id} variant='outlined' sx={{ p: 1.5, borderRadius: 2 }}>
+                                <Box
+                                    sx={{
+                                        display: "flex",
+                                        justifyContent: "space-between",
+                                        alignItems: "center",
+                                        gap: 1,
+                                        mb: changedFields.length > 0 ? 1 : 0,
+                                    }}
+                                >
+                                    <Typography variant='body2' color='text.secondary'>
+                                        {formatTime(revision.created_at)} · {revision.username} 修改
+                                    </Typography>
+                                    <Button
+                                        size='small'
+                                        startIcon={<RestoreIcon />}
+                                        disabled={restoring}
+                                        onClick={() => handleRestore(revision)}
+                                    >
+                                        恢复此版本
+                                    </Button>
+                                </Box>
+                                {changedFields.map(field => (
+                                    <Typography
+                                        key={field}
+                                        variant='body2'
+                                        sx={{ wordBreak: "break-all", mb: 0.5 }}
+                                    >
+                                        <strong>{FIELD_LABELS[field]}：</strong>
+                                        <Box
+                                            component='span'
+                                            sx={{ color: "error.main", textDecoration: "line-through" }}
+                                        >
+                                            {formatValue(field, revision.snapshot)}
+                                        </Box>
+                                        {" → "}
+                                        <Box component='span' sx={{ color: "success.main" }}>
+                                            {formatValue(field, next)}
+                                        </Box>
+                                    </Typography>
+                                ))}
+                            </Paper>
+                        );
+                    })}
+                </Stack>
+            )}
+        </Box>
+    );
+};
+
+export default SiteRevisionHistory;
@@ -1,6 +1,15 @@
 // src/components/SiteSettingsModal.tsx
-import { useState } from "react";
-import { Site, Group } from "../API/http";
+import { useState, useRef } from "react";
+import {
+    Site,
+    Group,
+    SiteRevision,
+    CustomField,
+    CustomFieldValues,
+    normalizeAltUrls,
+    getIconId,
+    MAX_ICON_BYTES,
+} from "../API/http";
 // Material UI 导入
 import {
     Dialog,
@@ -21,11 +30,20 @@ import {
     Avatar,
     useTheme,
     SelectChangeEvent,
+    Tabs,
+    Tab,
+    CircularProgress,
 } from "@mui/material";
 import CloseIcon from "@mui/icons-material/Close";
 import DeleteIcon from "@mui/icons-material/Delete";
 import SaveIcon from "@mui/icons-material/Save";
 import CancelIcon from "@mui/icons-material/Cancel";
+import UploadFileIcon from "@mui/icons-material/UploadFile";
+import AutoFixHighIcon from "@mui/icons-material/AutoFixHigh";
+import TagInput from "./TagInput";
+import AltUrlsInput, { AltUrlRow } from "./AltUrlsInput";
+import CustomFieldInputs from "./CustomFieldInputs";
+import SiteRevisionHistory from "./SiteRevisionHistory";
 
 interface SiteSettingsModalProps {
     site: Site;
@@ -33,6 +51,11 @@ interface SiteSettingsModalProps {
     onDelete: (siteId: number) => void;
     onClose: () => void;
     groups?: Group[]; // 可选的分组列表
+    customFields?: CustomField[]; // 管理员定义的自定义字段
+    loadRevisions?: (siteId: number) => Promise<SiteRevision[]>; // 未提供时不显示历史版本
+    onRestoreRevision?: (siteId: number, revisionId: number) => Promise<void>;
+    onUploadIcon?: (file: Blob) => Promise<string>; // 未提供时只能填写图标URL
+    onDiscoverIcon?: (url: string) => Promise<string>; // 未提供时不显示自动获取按钮
 }
 
 export default function SiteSettingsModal({
@@ -41,8 +64,14 @@ export default function SiteSettingsModal({
     onDelete,
     onClose,
     groups = [],
+    customFields = [],
+    loadRevisions,
+    onRestoreRevision,
+    onUploadIcon,
+    onDiscoverIcon,
 }: SiteSettingsModalProps) {
     const theme = useTheme();
+    const [tab, setTab] = useState<"settings" | "history">("settings");
 
     // 存储字符串形式的group_id，与Material-UI的Select兼容
     const [formData, setFormData] = useState({
@@ -53,9 +82,20 @@ export default function SiteSettingsModal({
         notes: site.notes || "",
         group_id: String(site.group_id),
     });
+    const [tags, setTags] = useState<string[]>(site.tags || []);
+    const [altUrls, setAltUrls] = useState<AltUrlRow[]>(
+        Object.entries(site.alt_urls || {}).map(([name, url]) => ({ name, url }))
+    );
+    const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>(
+        site.custom_fields || {}
+    );
 
     // 用于预览图标
     const [iconPreview, setIconPreview] = useState<string | null>(site.icon || null);
+    // 正在上传或自动获取图标
+    const [iconLoading, setIconLoading] = useState<"upload" | "discover" | null>(null);
+    const [iconError, setIconError] = useState<string | null>(null);
+    const iconInputRef = useRef<HTMLInputElement>(null);
 
     // 处理表单字段变化
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -75,9 +115,14 @@ export default function SiteSettingsModal({
     const handleIconChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const { value } = e.target;
         setFormData(prev => ({ ...prev, icon: value }));
+        setIconError(null);
 
         // 检查URL是否是有效的图片URL
         const isValidImageUrl = (url: string): boolean => {
+            // 上传的图标
+            if (getIconId(url)) {
+                return true;
+            }
             // 检查URL格式
             try {
                 new URL(url);
@@ -100,6 +145,69 @@ export default function SiteSettingsModal({
         }
     };
 
+    // 上传图标文件，成功后填入图标地址
+    const uploadIcon = async (file: Blob) => {
+        if (!onUploadIcon) {
+            return;
+        }
+        if (!file.type.startsWith("image/")) {
+            setIconError("只能上传图片文件");
+            return;
+        }
+        if (file.size > MAX_ICON_BYTES) {
+            setIconError(`图标不能超过${MAX_ICON_BYTES / 1024}KB`);
+            return;
+        }
+
+        try {
+            setIconLoading("upload");
+            setIconError(null);
+            const url = await onUploadIcon(file);
+            setFormData(prev => ({ ...prev, icon: url }));
+            setIconPreview(url);
+        } catch (error) {
+            setIconError("上传图标失败: " + (error as Error).message);
+        } finally {
+            setIconLoading(null);
+        }
+    };
+
+    const handleIconFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ""; // 允许再次选择同一个文件
+        if (file) {
+            uploadIcon(file);
+        }
+    };
+
+    // 按网站链接自动获取图标
+    const handleDiscoverIcon = async () => {
+        if (!onDiscoverIcon || !formData.url) {
+            return;
+        }
+
+        try {
+            setIconLoading("discover");
+            setIconError(null);
+            const url = await onDiscoverIcon(formData.url);
+            setFormData(prev => ({ ...prev, icon: url }));
+            setIconPreview(url);
+        } catch (error) {
+            setIconError("获取图标失败: " + (error as Error).message);
+        } finally {
+            setIconLoading(null);
+        }
+    };
+
+    // 在图标输入框中粘贴图片时直接上传，粘贴文本时按URL处理
+    const handleIconPaste = (e: React.ClipboardEvent) => {
+        const file = Array.from(e.clipboardData.files).find(item => item.type.startsWith("image/"));
+        if (file && onUploadIcon) {
+            e.preventDefault();
+            uploadIcon(file);
+        }
+    };
+
     // 处理图标加载错误
     const handleIconError = () => {
         setIconPreview(null);
@@ -115,6 +223,11 @@ export default function SiteSettingsModal({
             ...site,
             ...formData,
             group_id: Number(formData.group_id),
+            tags,
+            alt_urls: normalizeAltUrls(
+                Object.fromEntries(altUrls.map(row => [row.name, row.url]))
+            ),
+            custom_fields: customFieldValues,
         });
 
         onClose();
@@ -123,7 +236,7 @@ export default function SiteSettingsModal({
     // 确认删除
     const confirmDelete = (e: React.MouseEvent) => {
         e.stopPropagation();
-        if (window.confirm("确定要删除这个网站吗？此操作不可恢复。")) {
+        if (window.confirm("确定要删除这个网站吗？删除后可以在回收站中恢复。")) {
             onDelete(site.id!);
             onClose();
         }
@@ -168,171 +281,258 @@ export default function SiteSettingsModal({
                 </IconButton>
             </DialogTitle>
 
+            {loadRevisions && onRestoreRevision && (
+                <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ px: 2 }}>
+                    <Tab value='settings' label='设置' />
+                    <Tab value='history' label='历史版本' />
+                </Tabs>
+            )}
+
             <Divider />
 
-            <form onSubmit={handleSubmit}>
+            {tab === "history" && loadRevisions && onRestoreRevision ? (
                 <DialogContent sx={{ pt: 2 }}>
-                    <Stack spacing={2.5}>
-                        {/* 网站名称 */}
-                        <TextField
-                            id='name'
-                            name='name'
-                            label='网站名称'
-                            required
-                            fullWidth
-                            value={formData.name || ""}
-                            onChange={handleChange}
-                            placeholder='输入网站名称'
-                            variant='outlined'
-                            size='small'
-                        />
-
-                        {/* 网站链接 */}
-                        <TextField
-                            id='url'
-                            name='url'
-                            label='网站链接'
-                            required
-                            fullWidth
-                            value={formData.url || ""}
-                            onChange={handleChange}
-                            placeholder='https://example.com'
-                            variant='outlined'
-                            size='small'
-                            type='url'
-                        />
-
-                        {/* 网站图标 */}
-                        <Box>
-                            <Typography variant='body2' color='text.secondary' gutterBottom>
-                                图标 URL
-                            </Typography>
-                            <Box sx={{ display: "flex", gap: 1.5, alignItems: "center" }}>
-                                {iconPreview ? (
-                                    <Avatar
-                                        src={iconPreview}
-                                        alt={formData.name || "Icon Preview"}
-                                        sx={{ width: 40, height: 40, borderRadius: 1.5 }}
-                                        imgProps={{
-                                            onError: handleIconError,
-                                            style: { objectFit: "cover" },
-                                        }}
-                                        variant='rounded'
+                    <SiteRevisionHistory
+                        site={site}
+                        groups={groups}
+                        loadRevisions={loadRevisions}
+                        onRestore={async (siteId, revisionId) => {
+                            await onRestoreRevision(siteId, revisionId);
+                            onClose();
+                        }}
+                    />
+                </DialogContent>
+            ) : (
+                <form onSubmit={handleSubmit}>
+                    <DialogContent sx={{ pt: 2 }}>
+                        <Stack spacing={2.5}>
+                            {/* 网站名称 */}
+                            <TextField
+                                id='name'
+                                name='name'
+                                label='网站名称'
+                                required
+                                fullWidth
+                                value={formData.name || ""}
+                                onChange={handleChange}
+                                placeholder='输入网站名称'
+                                variant='outlined'
+                                size='small'
+                            />
+
+                            {/* 网站链接 */}
+                            <TextField
+                                id='url'
+                                name='url'
+                                label='网站链接'
+                                required
+                                fullWidth
+                                value={formData.url || ""}
+                                onChange={handleChange}
+                                placeholder='https://example.com'
+                                variant='outlined'
+                                size='small'
+                                type='url'
+                            />
+
+                            {/* 备用链接，按网络环境选择打开哪一个 */}
+                            <AltUrlsInput value={altUrls} onChange={setAltUrls} />
+
+                            {/* 网站图标 */}
+                            <Box>
+                                <Typography variant='body2' color='text.secondary' gutterBottom>
+                                    图标 URL
+                                </Typography>
+                                <Box sx={{ display: "flex", gap: 1.5, alignItems: "center" }}>
+                                    {iconPreview ? (
+                                        <Avatar
+                                            src={iconPreview}
+                                            alt={formData.name || "Icon Preview"}
+                                            sx={{ width: 40, height: 40, borderRadius: 1.5 }}
+                                            imgProps={{
+                                                onError: handleIconError,
+                                                style: { objectFit: "cover" },
+                                            }}
+                                            variant='rounded'
+                                        />
+                                    ) : (
+                                        <Avatar
+                                            sx={{
+                                                width: 40,
+                                                height: 40,
+                                                borderRadius: 1.5,
+                                                bgcolor: "primary.light",
+                                                color: "primary.main",
+                                                border: "1px solid",
+                                                borderColor: "primary.main",
+                                            }}
+                                            variant='rounded'
+                                        >
+                                            {fallbackIcon}
+                                        </Avatar>
+                                    )}
+
+                                    <TextField
+                                        id='icon'
+                                        name='icon'
+                                        fullWidth
+                                        value={formData.icon || ""}
+                                        onChange={handleIconChange}
+                                        onPaste={handleIconPaste}
+                                        placeholder='https://example.com/icon.png'
+                                        variant='outlined'
+                                        size='small'
+                                        error={!!iconError}
                                     />
-                                ) : (
-                                    <Avatar
-                                        sx={{
-                                            width: 40,
-                                            height: 40,
-                                            borderRadius: 1.5,
-                                            bgcolor: "primary.light",
-                                            color: "primary.main",
-                                            border: "1px solid",
-                                            borderColor: "primary.main",
-                                        }}
-                                        variant='rounded'
+
+                                    {onDiscoverIcon && (
+                                        <IconButton
+                                            aria-label='自动获取图标'
+                                            title='自动获取图标'
+                                            onClick={handleDiscoverIcon}
+                                            disabled={!!iconLoading || !formData.url}
+                                        >
+                                            {iconLoading === "discover" ? (
+                                                <CircularProgress size={20} />
+                                            ) : (
+                                                <AutoFixHighIcon />
+                                            )}
+                                        </IconButton>
+                                    )}
+
+                                    {onUploadIcon && (
+                                        <>
+                                            <input
+                                                ref={iconInputRef}
+                                                type='file'
+                                                accept='image/*'
+                                                hidden
+                                                onChange={handleIconFileSelect}
+                                            />
+                                            <IconButton
+                                                aria-label='上传图标'
+                                                title='上传图标'
+                                                onClick={() => iconInputRef.current?.click()}
+                                                disabled={!!iconLoading}
+                                            >
+                                                {iconLoading === "upload" ? (
+                                                    <CircularProgress size={20} />
+                                                ) : (
+                                                    <UploadFileIcon />
+                                                )}
+                                            </IconButton>
+                                        </>
+                                    )}
+                                </Box>
+                                {(iconError || onUploadIcon) && (
+                                    <Typography
+                                        variant='caption'
+                                        color={iconError ? "error" : "text.secondary"}
+                                        sx={{ display: "block", mt: 0.5 }}
                                     >
-                                        {fallbackIcon}
-                                    </Avatar>
+                                        {iconError ||
+                                            `可以上传或直接粘贴图片，不超过${MAX_ICON_BYTES / 1024}KB`}
+                                    </Typography>
                                 )}
-
-                                <TextField
-                                    id='icon'
-                                    name='icon'
-                                    fullWidth
-                                    value={formData.icon || ""}
-                                    onChange={handleIconChange}
-                                    placeholder='https://example.com/icon.png'
-                                    variant='outlined'
-                                    size='small'
-                                />
                             </Box>
-                        </Box>
 
-                        {/* 分组选择 */}
-                        {groups.length > 0 && (
-                            <FormControl fullWidth size='small'>
-                                <InputLabel id='group-select-label'>所属分组</InputLabel>
-                                <Select
-                                    labelId='group-select-label'
-                                    id='group_id'
-                                    name='group_id'
-                                    value={formData.group_id}
-                                    label='所属分组'
-                                    onChange={handleSelectChange}
-                                >
-                                    {groups.map(group => (
-                                        <MenuItem key={group.id} value={String(group.id)}>
-                                            {group.name}
-                                        </MenuItem>
-                                    ))}
-                                </Select>
-                            </FormControl>
-                        )}
-
-                        {/* 网站描述 */}
-                        <TextField
-                            id='description'
-                            name='description'
-                            label='网站描述'
-                            multiline
-                            rows={2}
-                            fullWidth
-                            value={formData.description || ""}
-                            onChange={handleChange}
-                            placeholder='简短的网站描述'
-                            variant='outlined'
-                            size='small'
-                        />
-
-                        {/* 备注 */}
-                        <TextField
-                            id='notes'
-                            name='notes'
-                            label='备注'
-                            multiline
-                            rows={3}
-                            fullWidth
-                            value={formData.notes || ""}
-                            onChange={handleChange}
-                            placeholder='可选的私人备注'
-                            variant='outlined'
-                            size='small'
-                        />
-                    </Stack>
-                </DialogContent>
+                            {/* 分组选择 */}
+                            {groups.length > 0 && (
+                                <FormControl fullWidth size='small'>
+                                    <InputLabel id='group-select-label'>所属分组</InputLabel>
+                                    <Select
+                                        labelId='group-select-label'
+                                        id='group_id'
+                                        name='group_id'
+                                        value={formData.group_id}
+                                        label='所属分组'
+                                        onChange={handleSelectChange}
+                                    >
+                                        {groups.map(group => (
+                                            <MenuItem key={group.id} value={String(group.id)}>
+                                                {group.name}
+                                            </MenuItem>
+                                        ))}
+                                    </Select>
+                                </FormControl>
+                            )}
 
-                <DialogActions sx={{ px: 3, pb: 3, pt: 1, justifyContent: "space-between" }}>
-                    <Button
-                        onClick={confirmDelete}
-                        color='error'
-                        variant='contained'
-                        startIcon={<DeleteIcon />}
-                    >
-                        删除
-                    </Button>
-
-                    <Box>
-                        <Button
-                            onClick={onClose}
-                            color='inherit'
-                            variant='outlined'
-                            sx={{ mr: 1.5 }}
-                            startIcon={<CancelIcon />}
-                        >
-                            取消
-                        </Button>
+                            {/* 标签 */}
+                            <TagInput value={tags} onChange={setTags} />
+
+                            {/* 网站描述 */}
+                            <TextField
+                                id='description'
+                                name='description'
+                                label='网站描述'
+                                multiline
+                                rows={2}
+                                fullWidth
+                                value={formData.description || ""}
+                                onChange={handleChange}
+                                placeholder='简短的网站描述'
+                                variant='outlined'
+                                size='small'
+                            />
+
+                            {/* 备注 */}
+                            <TextField
+                                id='notes'
+                                name='notes'
+                                label='备注'
+                                multiline
+                                rows={3}
+                                fullWidth
+                                value={formData.notes || ""}
+                                onChange={handleChange}
+                                placeholder='可选的私人备注'
+                                variant='outlined'
+                                size='small'
+                            />
+
+                            {/* 自定义字段 */}
+                            {customFields.length > 0 && (
+                                <CustomFieldInputs
+                                    fields={customFields}
+                                    value={customFieldValues}
+                                    onChange={setCustomFieldValues}
+                                />
+                            )}
+                        </Stack>
+                    </DialogContent>
+
+                    <DialogActions sx={{ px: 3, pb: 3, pt: 1, justifyContent: "space-between" }}>
                         <Button
-                            type='submit'
-                            color='primary'
+                            onClick={confirmDelete}
+                            color='error'
                             variant='contained'
-                            startIcon={<SaveIcon />}
+                            startIcon={<DeleteIcon />}
                         >
-                            保存
+                            删除
                         </Button>
-                    </Box>
-                </DialogActions>
-            </form>
+
+                        <Box>
+                            <Button
+                                onClick={onClose}
+                                color='inherit'
+                                variant='outlined'
+                                sx={{ mr: 1.5 }}
+                                startIcon={<CancelIcon />}
+                            >
+                                取消
+                            </Button>
+                            <Button
+                                type='submit'
+                                color='primary'
+                                variant='contained'
+                                startIcon={<SaveIcon />}
+                            >
+                                保存
+                            </Button>
+                        </Box>
+                    </DialogActions>
+                </form>
+            )}
         </Dialog>
     );
 }
@@ -3,13 +3,23 @@ import { CSS } from "@dnd-kit/utilities";
 import { GroupWithSites } from "../types";
 import { Paper, Typography, Box } from "@mui/material";
 import DragIndicatorIcon from "@mui/icons-material/DragIndicator";
+import GroupParentSelect from "./GroupParentSelect";
 
 interface SortableGroupItemProps {
     id: string;
     group: GroupWithSites;
+    depth?: number; // 分组层级，用于缩进显示
+    groups?: GroupWithSites[]; // 所有分组，提供时可以修改上级分组
+    onParentChange?: (groupId: number, parentId: number | null) => void;
 }
 
-export default function SortableGroupItem({ id, group }: SortableGroupItemProps) {
+export default function SortableGroupItem({
+    id,
+    group,
+    depth = 0,
+    groups,
+    onParentChange,
+}: SortableGroupItemProps) {
     const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
         id,
     });
@@ -27,6 +37,7 @@ export default function SortableGroupItem({ id, group }: SortableGroupItemProps)
             style={style}
             sx={{
                 p: 3,
+                ml: { xs: depth * 2, sm: depth * 4 },
                 borderRadius: 4,
                 transition: isDragging ? "none !important" : "all 0.3s ease-in-out",
                 border: "1px solid transparent",
@@ -64,9 +75,32 @@ export default function SortableGroupItem({ id, group }: SortableGroupItemProps)
                         opacity: 0.7,
                     }}
                 />
-                <Typography variant='h5' component='h2' fontWeight='600' color='text.primary'>
+                <Typography
+                    variant={depth > 0 ? "h6" : "h5"}
+                    component='h2'
+                    fontWeight='600'
+                    color='text.primary'
+                    sx={{ flexGrow: 1 }}
+                >
                     {group.name}
                 </Typography>
+                {groups && onParentChange && (
+                    // 阻止事件冒泡，避免操作下拉框时触发拖拽
+                    <Box
+                        sx={{ width: { xs: 140, sm: 220 }, flexShrink: 0 }}
+                        onPointerDown={e => e.stopPropagation()}
+                        onTouchStart={e => e.stopPropagation()}
+                        onKeyDown={e => e.stopPropagation()}
+                    >
+                        <GroupParentSelect
+                            groups={groups}
+                            value={group.parent_id ?? null}
+                            onChange={parentId => onParentChange(group.id, parentId)}
+                            excludeId={group.id}
+                            size='small'
+                        />
+                    </Box>
+                )}
             </Box>
         </Paper>
     );
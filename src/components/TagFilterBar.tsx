@@ -0,0 +1,44 @@
+import React from "react";
+import { Box, Chip } from "@mui/material";
+import LocalOfferIcon from "@mui/icons-material/LocalOffer";
+
+interface TagFilterBarProps {
+    tags: string[]; // 所有可选标签
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}
+
+// 标签筛选栏：点击标签切换选中状态，选中多个标签时显示带有任意一个标签的站点
+const TagFilterBar: React.FC<TagFilterBarProps> = ({ tags, selected, onChange }) => {
+    const toggleTag = (tag: string) => {
+        onChange(selected.includes(tag) ? selected.filter(item => item !== tag) : [...selected, tag]);
+    };
+
+    return (
+        <Box sx={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 1, mb: 4 }}>
+            <LocalOfferIcon fontSize='small' color='action' />
+            <Chip
+                label='全部'
+                size='small'
+                color={selected.length === 0 ? "primary" : "default"}
+                variant={selected.length === 0 ? "filled" : "outlined"}
+                onClick={() => onChange([])}
+            />
+            {tags.map(tag => {
+                const active = selected.includes(tag);
+                return (
+                    <Chip
+                        key={tag}
+                        label={tag}
+                        size='small'
+                        color={active ? "primary" : "default"}
+                        variant={active ? "filled" : "outlined"}
+                        onClick={() => toggleTag(tag)}
+                    />
+                );
+            })}
+        </Box>
+    );
+};
+
+export default TagFilterBar;
@@ -0,0 +1,54 @@
+import React from "react";
+import { Autocomplete, Chip, TextField } from "@mui/material";
+import { normalizeTags, MAX_TAG_LENGTH, MAX_TAGS_PER_SITE } from "../API/http";
+
+interface TagInputProps {
+    value: string[];
+    onChange: (tags: string[]) => void;
+    options?: string[]; // 已有标签，作为输入建议
+    label?: string;
+}
+
+// 标签输入框：输入后回车或逗号添加标签，点击标签上的叉删除
+const TagInput: React.FC<TagInputProps> = ({ value, onChange, options = [], label = "标签" }) => {
+    const full = value.length >= MAX_TAGS_PER_SITE;
+
+    return (
+        <Autocomplete
+            multiple
+            freeSolo
+            size='small'
+            options={options.filter(option => !value.includes(option))}
+            value={value}
+            onChange={(_, tags) => onChange(normalizeTags(tags))}
+            // 输入逗号时也视为完成一个标签
+            onInputChange={(_, input, reason) => {
+                if (reason === "input" && /[,，]/.test(input)) {
+                    onChange(normalizeTags([...value, ...input.split(/[,，]/)]));
+                }
+            }}
+            renderValue={(tags, getItemProps) =>
+                tags.map((tag, index) => {
+                    const { key, ...itemProps } = getItemProps({ index });
+                    return <Chip key={key} label={tag} size='small' {...itemProps} />;
+                })
+            }
+            renderInput={params => (
+                <TextField
+                    {...params}
+                    label={label}
+                    placeholder={full ? "" : "输入后按回车添加"}
+                    helperText={`最多 ${MAX_TAGS_PER_SITE} 个，每个不超过 ${MAX_TAG_LENGTH} 个字符`}
+                    slotProps={{
+                        htmlInput: {
+                            ...params.inputProps,
+                            maxLength: MAX_TAG_LENGTH,
+                        },
+                    }}
+                />
+            )}
+        />
+    );
+};
+
+export default TagInput;
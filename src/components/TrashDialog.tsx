@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogContentText,
+    IconButton,
+    Table,
+    TableHead,
+    TableBody,
+    TableRow,
+    TableCell,
+    TableContainer,
+    Button,
+    Alert,
+    Box,
+    CircularProgress,
+    Typography,
+    Tabs,
+    Tab,
+    Stack,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import RestoreIcon from "@mui/icons-material/Restore";
+import DeleteForeverIcon from "@mui/icons-material/DeleteForever";
+import { TrashContents, TrashedGroup, TrashedSite } from "../API/http";
+
+interface TrashDialogProps {
+    open: boolean;
+    onClose: () => void;
+    loadTrash: () => Promise<TrashContents>;
+    onRestoreGroup: (groupId: number) => Promise<void>;
+    onRestoreSite: (siteId: number) => Promise<void>;
+    onPurgeGroup: (groupId: number) => Promise<void>;
+    onPurgeSite: (siteId: number) => Promise<void>;
+    onEmpty: () => Promise<void>;
+}
+
+// 删除时间为UTC的SQLite时间戳（YYYY-MM-DD HH:MM:SS），转换为本地时间显示
+function formatDeletedAt(value: string): string {
+    const date = new Date(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+    return isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+const TrashDialog: React.FC<TrashDialogProps> = ({
+    open,
+    onClose,
+    loadTrash,
+    onRestoreGroup,
+    onRestoreSite,
+    onPurgeGroup,
+    onPurgeSite,
+    onEmpty,
+}) => {
+    const [trash, setTrash] = useState<TrashContents | null>(null);
+    const [tab, setTab] = useState<"groups" | "sites">("groups");
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const fetchTrash = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            setTrash(await loadTrash());
+        } catch (error) {
+            setError("加载回收站失败: " + (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [loadTrash]);
+
+    // 每次打开时刷新回收站
+    useEffect(() => {
+        if (open) {
+            fetchTrash();
+        }
+    }, [open, fetchTrash]);
+
+    // 执行操作后重新加载列表，操作进行中禁用所有按钮
+    const runAction = async (action: () => Promise<void>, failure: string) => {
+        try {
+            setBusy(true);
+            setError(null);
+            await action();
+            await fetchTrash();
+        } catch (error) {
+            setError(`${failure}: ${(error as Error).message}`);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handlePurgeGroup = (group: TrashedGroup) => {
+        if (!window.confirm(`确定要彻底删除分组 "${group.name}" 及其中的网站吗？此操作无法撤销。`)) {
+            return;
+        }
+        runAction(() => onPurgeGroup(group.id!), "彻底删除分组失败");
+    };
+
+    const handlePurgeSite = (site: TrashedSite) => {
+        if (!window.confirm(`确定要彻底删除网站 "${site.name}" 吗？此操作无法撤销。`)) {
+            return;
+        }
+        runAction(() => onPurgeSite(site.id!), "彻底删除网站失败");
+    };
+
+    const handleEmpty = () => {
+        if (!window.confirm("确定要清空回收站吗？其中的所有分组和网站都将被彻底删除，无法撤销。")) {
+            return;
+        }
+        runAction(onEmpty, "清空回收站失败");
+    };
+
+    const groups = trash?.groups || [];
+    const sites = trash?.sites || [];
+    const isEmpty = groups.length === 0 && sites.length === 0;
+
+    const renderActions = (
+        onRestore: () => void,
+        onPurge: () => void,
+        restoreDisabled = false
+    ) => (
+        <Stack direction='row' spacing={1} justifyContent='flex-end'>
+            <Button
+                size='small'
+                variant='outlined'
+                startIcon={<RestoreIcon />}
+                disabled={busy || restoreDisabled}
+                onClick={onRestore}
+            >
+                恢复
+            </Button>
+            <Button
+                size='small'
+                color='error'
+                variant='outlined'
+                startIcon={<DeleteForeverIcon />}
+                disabled={busy}
+                onClick={onPurge}
+            >
+                彻底删除
+            </Button>
+        </Stack>
+    );
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth='md'
+            fullWidth
+            PaperProps={{
+                sx: {
+                    m: { xs: 2, sm: "auto" },
+                    width: { xs: "calc(100% - 32px)", sm: "auto" },
+                },
+            }}
+        >
+            <DialogTitle>
+                回收站
+                <IconButton
+                    aria-label='close'
+                    onClick={onClose}
+                    sx={{
+                        position: "absolute",
+                        right: 8,
+                        top: 8,
+                    }}
+                >
+                    <CloseIcon />
+                </IconButton>
+            </DialogTitle>
+            <DialogContent>
+                <Box
+                    sx={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        alignItems: "center",
+                        gap: 2,
+                        mb: 2,
+                    }}
+                >
+                    <DialogContentText>
+                        删除的分组和网站会先移入回收站，恢复后回到原来的位置。
+                        {trash &&
+                            (trash.retentionDays > 0
+                                ? `超过 ${trash.retentionDays} 天的内容会被自动彻底删除。`
+                                : "回收站中的内容不会自动清理。")}
+                    </DialogContentText>
+                    <Button
+                        color='error'
+                        variant='contained'
+                        size='small'
+                        disabled={isEmpty || busy}
+                        onClick={handleEmpty}
+                        sx={{ flexShrink: 0 }}
+                    >
+                        清空回收站
+                    </Button>
+                </Box>
+
+                {error && (
+                    <Alert severity='error' sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 1 }}>
+                    <Tab value='groups' label={`分组 (${groups.length})`} />
+                    <Tab value='sites' label={`网站 (${sites.length})`} />
+                </Tabs>
+
+                {loading && !trash ? (
+                    <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+                        <CircularProgress size={32} />
+                    </Box>
+                ) : tab === "groups" ? (
+                    groups.length === 0 ? (
+                        <Typography variant='body2' color='text.secondary' sx={{ py: 2 }}>
+                            回收站中没有分组
+                        </Typography>
+                    ) : (
+                        <TableContainer>
+                            <Table size='small'>
+                                <TableHead>
+                                    <TableRow>
+                                        <TableCell>分组</TableCell>
+                                        <TableCell>网站数</TableCell>
+                                        <TableCell>删除时间</TableCell>
+                                        <TableCell align='right'>操作</TableCell>
+                                    </TableRow>
+                                </TableHead>
+                                <TableBody>
+                                    {groups.map(group => (
+                                        <TableRow key={group.id}>
+                                            <TableCell>{group.name}</TableCell>
+                                            <TableCell>{group.site_count}</TableCell>
+                                            <TableCell>{formatDeletedAt(group.deleted_at)}</TableCell>
+                                            <TableCell align='right'>
+                                                {renderActions(
+                                                    () =>
+                                                        runAction(
+                                                            () => onRestoreGroup(group.id!),
+                                                            "恢复分组失败"
+                                                        ),
+                                                    () => handlePurgeGroup(group)
+                                                )}
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </TableContainer>
+                    )
+                ) : sites.length === 0 ? (
+                    <Typography variant='body2' color='text.secondary' sx={{ py: 2 }}>
+                        回收站中没有单独删除的网站
+                    </Typography>
+                ) : (
+                    <TableContainer>
+                        <Table size='small'>
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>网站</TableCell>
+                                    <TableCell>所属分组</TableCell>
+                                    <TableCell>删除时间</TableCell>
+                                    <TableCell align='right'>操作</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {sites.map(site => (
+                                    <TableRow key={site.id}>
+                                        <TableCell title={site.url}>{site.name}</TableCell>
+                                        <TableCell>
+                                            {site.group_name}
+                                            {site.group_deleted && (
+                                                <Typography variant='caption' color='text.secondary'>
+                                                    {" "}
+                                                    （分组也在回收站中）
+                                                </Typography>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>{formatDeletedAt(site.deleted_at)}</TableCell>
+                                        <TableCell align='right'>
+                                            {renderActions(
+                                                () =>
+                                                    runAction(
+                                                        () => onRestoreSite(site.id!),
+                                                        "恢复网站失败"
+                                                    ),
+                                                () => handlePurgeSite(site),
+                                                site.group_deleted
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </TableContainer>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+};
+
+export default TrashDialog;
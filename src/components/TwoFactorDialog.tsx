@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+    Dialog,
+    DialogTitle,
+    DialogContent,
+    DialogContentText,
+    DialogActions,
+    IconButton,
+    Button,
+    Alert,
+    Box,
+    CircularProgress,
+    Typography,
+    TextField,
+    Link,
+    Stack,
+} from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import { TwoFactorStatus, TwoFactorSetup } from "../API/http";
+
+interface TwoFactorDialogProps {
+    open: boolean;
+    onClose: () => void;
+    loadStatus: () => Promise<TwoFactorStatus>;
+    onSetup: () => Promise<TwoFactorSetup>;
+    onEnable: (code: string) => Promise<string[]>;
+    onDisable: (code: string) => Promise<void>;
+}
+
+const TwoFactorDialog: React.FC<TwoFactorDialogProps> = ({
+    open,
+    onClose,
+    loadStatus,
+    onSetup,
+    onEnable,
+    onDisable,
+}) => {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState("");
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchStatus = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError(null);
+            setStatus(await loadStatus());
+        } catch (error) {
+            setError("加载两步验证状态失败: " + (error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    }, [loadStatus]);
+
+    // 每次打开时重置流程并刷新状态
+    useEffect(() => {
+        if (open) {
+            setSetup(null);
+            setRecoveryCodes(null);
+            setCode("");
+            fetchStatus();
+        }
+    }, [open, fetchStatus]);
+
+    // 执行操作并统一处理加载和错误状态
+    const runAction = async (action: () => Promise<void>) => {
+        try {
+            setLoading(true);
+            setError(null);
+            await action();
+        } catch (error) {
+            setError((error as Error).message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSetup = () =>
+        runAction(async () => {
+            setSetup(await onSetup());
+            setCode("");
+        });
+
+    const handleEnable = () =>
+        runAction(async () => {
+            setRecoveryCodes(await onEnable(code.trim()));
+            setSetup(null);
+            setCode("");
+            setStatus(await loadStatus());
+        });
+
+    const handleDisable = () =>
+        runAction(async () => {
+            await onDisable(code.trim());
+            setCode("");
+            setStatus(await loadStatus());
+        });
+
+    const codeInput = (
+        <TextField
+            label='验证码'
+            size='small'
+            fullWidth
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            autoComplete='one-time-code'
+        />
+    );
+
+    return (
+        <Dialog
+            open={open}
+            onClose={onClose}
+            maxWidth='sm'
+            fullWidth
+            PaperProps={{
+                sx: {
+                    m: { xs: 2, sm: "auto" },
+                    width: { xs: "calc(100% - 32px)", sm: "auto" },
+                },
+            }}
+        >
+            <DialogTitle>
+                两步验证
+                <IconButton
+                    aria-label='close'
+                    onClick={onClose}
+                    sx={{
+                        position: "absolute",
+                        right: 8,
+                        top: 8,
+                    }}
+                >
+                    <CloseIcon />
+                </IconButton>
+            </DialogTitle>
+            <DialogContent>
+                <DialogContentText sx={{ mb: 2 }}>
+                    启用后，登录时除密码外还需要输入身份验证器应用（如 Google Authenticator、1Password）生成的 6 位验证码。
+                </DialogContentText>
+
+                {error && (
+                    <Alert severity='error' sx={{ mb: 2 }}>
+                        {error}
+                    </Alert>
+                )}
+
+                {recoveryCodes && (
+                    <Alert severity='success' sx={{ mb: 2 }}>
+                        两步验证已启用。请妥善保存以下恢复码，每个恢复码只能使用一次，关闭后将无法再次查看：
+                        <Box
+                            component='pre'
+                            sx={{ mt: 1, mb: 0, fontFamily: "monospace", userSelect: "all" }}
+                        >
+                            {recoveryCodes.join("\n")}
+                        </Box>
+                    </Alert>
+                )}
+
+                {!status ? (
+                    <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+                        <CircularProgress size={32} />
+                    </Box>
+                ) : status.enabled ? (
+                    <Stack spacing={2}>
+                        <Typography variant='body2'>
+                            两步验证已启用，剩余 {status.recoveryCodesRemaining} 个恢复码。
+                        </Typography>
+                        <Typography variant='body2' color='text.secondary'>
+                            如需关闭，请输入当前验证码或一个恢复码：
+                        </Typography>
+                        {codeInput}
+                    </Stack>
+                ) : setup ? (
+                    <Stack spacing={2}>
+                        <Typography variant='body2'>
+                            1. 在手机上用身份验证器应用打开以下链接，或手动输入密钥：
+                        </Typography>
+                        <Link href={setup.otpauthUri} sx={{ wordBreak: "break-all" }}>
+                            {setup.otpauthUri}
+                        </Link>
+                        <Typography
+                            variant='body2'
+                            sx={{ fontFamily: "monospace", userSelect: "all", wordBreak: "break-all" }}
+                        >
+                            {setup.secret}
+                        </Typography>
+                        <Typography variant='body2'>2. 输入应用中显示的 6 位验证码完成启用：</Typography>
+                        {codeInput}
+                    </Stack>
+                ) : (
+                    <Typography variant='body2'>尚未启用两步验证。</Typography>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ px: 3, pb: 3 }}>
+                <Button onClick={onClose} variant='outlined'>
+                    关闭
+                </Button>
+                {status && status.enabled && (
+                    <Button
+                        onClick={handleDisable}
+                        variant='contained'
+                        color='error'
+                        disabled={loading || !code.trim()}
+                    >
+                        关闭两步验证
+                    </Button>
+                )}
+                {status && !status.enabled && !setup && (
+                    <Button onClick={handleSetup} variant='contained' disabled={loading}>
+                        开始设置
+                    </Button>
+                )}
+                {status && !status.enabled && setup && (
+                    <Button
+                        onClick={handleEnable}
+                        variant='contained'
+                        disabled={loading || !code.trim()}
+                    >
+                        验证并启用
+                    </Button>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default TwoFactorDialog;
@@ -1,7 +1,10 @@
-import { Group, Site } from "./API/http";
+import { Group, GroupNode, Site } from "./API/http";
 
 // 确保GroupWithSites的id字段必定存在
 export interface GroupWithSites extends Omit<Group, "id"> {
     id: number; // 确保id始终存在
     sites: Site[];
 }
+
+// 带站点的分组树节点
+export type GroupTreeNode = GroupNode<GroupWithSites>;
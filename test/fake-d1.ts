@@ -0,0 +1,73 @@
+// 测试用的内存D1数据库，只实现自动获取网站图标用到的语句，遇到其他语句时直接报错
+type Row = Record<string, unknown>;
+
+class FakeStatement {
+    constructor(
+        private readonly db: FakeD1,
+        readonly sql: string,
+        readonly params: unknown[] = []
+    ) {}
+
+    bind(...params: unknown[]): FakeStatement {
+        return new FakeStatement(this.db, this.sql, params);
+    }
+
+    async first<T = Row>(column?: string): Promise<T | null> {
+        const row = this.db.execute(this.sql, this.params)[0];
+        if (!row) {
+            return null;
+        }
+        return (column ? row[column] : row) as T;
+    }
+
+    async all<T = Row>(): Promise<{ success: true; results: T[] }> {
+        return { success: true, results: this.db.execute(this.sql, this.params) as T[] };
+    }
+
+    async run(): Promise<{ success: true; results: Row[] }> {
+        return { success: true, results: this.db.execute(this.sql, this.params) };
+    }
+}
+
+export class FakeD1 {
+    readonly icons = new Map<string, Row>();
+    readonly faviconCache = new Map<string, Row>();
+
+    prepare(sql: string): FakeStatement {
+        return new FakeStatement(this, sql);
+    }
+
+    async batch(statements: FakeStatement[]): Promise<{ success: true; results: Row[] }[]> {
+        return Promise.all(statements.map(statement => statement.run()));
+    }
+
+    execute(sql: string, params: unknown[]): Row[] {
+        const statement = sql.replace(/\s+/g, " ").trim();
+        if (statement.startsWith("SELECT icon_id, source, fetched_at FROM favicon_cache WHERE url = ?")) {
+            const row = this.faviconCache.get(String(params[0]));
+            return row ? [row] : [];
+        }
+        if (statement.startsWith("SELECT id FROM icons WHERE id = ?")) {
+            return this.icons.has(String(params[0])) ? [{ id: params[0] }] : [];
+        }
+        if (statement.startsWith("INSERT INTO icons ")) {
+            const [id, content_type, data, size] = params;
+            this.icons.set(String(id), { id, content_type, data, size });
+            return [];
+        }
+        if (statement.startsWith("DELETE FROM favicon_cache WHERE fetched_at < ?")) {
+            for (const [url, row] of this.faviconCache) {
+                if (Number(row.fetched_at) < Number(params[0])) {
+                    this.faviconCache.delete(url);
+                }
+            }
+            return [];
+        }
+        if (statement.startsWith("INSERT INTO favicon_cache ")) {
+            const [url, icon_id, source, fetched_at] = params;
+            this.faviconCache.set(String(url), { url, icon_id, source, fetched_at });
+            return [];
+        }
+        throw new Error(`FakeD1不支持的语句: ${statement}`);
+    }
+}
@@ -0,0 +1,200 @@
+// 自动获取网站图标的测试，用本地HTTP服务模拟外部网站
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { fetchLimited, findIconUrls, NavigationAPI } from "../src/API/http";
+import { FakeD1 } from "./fake-d1";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const ICO_SIGNATURE = [0x00, 0x00, 0x01, 0x00];
+
+// 生成指定签名开头的图片内容，marker用于区分不同的图标
+function image(signature: number[], marker: number, size = 64): Buffer {
+    const bytes = Buffer.alloc(size, marker);
+    bytes.set(signature);
+    return bytes;
+}
+
+const LINKS_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+    <title>Links</title>
+    <link rel="icon" href="/small.png" sizes="16x16">
+    <link rel="apple-touch-icon" href="/apple.png">
+    <link rel="manifest" href="/site.webmanifest">
+</head>
+<body></body>
+</html>`;
+
+const MANIFEST = JSON.stringify({
+    icons: [
+        { src: "/icons/512.png", sizes: "512x512", type: "image/png" },
+        { src: "/icons/mask.png", sizes: "1024x1024", purpose: "maskable" },
+    ],
+});
+
+// 模拟网站的路由，/hang和/stall不会完成响应，用于超时测试
+const routes: Record<string, (res: ServerResponse) => void> = {
+    "/links": res => send(res, "text/html", LINKS_PAGE),
+    "/site.webmanifest": res => send(res, "application/manifest+json", MANIFEST),
+    "/icons/512.png": res => send(res, "image/png", image(PNG_SIGNATURE, 1)),
+    "/apple.png": res => send(res, "image/png", image(PNG_SIGNATURE, 2)),
+    "/small.png": res => send(res, "image/png", image(PNG_SIGNATURE, 3)),
+    "/favicon.ico": res => send(res, "image/x-icon", image(ICO_SIGNATURE, 4)),
+    "/plain/page": res => send(res, "text/html", "<html><head><title>Plain</title></head></html>"),
+    "/oversized": res =>
+        send(
+            res,
+            "text/html",
+            '<html><head><link rel="icon" href="/huge.png" sizes="512x512"><link rel="icon" href="/small.png"></head></html>'
+        ),
+    "/huge.png": res => send(res, "image/png", image(PNG_SIGNATURE, 5, 300 * 1024)),
+    "/big": res => send(res, "application/octet-stream", Buffer.alloc(2000, 1)),
+    "/hang": () => {},
+    "/stall": res => {
+        res.writeHead(200, { "Content-Type": "application/octet-stream" });
+        res.write(Buffer.alloc(100, 1));
+    },
+};
+
+function send(res: ServerResponse, contentType: string, body: string | Buffer) {
+    res.writeHead(200, { "Content-Type": contentType });
+    res.end(body);
+}
+
+const requests: string[] = [];
+const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    requests.push(path);
+    const route = routes[path];
+    if (route) {
+        route(res);
+    } else {
+        res.writeHead(404);
+        res.end();
+    }
+});
+let origin = "";
+
+before(async () => {
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    server.closeAllConnections();
+    server.close();
+});
+
+beforeEach(() => {
+    requests.length = 0;
+});
+
+describe("findIconUrls", () => {
+    it("按尺寸从大到小排列页面图标、apple-touch-icon和manifest图标，最后是/favicon.ico", async () => {
+        assert.deepEqual(await findIconUrls(`${origin}/links`), [
+            `${origin}/icons/512.png`,
+            `${origin}/apple.png`,
+            `${origin}/small.png`,
+            `${origin}/favicon.ico`,
+        ]);
+    });
+
+    it("页面没有图标链接时只尝试/favicon.ico", async () => {
+        assert.deepEqual(await findIconUrls(`${origin}/plain/page`), [`${origin}/favicon.ico`]);
+    });
+
+    it("网页无法访问时仍然尝试/favicon.ico", async () => {
+        assert.deepEqual(await findIconUrls(`${origin}/missing`), [`${origin}/favicon.ico`]);
+    });
+});
+
+describe("fetchLimited", () => {
+    it("内容不超过限制时完整读取", async () => {
+        const data = await fetchLimited(`${origin}/big`, 2000);
+        assert.equal(data?.bytes.length, 2000);
+        assert.equal(data?.contentType, "application/octet-stream");
+    });
+
+    it("内容超过限制时返回null，truncate为true时截断", async () => {
+        assert.equal(await fetchLimited(`${origin}/big`, 1000), null);
+        const data = await fetchLimited(`${origin}/big`, 1000, true);
+        assert.equal(data?.bytes.length, 1000);
+    });
+
+    it("请求失败时返回null", async () => {
+        assert.equal(await fetchLimited(`${origin}/missing`, 1000), null);
+    });
+
+    it("服务器不响应或中途停止发送时超时返回null", async t => {
+        // 缩短超时时间，避免测试等待5秒
+        const timeout = AbortSignal.timeout.bind(AbortSignal);
+        t.mock.method(AbortSignal, "timeout", () => timeout(100));
+        assert.equal(await fetchLimited(`${origin}/hang`, 1000), null);
+        assert.equal(await fetchLimited(`${origin}/stall`, 1000), null);
+    });
+});
+
+describe("discoverFavicon", () => {
+    const createApi = () => {
+        const db = new FakeD1();
+        const env = { DB: db } as unknown as ConstructorParameters<typeof NavigationAPI>[0];
+        return { db, api: new NavigationAPI(env) };
+    };
+
+    it("保存最大的可用图标", async () => {
+        const { db, api } = createApi();
+        const result = await api.discoverFavicon(`${origin}/links`);
+        assert.equal(result?.source, `${origin}/icons/512.png`);
+        assert.match(result?.url || "", /^\/api\/icons\/[0-9a-f]{64}$/);
+        assert.equal(db.icons.size, 1);
+    });
+
+    it("跳过超过大小限制的图标", async () => {
+        const { api } = createApi();
+        const result = await api.discoverFavicon(`${origin}/oversized`);
+        assert.equal(result?.source, `${origin}/small.png`);
+    });
+
+    it("页面没有图标链接时使用/favicon.ico", async () => {
+        const { db, api } = createApi();
+        const result = await api.discoverFavicon(`${origin}/plain/page`);
+        assert.equal(result?.source, `${origin}/favicon.ico`);
+        assert.equal([...db.icons.values()][0].content_type, "image/x-icon");
+    });
+
+    it("命中缓存时不再请求网站", async () => {
+        const { api } = createApi();
+        const first = await api.discoverFavicon(`${origin}/links#top`);
+        requests.length = 0;
+        const second = await api.discoverFavicon(`${origin}/links`);
+        assert.deepEqual(second, first);
+        assert.deepEqual(requests, []);
+    });
+
+    it("没有找到图标的结果同样会被缓存", async () => {
+        const { api } = createApi();
+        const fallback = routes["/favicon.ico"];
+        delete routes["/favicon.ico"];
+        try {
+            assert.equal(await api.discoverFavicon(`${origin}/missing`), null);
+            requests.length = 0;
+            assert.equal(await api.discoverFavicon(`${origin}/missing`), null);
+            assert.deepEqual(requests, []);
+        } finally {
+            routes["/favicon.ico"] = fallback;
+        }
+    });
+
+    it("缓存的图标已被清理时重新获取", async () => {
+        const { db, api } = createApi();
+        await api.discoverFavicon(`${origin}/links`);
+        db.icons.clear();
+        requests.length = 0;
+        const result = await api.discoverFavicon(`${origin}/links`);
+        assert.equal(result?.source, `${origin}/icons/512.png`);
+        assert.ok(requests.includes("/icons/512.png"));
+        assert.equal(db.icons.size, 1);
+    });
+});
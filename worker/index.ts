@@ -4,8 +4,68 @@ import {
     type ExportData,
     type Group,
     type Site,
+    type CreateUserRequest,
+    type UpdateUserRequest,
+    type UserRole,
+    type AuthUser,
+    type AuthStatus,
+    USER_ROLES,
+    hasRole,
+    isPublicConfigKey,
+    GROUP_VISIBILITIES,
+    type GroupVisibility,
+    type ApiTokenScope,
+    type CreateApiTokenRequest,
+    API_TOKEN_SCOPES,
+    isApiToken,
+    type AuditEntry,
+    type AuditLogQuery,
+    AUDIT_ACTIONS,
+    AUDIT_ENTITY_TYPES,
+    type LoginResponse,
+    SESSION_COOKIE_NAME,
+    REFRESH_COOKIE_NAME,
+    CSRF_COOKIE_NAME,
+    CSRF_HEADER_NAME,
+    OIDC_STATE_COOKIE_NAME,
+    type SetupRequest,
+    normalizeTags,
+    MAX_TAG_LENGTH,
+    MAX_TAGS_PER_SITE,
+    normalizeAltUrls,
+    MAX_ALT_URLS_PER_SITE,
+    NETWORK_PROFILE_PATTERN,
+    type CustomField,
+    type CustomFieldValues,
+    CUSTOM_FIELD_TYPES,
+    CUSTOM_FIELDS_CONFIG_KEY,
+    MAX_CUSTOM_FIELDS,
+    MAX_CUSTOM_FIELD_NAME_LENGTH,
+    validateCustomFieldValue,
+    normalizeCustomFieldValues,
+    GROUP_DELETE_MODES,
+    type GroupDeleteMode,
+    type GroupOrder,
+    type Dashboard,
+    DASHBOARD_SLUG_PATTERN,
+    getIconId,
+    decodeIconData,
+    MAX_ICON_BYTES,
 } from "../src/API/http";
 
+// 当前实例的启动迁移，每个Worker实例只执行一次，失败后下一个请求会重试
+let startupMigration: Promise<unknown> | null = null;
+
+function runStartupMigration(api: NavigationAPI): Promise<unknown> {
+    if (!startupMigration) {
+        startupMigration = api.migrate().catch(error => {
+            console.error("数据库迁移失败:", error);
+            startupMigration = null;
+        });
+    }
+    return startupMigration;
+}
+
 export default {
     async fetch(request: Request, env: Env) {
         const url = new URL(request.url);
@@ -18,6 +78,41 @@ export default {
             try {
                 const api = new NavigationAPI(env);
 
+                // 启动时自动升级数据库结构
+                if (api.isAutoMigrateEnabled()) {
+                    await runStartupMigration(api);
+                }
+
+                // 健康检查 - 不需要验证
+                if (path === "health" && method === "GET") {
+                    const health = await api.getHealth();
+                    return Response.json(health, { status: health.status === "ok" ? 200 : 503 });
+                }
+
+                // 读取上传的图标 - 不需要验证，<img>标签无法携带令牌；图标ID为内容的SHA-256，无法猜测
+                if (path.startsWith("icons/") && method === "GET") {
+                    const id = path.split("/")[1];
+                    const etag = `"${id}"`;
+                    // 图标内容不会变化，浏览器缓存一年
+                    const headers = new Headers({
+                        "Cache-Control": "public, max-age=31536000, immutable",
+                        ETag: etag,
+                        "X-Content-Type-Options": "nosniff",
+                        // SVG中可能包含脚本，禁止直接打开时执行
+                        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+                    });
+                    if (request.headers.get("If-None-Match") === etag) {
+                        return new Response(null, { status: 304, headers });
+                    }
+
+                    const icon = await api.getIcon(id);
+                    if (!icon) {
+                        return new Response("图标不存在", { status: 404 });
+                    }
+                    headers.set("Content-Type", icon.content_type);
+                    return new Response(icon.data, { headers });
+                }
+
                 // 登录路由 - 不需要验证
                 if (path === "login" && method === "POST") {
                     const loginData = (await request.json()) as LoginInput;
@@ -34,26 +129,287 @@ export default {
                         );
                     }
 
-                    const result = await api.login(loginData as LoginRequest);
+                    const result = await api.login(loginData as LoginRequest, {
+                        ip: request.headers.get("CF-Connecting-IP"),
+                        userAgent: request.headers.get("User-Agent"),
+                    });
+
+                    // 失败次数过多被临时锁定
+                    if (result.retryAfter) {
+                        return Response.json(result, {
+                            status: 429,
+                            headers: { "Retry-After": String(result.retryAfter) },
+                        });
+                    }
+                    if (api.isCookieSessionsEnabled() && result.token) {
+                        return sessionCookieResponse(api, result, crypto.randomUUID());
+                    }
+                    return Response.json(result);
+                }
+
+                // 两步验证登录路由 - 提交验证码或恢复码完成登录，不需要验证
+                if (path === "login/2fa" && method === "POST") {
+                    const data = (await request.json()) as TwoFactorLoginInput;
+                    if (
+                        !data.twoFactorToken ||
+                        typeof data.twoFactorToken !== "string" ||
+                        !data.code ||
+                        typeof data.code !== "string"
+                    ) {
+                        return Response.json(
+                            { success: false, message: "验证码不能为空" },
+                            { status: 400 }
+                        );
+                    }
+
+                    const result = await api.loginWithTwoFactor(
+                        { twoFactorToken: data.twoFactorToken, code: data.code },
+                        {
+                            ip: request.headers.get("CF-Connecting-IP"),
+                            userAgent: request.headers.get("User-Agent"),
+                        }
+                    );
+
+                    // 失败次数过多被临时锁定
+                    if (result.retryAfter) {
+                        return Response.json(result, {
+                            status: 429,
+                            headers: { "Retry-After": String(result.retryAfter) },
+                        });
+                    }
+                    if (api.isCookieSessionsEnabled() && result.token) {
+                        return sessionCookieResponse(api, result, crypto.randomUUID());
+                    }
                     return Response.json(result);
                 }
 
-                // 初始化数据库接口 - 不需要验证
-                if (path === "init" && method === "GET") {
-                    const initResult = await api.initDB();
-                    if (initResult.alreadyInitialized) {
-                        return new Response("数据库已经初始化过，无需重复初始化", { status: 200 });
+                // 刷新令牌路由 - 使用刷新令牌换取新的访问令牌，不需要验证
+                if (path === "refresh" && method === "POST") {
+                    const data = (await request.json()) as RefreshInput;
+                    const cookies = parseCookies(request);
+                    let refreshToken = data.refreshToken;
+
+                    // Cookie模式下请求体中没有刷新令牌时，使用Cookie中的刷新令牌
+                    const useCookie =
+                        !refreshToken &&
+                        api.isCookieSessionsEnabled() &&
+                        !!cookies[REFRESH_COOKIE_NAME];
+                    if (useCookie) {
+                        if (!hasValidCsrfToken(request, cookies)) {
+                            return csrfFailureResponse();
+                        }
+                        refreshToken = cookies[REFRESH_COOKIE_NAME];
+                    }
+
+                    if (!refreshToken || typeof refreshToken !== "string") {
+                        return Response.json(
+                            { success: false, message: "刷新令牌不能为空" },
+                            { status: 400 }
+                        );
+                    }
+
+                    const result = await api.refresh(refreshToken, {
+                        ip: request.headers.get("CF-Connecting-IP"),
+                    });
+                    // 续期时沿用原有的CSRF令牌，避免其他标签页持有的令牌失效
+                    if (useCookie && result.token) {
+                        return sessionCookieResponse(api, result, cookies[CSRF_COOKIE_NAME]);
+                    }
+                    // Cookie中的刷新令牌已过期或会话已被撤销时清除会话Cookie，避免浏览器继续携带失效的令牌
+                    return Response.json(result, {
+                        status: result.success ? 200 : 401,
+                        headers: useCookie && !result.success ? clearSessionCookies() : undefined,
+                    });
+                }
+
+                // OIDC单点登录 - 跳转到身份提供方，不需要验证
+                if (path === "auth/oidc/start" && method === "GET") {
+                    if (!api.isOidcEnabled()) {
+                        return Response.json(
+                            { success: false, message: "未配置SSO登录" },
+                            { status: 404 }
+                        );
+                    }
+
+                    const { authorizationUrl, stateToken } = await api.startOidcLogin(
+                        getOidcRedirectUri(url),
+                        url.searchParams.get("remember") === "1"
+                    );
+                    const headers = new Headers({ Location: authorizationUrl });
+                    // 从身份提供方跳转回来属于跨站导航，需要SameSite=Lax才会携带
+                    headers.append(
+                        "Set-Cookie",
+                        serializeCookie(OIDC_STATE_COOKIE_NAME, stateToken, {
+                            path: "/api/auth/oidc",
+                            httpOnly: true,
+                            maxAge: 10 * 60,
+                            sameSite: "Lax",
+                        })
+                    );
+                    return new Response(null, { status: 302, headers });
+                }
+
+                // OIDC回调 - 完成登录后跳转回首页，令牌通过Cookie或URL片段交给前端
+                if (path === "auth/oidc/callback" && method === "GET") {
+                    if (!api.isOidcEnabled()) {
+                        return Response.json(
+                            { success: false, message: "未配置SSO登录" },
+                            { status: 404 }
+                        );
+                    }
+
+                    const cookies = parseCookies(request);
+                    const code = url.searchParams.get("code");
+                    const state = url.searchParams.get("state");
+                    const stateToken = cookies[OIDC_STATE_COOKIE_NAME];
+
+                    let result: LoginResponse;
+                    if (url.searchParams.get("error")) {
+                        result = {
+                            success: false,
+                            message: `身份提供方拒绝了登录: ${url.searchParams.get("error")}`,
+                        };
+                    } else if (!code || !state || !stateToken) {
+                        result = { success: false, message: "SSO登录状态无效，请重新登录" };
+                    } else {
+                        try {
+                            result = await api.completeOidcLogin(
+                                { code, state, stateToken, redirectUri: getOidcRedirectUri(url) },
+                                {
+                                    ip: request.headers.get("CF-Connecting-IP"),
+                                    userAgent: request.headers.get("User-Agent"),
+                                }
+                            );
+                        } catch (error) {
+                            console.error(
+                                `SSO登录失败: ${error instanceof Error ? error.message : "未知错误"}`
+                            );
+                            result = { success: false, message: "SSO登录失败，请稍后重试" };
+                        }
+                    }
+
+                    const headers = new Headers();
+                    headers.append(
+                        "Set-Cookie",
+                        serializeCookie(OIDC_STATE_COOKIE_NAME, "", {
+                            path: "/api/auth/oidc",
+                            httpOnly: true,
+                            maxAge: 0,
+                        })
+                    );
+                    if (!result.success || !result.token) {
+                        const message = result.message || "SSO登录失败";
+                        headers.set("Location", `/#sso_error=${encodeURIComponent(message)}`);
+                    } else if (api.isCookieSessionsEnabled()) {
+                        appendSessionCookies(headers, api, result, crypto.randomUUID());
+                        headers.set("Location", "/");
+                    } else {
+                        // URL片段不会发送到服务器，前端读取后立即从地址栏清除
+                        const fragment = new URLSearchParams({
+                            sso_token: result.token,
+                            sso_refresh: result.refreshToken || "",
+                        });
+                        headers.set("Location", `/#${fragment}`);
+                    }
+                    return new Response(null, { status: 302, headers });
+                }
+
+                // 首次安装接口 - 只有尚未初始化时不需要验证，初始化后仅管理员可以访问（见下方路由）
+                if (path === "init" && !(await api.isInitialized())) {
+                    if (method === "GET") {
+                        return Response.json({ initialized: false, setupRequired: true });
+                    }
+                    if (method === "POST") {
+                        const data = (await request.json()) as SetupInput;
+
+                        // 验证安装数据
+                        const validation = validateSetup(data, api.isAuthEnabled());
+                        if (!validation.valid) {
+                            return Response.json(
+                                {
+                                    success: false,
+                                    message: `验证失败: ${validation.errors?.join(", ")}`,
+                                },
+                                { status: 400 }
+                            );
+                        }
+
+                        const result = await api.setup(validation.sanitizedData as SetupRequest);
+                        return Response.json(result, { status: result.success ? 200 : 409 });
                     }
-                    return new Response("数据库初始化成功", { status: 200 });
                 }
 
+                // 认证状态接口 - 不强制验证，用于前端判断登录状态和当前角色
+                if (path === "auth/status" && method === "GET") {
+                    const token =
+                        getBearerToken(request) ||
+                        (api.isCookieSessionsEnabled()
+                            ? parseCookies(request)[SESSION_COOKIE_NAME]
+                            : undefined);
+                    const verifyResult = token ? await api.verifyToken(token) : { valid: false };
+                    const authenticated = !api.isAuthEnabled() || verifyResult.valid;
+                    const status: AuthStatus = {
+                        authEnabled: api.isAuthEnabled(),
+                        authenticated,
+                        publicRead: api.isPublicReadEnabled(),
+                        rememberMeDays: api.getRememberMeDays(),
+                        cookieSessions: api.isCookieSessionsEnabled(),
+                        ssoEnabled: api.isOidcEnabled(),
+                        setupRequired: !(await api.isInitialized()),
+                        user: authenticated ? api.getAuthUser(verifyResult.payload) : null,
+                    };
+                    return Response.json(status);
+                }
+
+                // 当前请求的用户，未启用认证时视为管理员，为null表示未登录的访客
+                let currentUser: AuthUser | null = api.getAuthUser();
+                // 当前请求令牌对应的会话ID
+                let sessionId: string | null = null;
+                // 使用API令牌时的权限范围，会话令牌为null
+                let tokenScopes: ApiTokenScope[] | null = null;
+
+                // 检查Authorization头部
+                const authHeader = request.headers.get("Authorization");
+                // Cookie会话模式下浏览器自动携带的令牌
+                const cookies = parseCookies(request);
+                const cookieToken = api.isCookieSessionsEnabled()
+                    ? cookies[SESSION_COOKIE_NAME]
+                    : undefined;
+
+                // 公开只读模式 - 未携带令牌的访客可以浏览分组、站点和公开配置
+                const publicReadable =
+                    api.isPublicReadEnabled() &&
+                    !authHeader &&
+                    method === "GET" &&
+                    isPublicReadablePath(path);
+                if (publicReadable && !cookieToken) {
+                    currentUser = null;
+                }
                 // 验证中间件 - 除登录接口和初始化接口外，所有请求都需要验证
-                if (api.isAuthEnabled()) {
-                    // 检查Authorization头部
-                    const authHeader = request.headers.get("Authorization");
+                else if (api.isAuthEnabled()) {
+                    let token: string;
+
+                    if (authHeader) {
+                        // 提取Token
+                        const [authType, headerToken] = authHeader.split(" ");
 
-                    // 如果没有Authorization头部，返回401错误
-                    if (!authHeader) {
+                        // 验证Token类型和内容
+                        if (authType !== "Bearer" || !headerToken) {
+                            return new Response("无效的认证信息", { status: 401 });
+                        }
+                        token = headerToken;
+                    } else if (cookieToken) {
+                        // Cookie由浏览器自动携带，修改类请求需要校验CSRF令牌
+                        if (
+                            method !== "GET" &&
+                            method !== "HEAD" &&
+                            !hasValidCsrfToken(request, cookies)
+                        ) {
+                            return csrfFailureResponse();
+                        }
+                        token = cookieToken;
+                    } else {
+                        // 既没有Authorization头部也没有会话Cookie，返回401错误
                         return new Response("请先登录", {
                             status: 401,
                             headers: {
@@ -62,31 +418,196 @@ export default {
                         });
                     }
 
-                    // 提取Token
-                    const [authType, token] = authHeader.split(" ");
-
-                    // 验证Token类型和内容
-                    if (authType !== "Bearer" || !token) {
-                        return new Response("无效的认证信息", { status: 401 });
+                    if (isApiToken(token)) {
+                        // 个人API令牌 - 用于脚本和自动化
+                        const apiToken = await api.verifyApiToken(token);
+                        if (!apiToken) {
+                            return new Response("API令牌无效或已被撤销", { status: 401 });
+                        }
+                        currentUser = apiToken.user;
+                        tokenScopes = apiToken.scopes;
+                    } else {
+                        // 验证Token有效性 - 改为异步调用
+                        const verifyResult = await api.verifyToken(token);
+                        if (verifyResult.valid) {
+                            currentUser = api.getAuthUser(verifyResult.payload);
+                            sessionId =
+                                typeof verifyResult.payload?.jti === "string"
+                                    ? verifyResult.payload.jti
+                                    : null;
+                        } else if (publicReadable) {
+                            // Cookie中的会话已过期或被撤销时，可公开浏览的请求按访客处理
+                            currentUser = null;
+                        } else {
+                            return new Response("认证已过期或无效，请重新登录", { status: 401 });
+                        }
                     }
+                }
+
+                // 权限检查 - 根据路由要求的最低角色判断
+                const requiredRole = getRequiredRole(path, method);
+                if (currentUser && !hasRole(currentUser.role, requiredRole)) {
+                    return Response.json(
+                        { success: false, message: "权限不足，无法执行此操作" },
+                        { status: 403 }
+                    );
+                }
 
-                    // 验证Token有效性 - 改为异步调用
-                    const verifyResult = await api.verifyToken(token);
-                    if (!verifyResult.valid) {
-                        return new Response("认证已过期或无效，请重新登录", { status: 401 });
+                // API令牌还需要具备路由对应的权限范围
+                const requiredScope = getRequiredScope(path, method);
+                if (
+                    tokenScopes &&
+                    !tokenScopes.includes("admin") &&
+                    !tokenScopes.includes(requiredScope)
+                ) {
+                    return Response.json(
+                        { success: false, message: `API令牌缺少所需的权限范围: ${requiredScope}` },
+                        { status: 403 }
+                    );
+                }
+
+                // 记录审计日志，操作者取自令牌中的用户
+                const clientIp = request.headers.get("CF-Connecting-IP");
+                const audit = (entry: AuditEntry) => api.recordAudit(entry, currentUser, clientIp);
+
+                // 退出登录 - 在服务端撤销当前会话
+                if (path === "logout" && method === "POST") {
+                    if (sessionId) {
+                        await api.revokeSession(sessionId);
                     }
+                    return Response.json(
+                        { success: true },
+                        { headers: api.isCookieSessionsEnabled() ? clearSessionCookies() : undefined }
+                    );
                 }
 
-                // 路由匹配
-                if (path === "groups" && method === "GET") {
-                    const groups = await api.getGroups();
+                // 面板相关API
+                if (path === "dashboards" && method === "GET") {
+                    return Response.json(await api.getDashboards());
+                } else if (path === "dashboards" && method === "POST") {
+                    const data = (await request.json()) as DashboardInput;
+
+                    // 验证面板数据
+                    const validation = validateDashboard(data);
+                    if (!validation.valid) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: `验证失败: ${validation.errors?.join(", ")}`,
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    try {
+                        const result = await api.createDashboard(
+                            validation.sanitizedData as Dashboard
+                        );
+                        await audit({
+                            action: "create",
+                            entity_type: "dashboard",
+                            entity_id: result.id,
+                            after: result,
+                        });
+                        return Response.json(result);
+                    } catch (error) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: error instanceof Error ? error.message : "创建面板失败",
+                            },
+                            { status: 400 }
+                        );
+                    }
+                } else if (path.startsWith("dashboards/") && method === "PUT") {
+                    const id = parseInt(path.split("/")[1]);
+                    if (isNaN(id)) {
+                        return Response.json({ error: "无效的ID" }, { status: 400 });
+                    }
+
+                    const data = (await request.json()) as DashboardInput;
+                    const validation = validateDashboard(data, true);
+                    if (!validation.valid) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: `验证失败: ${validation.errors?.join(", ")}`,
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    try {
+                        const before = await api.getDashboard(id);
+                        const result = await api.updateDashboard(
+                            id,
+                            validation.sanitizedData as Partial<Dashboard>
+                        );
+                        if (result) {
+                            await audit({
+                                action: "update",
+                                entity_type: "dashboard",
+                                entity_id: id,
+                                before,
+                                after: result,
+                            });
+                        }
+                        return Response.json(result);
+                    } catch (error) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: error instanceof Error ? error.message : "更新面板失败",
+                            },
+                            { status: 400 }
+                        );
+                    }
+                } else if (path.startsWith("dashboards/") && method === "DELETE") {
+                    const id = parseInt(path.split("/")[1]);
+                    if (isNaN(id)) {
+                        return Response.json({ error: "无效的ID" }, { status: 400 });
+                    }
+
+                    try {
+                        const before = await api.getDashboard(id);
+                        const result = await api.deleteDashboard(id);
+                        if (result && before) {
+                            await audit({
+                                action: "delete",
+                                entity_type: "dashboard",
+                                entity_id: id,
+                                before,
+                            });
+                        }
+                        return Response.json({ success: result });
+                    } catch (error) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: error instanceof Error ? error.message : "删除面板失败",
+                            },
+                            { status: 409 }
+                        );
+                    }
+                }
+                // 分组相关API，dashboard参数为面板路径或ID
+                else if (path === "groups" && method === "GET") {
+                    const dashboardId = await getDashboardParam(api, url);
+                    if (dashboardId === null) {
+                        return Response.json({ success: false, message: "面板不存在" }, { status: 404 });
+                    }
+                    // tree=true时返回嵌套的分组树
+                    if (url.searchParams.get("tree") === "true") {
+                        return Response.json(await api.getGroupTree(currentUser, dashboardId));
+                    }
+                    const groups = await api.getGroups(currentUser, dashboardId);
                     return Response.json(groups);
                 } else if (path.startsWith("groups/") && method === "GET") {
                     const id = parseInt(path.split("/")[1]);
                     if (isNaN(id)) {
                         return Response.json({ error: "无效的ID" }, { status: 400 });
                     }
-                    const group = await api.getGroup(id);
+                    const group = await api.getGroup(id, currentUser);
                     return Response.json(group);
                 } else if (path === "groups" && method === "POST") {
                     const data = (await request.json()) as GroupInput;
@@ -103,7 +624,27 @@ export default {
                         );
                     }
 
+                    const dashboardId = validation.sanitizedData?.dashboard_id;
+                    if (dashboardId !== undefined && !(await api.getDashboard(dashboardId))) {
+                        return Response.json({ success: false, message: "面板不存在" }, { status: 400 });
+                    }
+
+                    const parentError = await api.checkGroupParent(
+                        null,
+                        validation.sanitizedData?.parent_id,
+                        dashboardId
+                    );
+                    if (parentError) {
+                        return Response.json({ success: false, message: parentError }, { status: 400 });
+                    }
+
                     const result = await api.createGroup(validation.sanitizedData as Group);
+                    await audit({
+                        action: "create",
+                        entity_type: "group",
+                        entity_id: result.id,
+                        after: result,
+                    });
                     return Response.json(result);
                 } else if (path.startsWith("groups/") && method === "PUT") {
                     const id = parseInt(path.split("/")[1]);
@@ -136,7 +677,56 @@ export default {
                         );
                     }
 
+                    if (
+                        data.visibility !== undefined &&
+                        !GROUP_VISIBILITIES.includes(data.visibility)
+                    ) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: "无效的分组可见性",
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    if (data.dashboard_id !== undefined) {
+                        const dashboardError = !isValidDashboardId(data.dashboard_id)
+                            ? "面板ID必须是数字"
+                            : !(await api.getDashboard(data.dashboard_id))
+                              ? "面板不存在"
+                              : null;
+                        if (dashboardError) {
+                            return Response.json(
+                                { success: false, message: dashboardError },
+                                { status: 400 }
+                            );
+                        }
+                    }
+
+                    if (data.parent_id !== undefined) {
+                        const parentError = isValidParentId(data.parent_id)
+                            ? await api.checkGroupParent(id, data.parent_id, data.dashboard_id)
+                            : "上级分组ID必须是数字或null";
+                        if (parentError) {
+                            return Response.json(
+                                { success: false, message: parentError },
+                                { status: 400 }
+                            );
+                        }
+                    }
+
+                    const before = await api.getGroup(id);
                     const result = await api.updateGroup(id, data);
+                    if (result) {
+                        await audit({
+                            action: "update",
+                            entity_type: "group",
+                            entity_id: id,
+                            before,
+                            after: result,
+                        });
+                    }
                     return Response.json(result);
                 } else if (path.startsWith("groups/") && method === "DELETE") {
                     const id = parseInt(path.split("/")[1]);
@@ -144,27 +734,104 @@ export default {
                         return Response.json({ error: "无效的ID" }, { status: 400 });
                     }
 
-                    const result = await api.deleteGroup(id);
+                    // 子分组默认移动到上级分组，children=cascade时一并删除
+                    const mode = (url.searchParams.get("children") || "promote") as GroupDeleteMode;
+                    if (!GROUP_DELETE_MODES.includes(mode)) {
+                        return Response.json(
+                            { success: false, message: "无效的子分组处理方式" },
+                            { status: 400 }
+                        );
+                    }
+
+                    // 分组连同其中的站点移入回收站，一并记录站点和子分组名称
+                    const before = await api.getGroup(id);
+                    const sites = before ? await api.getSites(id) : [];
+                    const allGroups = before ? await api.getGroups() : [];
+                    const childIds =
+                        mode === "cascade"
+                            ? await api.getDescendantGroupIds(id)
+                            : allGroups.filter(group => group.parent_id === id).map(group => group.id);
+                    const result = await api.deleteGroup(id, mode);
+                    if (result && before) {
+                        await audit({
+                            action: "delete",
+                            entity_type: "group",
+                            entity_id: id,
+                            before: {
+                                ...before,
+                                sites: sites.map(site => site.name),
+                                children: allGroups
+                                    .filter(group => childIds.includes(group.id))
+                                    .map(group => group.name),
+                                children_mode: mode,
+                            },
+                        });
+                    }
                     return Response.json({ success: result });
                 }
                 // 站点相关API
                 else if (path === "sites" && method === "GET") {
                     const groupId = url.searchParams.get("groupId");
-                    const sites = await api.getSites(groupId ? parseInt(groupId) : undefined);
+                    const dashboardId = await getDashboardParam(api, url);
+                    if (dashboardId === null) {
+                        return Response.json({ success: false, message: "面板不存在" }, { status: 404 });
+                    }
+                    const sites = await api.getSites(
+                        groupId ? parseInt(groupId) : undefined,
+                        currentUser,
+                        dashboardId
+                    );
                     return Response.json(sites);
+                } else if (isSiteRevisionsPath(path)) {
+                    // sites/:id/revisions 查看历史版本，sites/:id/revisions/:revisionId/restore 恢复
+                    const [, rawId, , rawRevisionId, action] = path.split("/");
+                    const id = parseInt(rawId);
+                    if (isNaN(id)) {
+                        return Response.json({ error: "无效的ID" }, { status: 400 });
+                    }
+
+                    // 站点对当前用户不可见时视为不存在
+                    const site = await api.getSite(id, currentUser);
+                    if (!site) {
+                        return Response.json({ success: false, message: "站点不存在" }, { status: 404 });
+                    }
+
+                    if (rawRevisionId === undefined && method === "GET") {
+                        return Response.json(await api.getSiteRevisions(id));
+                    } else if (action === "restore" && method === "POST") {
+                        const revisionId = parseInt(rawRevisionId);
+                        const result = isNaN(revisionId)
+                            ? null
+                            : await api.restoreSiteRevision(id, revisionId, currentUser);
+                        if (!result) {
+                            return Response.json(
+                                { success: false, message: "历史版本不存在" },
+                                { status: 404 }
+                            );
+                        }
+                        await audit({
+                            action: "update",
+                            entity_type: "site",
+                            entity_id: id,
+                            before: site,
+                            after: result,
+                        });
+                        return Response.json(result);
+                    }
+                    return new Response("API路径不存在", { status: 404 });
                 } else if (path.startsWith("sites/") && method === "GET") {
                     const id = parseInt(path.split("/")[1]);
                     if (isNaN(id)) {
                         return Response.json({ error: "无效的ID" }, { status: 400 });
                     }
 
-                    const site = await api.getSite(id);
+                    const site = await api.getSite(id, currentUser);
                     return Response.json(site);
                 } else if (path === "sites" && method === "POST") {
                     const data = (await request.json()) as SiteInput;
 
                     // 验证站点数据
-                    const validation = validateSite(data);
+                    const validation = validateSite(data, await api.getCustomFields());
                     if (!validation.valid) {
                         return Response.json(
                             {
@@ -176,6 +843,12 @@ export default {
                     }
 
                     const result = await api.createSite(validation.sanitizedData as Site);
+                    await audit({
+                        action: "create",
+                        entity_type: "site",
+                        entity_id: result.id,
+                        after: result,
+                    });
                     return Response.json(result);
                 } else if (path.startsWith("sites/") && method === "PUT") {
                     const id = parseInt(path.split("/")[1]);
@@ -201,9 +874,7 @@ export default {
                     }
 
                     if (data.icon !== undefined && data.icon !== "") {
-                        try {
-                            new URL(data.icon);
-                        } catch {
+                        if (!isValidIcon(data.icon)) {
                             return Response.json(
                                 {
                                     success: false,
@@ -214,7 +885,61 @@ export default {
                         }
                     }
 
-                    const result = await api.updateSite(id, data);
+                    if (data.tags !== undefined) {
+                        const tagError = validateTags(data.tags);
+                        if (tagError) {
+                            return Response.json(
+                                {
+                                    success: false,
+                                    message: tagError,
+                                },
+                                { status: 400 }
+                            );
+                        }
+                    }
+
+                    if (data.alt_urls !== undefined) {
+                        const altUrlError = validateAltUrls(data.alt_urls);
+                        if (altUrlError) {
+                            return Response.json(
+                                {
+                                    success: false,
+                                    message: altUrlError,
+                                },
+                                { status: 400 }
+                            );
+                        }
+                    }
+
+                    // 传入自定义字段时按当前的字段定义整体替换
+                    if (data.custom_fields !== undefined) {
+                        const customFields = validateCustomFields(
+                            data.custom_fields,
+                            await api.getCustomFields()
+                        );
+                        if (customFields.error) {
+                            return Response.json(
+                                {
+                                    success: false,
+                                    message: customFields.error,
+                                },
+                                { status: 400 }
+                            );
+                        }
+                        data.custom_fields = customFields.values;
+                    }
+
+                    const before = await api.getSite(id);
+                    const result = await api.updateSite(id, data, currentUser);
+                    if (result) {
+                        await audit({
+                            action: "update",
+                            entity_type: "site",
+                            entity_id: id,
+                            before,
+                            after: result,
+                        });
+                    }
                     return Response.json(result);
                 } else if (path.startsWith("sites/") && method === "DELETE") {
                     const id = parseInt(path.split("/")[1]);
@@ -222,42 +947,206 @@ export default {
                         return Response.json({ error: "无效的ID" }, { status: 400 });
                     }
 
+                    const before = await api.getSite(id);
                     const result = await api.deleteSite(id);
+                    if (result && before) {
+                        await audit({ action: "delete", entity_type: "site", entity_id: id, before });
+                    }
                     return Response.json({ success: result });
                 }
-                // 批量更新排序
-                else if (path === "group-orders" && method === "PUT") {
-                    const data = (await request.json()) as Array<{ id: number; order_num: number }>;
 
-                    // 验证排序数据
-                    if (!Array.isArray(data)) {
+                // 图标上传API，图片内容为Base64或data URL，格式由文件头识别
+                else if (path === "icons" && method === "POST") {
+                    const data = (await request.json()) as IconInput;
+
+                    const validation = validateIcon(data);
+                    if (!validation.valid) {
                         return Response.json(
                             {
                                 success: false,
-                                message: "排序数据必须是数组",
+                                message: `验证失败: ${validation.errors?.join(", ")}`,
                             },
                             { status: 400 }
                         );
                     }
 
-                    for (const item of data) {
-                        if (
-                            !item.id ||
-                            typeof item.id !== "number" ||
-                            item.order_num === undefined ||
-                            typeof item.order_num !== "number"
-                        ) {
-                            return Response.json(
-                                {
-                                    success: false,
+                    try {
+                        return Response.json(await api.createIcon(validation.bytes as Uint8Array));
+                    } catch (error) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: error instanceof Error ? error.message : "上传图标失败",
+                            },
+                            { status: 400 }
+                        );
+                    }
+                }
+
+                // 自动获取网站图标，找到的图标保存到图标表中，返回可以填写为站点图标的地址
+                else if (path === "favicon" && method === "GET") {
+                    const target = url.searchParams.get("url") || "";
+                    if (!isHttpUrl(target)) {
+                        return Response.json(
+                            { success: false, message: "无效的URL格式" },
+                            { status: 400 }
+                        );
+                    }
+
+                    const result = await api.discoverFavicon(target);
+                    if (!result) {
+                        return Response.json(
+                            { success: false, message: "未找到网站图标" },
+                            { status: 404 }
+                        );
+                    }
+                    return Response.json(result);
+                }
+
+                // 读取网页的标题、描述和图标，作为新增站点时的建议
+                else if (path === "metadata" && method === "GET") {
+                    const target = url.searchParams.get("url") || "";
+                    if (!isHttpUrl(target)) {
+                        return Response.json(
+                            { success: false, message: "无效的URL格式" },
+                            { status: 400 }
+                        );
+                    }
+
+                    const result = await api.getSiteMetadata(target);
+                    if (!result) {
+                        return Response.json(
+                            { success: false, message: "无法访问该网页" },
+                            { status: 404 }
+                        );
+                    }
+                    return Response.json(result);
+                }
+
+                // 回收站相关API
+                else if (path === "trash" && method === "GET") {
+                    return Response.json(await api.getTrash());
+                } else if (path === "trash" && method === "DELETE") {
+                    const before = await api.getTrash();
+                    const result = await api.emptyTrash();
+                    if (result && (before.groups.length > 0 || before.sites.length > 0)) {
+                        await audit({
+                            action: "purge",
+                            entity_type: "data",
+                            before: { groups: before.groups.length, sites: before.sites.length },
+                        });
+                    }
+                    return Response.json({ success: result });
+                } else if (path.startsWith("trash/")) {
+                    // trash/{groups|sites}/:id/restore 恢复，DELETE trash/{groups|sites}/:id 彻底删除
+                    const [, type, rawId, action] = path.split("/");
+                    const id = parseInt(rawId);
+                    if ((type !== "groups" && type !== "sites") || isNaN(id)) {
+                        return new Response("API路径不存在", { status: 404 });
+                    }
+                    const entityType = type === "groups" ? "group" : "site";
+
+                    if (action === "restore" && method === "POST") {
+                        const before =
+                            type === "groups"
+                                ? await api.getTrashedGroup(id)
+                                : await api.getTrashedSite(id);
+                        if (!before) {
+                            return Response.json(
+                                { success: false, message: "回收站中不存在该项目" },
+                                { status: 404 }
+                            );
+                        }
+                        if ("group_deleted" in before && before.group_deleted) {
+                            return Response.json(
+                                { success: false, message: "所属分组也在回收站中，请先恢复分组" },
+                                { status: 409 }
+                            );
+                        }
+
+                        const result =
+                            type === "groups" ? await api.restoreGroup(id) : await api.restoreSite(id);
+                        if (result) {
+                            await audit({
+                                action: "restore",
+                                entity_type: entityType,
+                                entity_id: id,
+                                after: result,
+                            });
+                        }
+                        return Response.json(result);
+                    } else if (action === undefined && method === "DELETE") {
+                        const before =
+                            type === "groups"
+                                ? await api.getTrashedGroup(id)
+                                : await api.getTrashedSite(id);
+                        const result =
+                            type === "groups" ? await api.purgeGroup(id) : await api.purgeSite(id);
+                        if (result && before) {
+                            await audit({
+                                action: "purge",
+                                entity_type: entityType,
+                                entity_id: id,
+                                before,
+                            });
+                        }
+                        return Response.json({ success: result });
+                    }
+                    return new Response("API路径不存在", { status: 404 });
+                }
+                // 批量更新排序
+                else if (path === "group-orders" && method === "PUT") {
+                    const data = (await request.json()) as GroupOrder[];
+
+                    // 验证排序数据
+                    if (!Array.isArray(data)) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: "排序数据必须是数组",
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    for (const item of data) {
+                        if (
+                            !item.id ||
+                            typeof item.id !== "number" ||
+                            item.order_num === undefined ||
+                            typeof item.order_num !== "number"
+                        ) {
+                            return Response.json(
+                                {
+                                    success: false,
                                     message: "排序数据格式无效，每个项目必须包含id和order_num",
                                 },
                                 { status: 400 }
                             );
                         }
+                        if (item.parent_id !== undefined && !isValidParentId(item.parent_id)) {
+                            return Response.json(
+                                { success: false, message: "上级分组ID必须是数字或null" },
+                                { status: 400 }
+                            );
+                        }
                     }
 
+                    // 同时移动上级分组时检查是否会形成循环
+                    const parentError = await api.checkGroupOrders(data);
+                    if (parentError) {
+                        return Response.json({ success: false, message: parentError }, { status: 400 });
+                    }
+
+                    const before = await api.getGroups();
                     const result = await api.updateGroupOrder(data);
+                    if (result) {
+                        await audit({
+                            action: "reorder",
+                            entity_type: "group",
+                            ...diffOrders(before, data),
+                        });
+                    }
                     return Response.json({ success: result });
                 } else if (path === "site-orders" && method === "PUT") {
                     const data = (await request.json()) as Array<{ id: number; order_num: number }>;
@@ -290,23 +1179,35 @@ export default {
                         }
                     }
 
+                    const before = await api.getSites();
                     const result = await api.updateSiteOrder(data);
+                    if (result) {
+                        await audit({
+                            action: "reorder",
+                            entity_type: "site",
+                            ...diffOrders(before, data),
+                        });
+                    }
                     return Response.json({ success: result });
                 }
                 // 配置相关API
                 else if (path === "configs" && method === "GET") {
-                    const configs = await api.getConfigs();
+                    // 访客只能读取公开配置
+                    const configs = currentUser
+                        ? await api.getConfigs()
+                        : await api.getPublicConfigs();
                     return Response.json(configs);
                 } else if (path.startsWith("configs/") && method === "GET") {
                     const key = path.substring("configs/".length);
-                    const value = await api.getConfig(key);
+                    const value =
+                        currentUser || isPublicConfigKey(key) ? await api.getConfig(key) : null;
                     return Response.json({ key, value });
                 } else if (path.startsWith("configs/") && method === "PUT") {
                     const key = path.substring("configs/".length);
                     const data = (await request.json()) as ConfigInput;
 
                     // 验证配置数据
-                    const validation = validateConfig(data);
+                    const validation = validateConfig(key, data);
                     if (!validation.valid) {
                         return Response.json(
                             {
@@ -328,17 +1229,315 @@ export default {
                         );
                     }
 
+                    const before = await api.getConfig(key);
                     const result = await api.setConfig(key, data.value);
+                    if (result) {
+                        await audit({
+                            action: before === null ? "create" : "update",
+                            entity_type: "config",
+                            entity_id: key,
+                            before: before === null ? null : { value: before },
+                            after: { value: data.value },
+                        });
+                    }
                     return Response.json({ success: result });
                 } else if (path.startsWith("configs/") && method === "DELETE") {
                     const key = path.substring("configs/".length);
+                    const before = await api.getConfig(key);
                     const result = await api.deleteConfig(key);
+                    if (result && before !== null) {
+                        await audit({
+                            action: "delete",
+                            entity_type: "config",
+                            entity_id: key,
+                            before: { value: before },
+                        });
+                    }
                     return Response.json({ success: result });
                 }
 
-                // 数据导出路由
+                // 用户管理API
+                else if (path === "users" && method === "GET") {
+                    const users = await api.getUsers();
+                    return Response.json(users);
+                } else if (path === "users" && method === "POST") {
+                    const data = (await request.json()) as UserInput;
+
+                    // 验证用户数据
+                    const validation = validateUser(data);
+                    if (!validation.valid) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: `验证失败: ${validation.errors?.join(", ")}`,
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    try {
+                        const result = await api.createUser(
+                            validation.sanitizedData as CreateUserRequest
+                        );
+                        await audit({
+                            action: "create",
+                            entity_type: "user",
+                            entity_id: result.id,
+                            after: result,
+                        });
+                        return Response.json(result);
+                    } catch (error) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: error instanceof Error ? error.message : "创建用户失败",
+                            },
+                            { status: 400 }
+                        );
+                    }
+                } else if (path.startsWith("users/") && method === "PUT") {
+                    const id = parseInt(path.split("/")[1]);
+                    if (isNaN(id)) {
+                        return Response.json({ error: "无效的ID" }, { status: 400 });
+                    }
+
+                    const data = (await request.json()) as UserInput;
+
+                    // 验证更新的用户数据
+                    const validation = validateUserUpdate(data);
+                    if (!validation.valid) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: `验证失败: ${validation.errors?.join(", ")}`,
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    try {
+                        const before = await api.getUser(id);
+                        const result = await api.updateUser(
+                            id,
+                            validation.sanitizedData as UpdateUserRequest
+                        );
+                        if (!result) {
+                            return Response.json(
+                                { success: false, message: "用户不存在" },
+                                { status: 404 }
+                            );
+                        }
+                        // 密码不会出现在用户字段中，修改时单独标记（不记录密码本身）
+                        const passwordChanged = !!(validation.sanitizedData as UpdateUserRequest)
+                            .password;
+                        await audit({
+                            action: "update",
+                            entity_type: "user",
+                            entity_id: id,
+                            before,
+                            after: passwordChanged ? { ...result, password_changed: true } : result,
+                        });
+                        return Response.json(result);
+                    } catch (error) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: error instanceof Error ? error.message : "更新用户失败",
+                            },
+                            { status: 400 }
+                        );
+                    }
+                }
+
+                // 会话管理API
+                else if (path === "sessions" && method === "GET") {
+                    const sessions = await api.getSessions();
+                    return Response.json(
+                        sessions.map(session => ({ ...session, current: session.id === sessionId }))
+                    );
+                } else if (path.startsWith("sessions/") && method === "DELETE") {
+                    const id = path.substring("sessions/".length);
+                    const before = (await api.getSessions()).find(session => session.id === id);
+                    const result = await api.revokeSession(id);
+                    if (!result) {
+                        return Response.json(
+                            { success: false, message: "会话不存在或已被撤销" },
+                            { status: 404 }
+                        );
+                    }
+                    await audit({ action: "delete", entity_type: "session", entity_id: id, before });
+                    return Response.json({ success: true });
+                }
+
+                // 两步验证管理 - 只能在登录会话中为自己设置
+                else if (path === "2fa" || path.startsWith("2fa/")) {
+                    if (!currentUser?.id || !sessionId) {
+                        return Response.json(
+                            { success: false, message: "两步验证只能在登录会话中管理" },
+                            { status: 403 }
+                        );
+                    }
+
+                    try {
+                        if (path === "2fa" && method === "GET") {
+                            const status = await api.getTwoFactorStatus(currentUser.id);
+                            return Response.json(status);
+                        } else if (path === "2fa/setup" && method === "POST") {
+                            const setup = await api.setupTwoFactor(currentUser.id);
+                            return Response.json(setup);
+                        } else if (path === "2fa/enable" && method === "POST") {
+                            const data = (await request.json()) as TwoFactorCodeInput;
+                            const recoveryCodes = await api.enableTwoFactor(
+                                currentUser.id,
+                                typeof data.code === "string" ? data.code : ""
+                            );
+                            await audit({
+                                action: "update",
+                                entity_type: "user",
+                                entity_id: currentUser.id,
+                                before: { two_factor_enabled: false },
+                                after: { two_factor_enabled: true },
+                            });
+                            return Response.json({ success: true, recoveryCodes });
+                        } else if (path === "2fa/disable" && method === "POST") {
+                            const data = (await request.json()) as TwoFactorCodeInput;
+                            await api.disableTwoFactor(
+                                currentUser.id,
+                                typeof data.code === "string" ? data.code : ""
+                            );
+                            await audit({
+                                action: "update",
+                                entity_type: "user",
+                                entity_id: currentUser.id,
+                                before: { two_factor_enabled: true },
+                                after: { two_factor_enabled: false },
+                            });
+                            return Response.json({ success: true });
+                        }
+                    } catch (error) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: error instanceof Error ? error.message : "两步验证操作失败",
+                            },
+                            { status: 400 }
+                        );
+                    }
+                }
+
+                // 个人API令牌管理 - 每个用户只能管理自己的令牌
+                else if (path === "api-tokens" && method === "GET") {
+                    if (!currentUser?.id) {
+                        return Response.json(
+                            { success: false, message: "当前用户无法使用API令牌" },
+                            { status: 400 }
+                        );
+                    }
+                    const tokens = await api.getApiTokens(currentUser.id);
+                    return Response.json(tokens);
+                } else if (path === "api-tokens" && method === "POST") {
+                    if (!currentUser?.id) {
+                        return Response.json(
+                            { success: false, message: "当前用户无法使用API令牌" },
+                            { status: 400 }
+                        );
+                    }
+                    const data = (await request.json()) as ApiTokenInput;
+
+                    // 验证令牌数据
+                    const validation = validateApiToken(data);
+                    if (!validation.valid) {
+                        return Response.json(
+                            {
+                                success: false,
+                                message: `验证失败: ${validation.errors?.join(", ")}`,
+                            },
+                            { status: 400 }
+                        );
+                    }
+
+                    const result = await api.createApiToken(
+                        currentUser.id,
+                        validation.sanitizedData as CreateApiTokenRequest
+                    );
+                    // 只记录令牌的名称、权限范围和前缀，不记录令牌明文
+                    await audit({
+                        action: "create",
+                        entity_type: "api_token",
+                        entity_id: result.id,
+                        after: {
+                            name: result.name,
+                            scopes: result.scopes,
+                            token_prefix: result.token_prefix,
+                        },
+                    });
+                    return Response.json(result);
+                } else if (path.startsWith("api-tokens/") && method === "DELETE") {
+                    const id = parseInt(path.split("/")[1]);
+                    if (isNaN(id)) {
+                        return Response.json({ error: "无效的ID" }, { status: 400 });
+                    }
+                    const before = currentUser?.id
+                        ? (await api.getApiTokens(currentUser.id)).find(token => token.id === id)
+                        : undefined;
+                    const result = currentUser?.id
+                        ? await api.deleteApiToken(currentUser.id, id)
+                        : false;
+                    if (!result) {
+                        return Response.json(
+                            { success: false, message: "API令牌不存在" },
+                            { status: 404 }
+                        );
+                    }
+                    await audit({ action: "delete", entity_type: "api_token", entity_id: id, before });
+                    return Response.json({ success: true });
+                }
+
+                // 审计日志查询 - 支持按用户、操作、对象和时间范围过滤
+                else if (path === "audit" && method === "GET") {
+                    const params = url.searchParams;
+                    const query: AuditLogQuery = {
+                        username: params.get("username") || undefined,
+                        action: AUDIT_ACTIONS.find(action => action === params.get("action")),
+                        entity_type: AUDIT_ENTITY_TYPES.find(
+                            type => type === params.get("entity_type")
+                        ),
+                        entity_id: params.get("entity_id") || undefined,
+                        since: parseOptionalInt(params.get("since")),
+                        until: parseOptionalInt(params.get("until")),
+                        limit: parseOptionalInt(params.get("limit")),
+                        offset: parseOptionalInt(params.get("offset")),
+                    };
+                    const page = await api.getAuditLogs(query);
+                    return Response.json(page);
+                }
+
+                // 初始化状态 - 已初始化后仅管理员可以访问
+                else if (path === "init" && method === "GET") {
+                    return Response.json({ initialized: true, setupRequired: false });
+                }
+                // 重新执行初始化，只补建缺失的数据表，不会修改已有数据
+                else if (path === "init" && method === "POST") {
+                    const result = await api.initDB();
+                    return Response.json({ ...result, initialized: true, setupRequired: false });
+                }
+
+                // 数据库迁移状态 - 仅管理员
+                else if (path === "migrations" && method === "GET") {
+                    return Response.json(await api.getMigrationStatus());
+                }
+                // 执行未完成的数据库迁移 - 仅管理员
+                else if (path === "migrations" && method === "POST") {
+                    return Response.json(await api.migrate());
+                }
+
+                // 数据导出路由，指定dashboard参数时只导出该面板
                 else if (path === "export" && method === "GET") {
-                    const data = await api.exportData();
+                    const dashboardId = await getDashboardParam(api, url);
+                    if (dashboardId === null) {
+                        return Response.json({ success: false, message: "面板不存在" }, { status: 404 });
+                    }
+                    const data = await api.exportData(currentUser, dashboardId);
                     return Response.json(data, {
                         headers: {
                             "Content-Disposition": "attachment; filename=navhive-data.json",
@@ -347,8 +1546,12 @@ export default {
                     });
                 }
 
-                // 数据导入路由
+                // 数据导入路由，指定dashboard参数时只替换该面板中的分组和站点
                 else if (path === "import" && method === "POST") {
+                    const dashboardId = await getDashboardParam(api, url);
+                    if (dashboardId === null) {
+                        return Response.json({ success: false, message: "面板不存在" }, { status: 404 });
+                    }
                     const data = (await request.json()) as ExportData;
 
                     // 验证导入数据
@@ -369,7 +1572,18 @@ export default {
                         );
                     }
 
-                    const result = await api.importData(data as ExportData);
+                    const before = await api.exportData(undefined, dashboardId);
+                    const result = await api.importData(data as ExportData, dashboardId);
+                    if (result) {
+                        const after = await api.exportData(undefined, dashboardId);
+                        await audit({
+                            action: "import",
+                            entity_type: "data",
+                            entity_id: dashboardId,
+                            before: summarizeExport(before),
+                            after: summarizeExport(after),
+                        });
+                    }
                     return Response.json({ success: result });
                 }
 
@@ -394,17 +1608,57 @@ interface Env {
     AUTH_USERNAME?: string;
     AUTH_PASSWORD?: string;
     AUTH_SECRET?: string;
+    AUTH_PUBLIC_READ?: string;
+    AUTH_REMEMBER_ME_DAYS?: string;
+    AUTH_COOKIE_SESSIONS?: string;
+    OIDC_ISSUER?: string;
+    OIDC_CLIENT_ID?: string;
+    OIDC_CLIENT_SECRET?: string;
+    OIDC_SCOPES?: string;
+    OIDC_ROLE_MAPPING?: string;
+    DB_AUTO_MIGRATE?: string;
+    TRASH_RETENTION_DAYS?: string;
 }
 
 // 验证用接口
 interface LoginInput {
     username?: string;
     password?: string;
+    remember?: boolean;
+}
+
+interface ApiTokenInput {
+    name?: string;
+    scopes?: unknown;
+}
+
+interface TwoFactorLoginInput {
+    twoFactorToken?: string;
+    code?: string;
+}
+
+interface TwoFactorCodeInput {
+    code?: unknown;
+}
+
+interface RefreshInput {
+    refreshToken?: string;
 }
 
 interface GroupInput {
     name?: string;
     order_num?: number;
+    visibility?: string;
+    parent_id?: unknown;
+    dashboard_id?: unknown;
+}
+
+interface DashboardInput {
+    slug?: unknown;
+    name?: unknown;
+    title?: unknown;
+    custom_css?: unknown;
+    order_num?: unknown;
 }
 
 interface SiteInput {
@@ -415,12 +1669,315 @@ interface SiteInput {
     description?: string;
     notes?: string;
     order_num?: number;
+    tags?: unknown;
+    alt_urls?: unknown;
+    custom_fields?: unknown;
+}
+
+interface IconInput {
+    data?: unknown;
 }
 
 interface ConfigInput {
     value?: string;
 }
 
+interface SetupInput {
+    username?: string;
+    password?: string;
+    siteTitle?: string;
+    starterGroups?: unknown;
+}
+
+interface UserInput {
+    username?: string;
+    password?: string;
+    role?: string;
+    is_active?: boolean;
+}
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// 从Authorization头部提取Bearer令牌
+function getBearerToken(request: Request): string | null {
+    const authHeader = request.headers.get("Authorization");
+    if (!authHeader) {
+        return null;
+    }
+    const [authType, token] = authHeader.split(" ");
+    return authType === "Bearer" && token ? token : null;
+}
+
+// 解析Cookie请求头，我们写入的Cookie值均为URL安全字符，无需解码
+function parseCookies(request: Request): Record<string, string> {
+    const cookies: Record<string, string> = {};
+    for (const part of (request.headers.get("Cookie") || "").split(";")) {
+        const index = part.indexOf("=");
+        if (index > 0) {
+            cookies[part.slice(0, index).trim()] = part.slice(index + 1).trim();
+        }
+    }
+    return cookies;
+}
+
+// 生成Set-Cookie值，maxAge未设置时为浏览器会话Cookie，为0时删除Cookie
+function serializeCookie(
+    name: string,
+    value: string,
+    options: { path: string; httpOnly: boolean; maxAge?: number; sameSite?: "Strict" | "Lax" }
+): string {
+    let cookie = `${name}=${value}; Path=${options.path}; Secure; SameSite=${options.sameSite || "Strict"}`;
+    if (options.httpOnly) {
+        cookie += "; HttpOnly";
+    }
+    if (options.maxAge !== undefined) {
+        cookie += `; Max-Age=${options.maxAge}`;
+    }
+    return cookie;
+}
+
+// Cookie会话模式下登录或续期成功：令牌写入HttpOnly Cookie，不在响应体中返回
+// 勾选"记住我"时Cookie按配置天数持久化，否则在浏览器关闭时失效
+function sessionCookieResponse(
+    api: NavigationAPI,
+    result: LoginResponse,
+    csrfToken: string
+): Response {
+    const headers = new Headers();
+    appendSessionCookies(headers, api, result, csrfToken);
+    return Response.json({ ...result, token: undefined, refreshToken: undefined }, { headers });
+}
+
+function appendSessionCookies(
+    headers: Headers,
+    api: NavigationAPI,
+    result: LoginResponse,
+    csrfToken: string
+): void {
+    const maxAge = result.remember ? api.getRememberMeDays() * 24 * 60 * 60 : undefined;
+    headers.append(
+        "Set-Cookie",
+        serializeCookie(SESSION_COOKIE_NAME, result.token || "", {
+            path: "/api",
+            httpOnly: true,
+            maxAge,
+        })
+    );
+    headers.append(
+        "Set-Cookie",
+        serializeCookie(REFRESH_COOKIE_NAME, result.refreshToken || "", {
+            path: "/api/refresh",
+            httpOnly: true,
+            maxAge,
+        })
+    );
+    headers.append(
+        "Set-Cookie",
+        serializeCookie(CSRF_COOKIE_NAME, csrfToken, { path: "/", httpOnly: false, maxAge })
+    );
+}
+
+// SSO回调地址，需要在身份提供方中登记
+function getOidcRedirectUri(url: URL): string {
+    return `${url.origin}/api/auth/oidc/callback`;
+}
+
+// 退出登录时清除所有会话Cookie
+function clearSessionCookies(): Headers {
+    const headers = new Headers();
+    headers.append(
+        "Set-Cookie",
+        serializeCookie(SESSION_COOKIE_NAME, "", { path: "/api", httpOnly: true, maxAge: 0 })
+    );
+    headers.append(
+        "Set-Cookie",
+        serializeCookie(REFRESH_COOKIE_NAME, "", {
+            path: "/api/refresh",
+            httpOnly: true,
+            maxAge: 0,
+        })
+    );
+    headers.append(
+        "Set-Cookie",
+        serializeCookie(CSRF_COOKIE_NAME, "", { path: "/", httpOnly: false, maxAge: 0 })
+    );
+    return headers;
+}
+
+// 双重提交校验：请求头中的CSRF令牌必须与Cookie中的一致
+function hasValidCsrfToken(request: Request, cookies: Record<string, string>): boolean {
+    const expected = cookies[CSRF_COOKIE_NAME];
+    return !!expected && request.headers.get(CSRF_HEADER_NAME) === expected;
+}
+
+function csrfFailureResponse(): Response {
+    return Response.json(
+        { success: false, message: "CSRF校验失败，请刷新页面后重试" },
+        { status: 403 }
+    );
+}
+
+// 网站历史版本包含修改前的内容（可能来自隐藏分组），只有编辑者可以查看和恢复
+function isSiteRevisionsPath(path: string): boolean {
+    return path.startsWith("sites/") && path.split("/")[2] === "revisions";
+}
+
+// 公开只读模式下访客可以访问的路由
+function isPublicReadablePath(path: string): boolean {
+    return (
+        path === "dashboards" ||
+        path === "groups" ||
+        path.startsWith("groups/") ||
+        path === "sites" ||
+        (path.startsWith("sites/") && !isSiteRevisionsPath(path)) ||
+        path === "configs" ||
+        path.startsWith("configs/")
+    );
+}
+
+// 解析查询参数中的面板，可以是面板路径或ID；未指定时返回undefined，面板不存在时返回null
+async function getDashboardParam(api: NavigationAPI, url: URL): Promise<number | null | undefined> {
+    const value = url.searchParams.get("dashboard");
+    if (!value) {
+        return undefined;
+    }
+    const dashboard =
+        (await api.getDashboardBySlug(value)) ||
+        (/^\d+$/.test(value) ? await api.getDashboard(parseInt(value)) : null);
+    return dashboard ? (dashboard.id as number) : null;
+}
+
+// 解析可选的整数查询参数
+function parseOptionalInt(value: string | null): number | undefined {
+    const parsed = value ? parseInt(value) : NaN;
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+// 对比批量排序前后的order_num，以记录ID作为变更字段
+// 排序数据中包含parent_id时，同时记录上级分组的变化
+function diffOrders(
+    records: { id?: number; order_num: number; parent_id?: number | null }[],
+    orders: { id: number; order_num: number; parent_id?: number | null }[]
+): Pick<AuditEntry, "before" | "after"> {
+    const ids = new Set(orders.map(item => item.id));
+    const previous = records.filter(record => record.id !== undefined && ids.has(record.id));
+    if (!orders.some(item => item.parent_id !== undefined)) {
+        return {
+            before: Object.fromEntries(previous.map(record => [record.id, record.order_num])),
+            after: Object.fromEntries(orders.map(item => [item.id, item.order_num])),
+        };
+    }
+
+    // 未提供parent_id的项目保持原上级分组
+    const parents = new Map(previous.map(record => [record.id, record.parent_id ?? null]));
+    return {
+        before: Object.fromEntries(
+            previous.map(record => [
+                record.id,
+                { order_num: record.order_num, parent_id: record.parent_id ?? null },
+            ])
+        ),
+        after: Object.fromEntries(
+            orders.map(item => [
+                item.id,
+                {
+                    order_num: item.order_num,
+                    parent_id:
+                        item.parent_id !== undefined ? item.parent_id : (parents.get(item.id) ?? null),
+                },
+            ])
+        ),
+    };
+}
+
+// 导入前后只记录数据规模，避免审计日志过大
+function summarizeExport(data: ExportData): Record<string, number> {
+    return {
+        dashboards: data.dashboards?.length ?? 0,
+        groups: data.groups.length,
+        sites: data.sites.length,
+        icons: data.icons?.length ?? 0,
+        configs: Object.keys(data.configs).length,
+    };
+}
+
+// 路由所需的最低角色：读取和退出登录为viewer，编辑分组和站点以及回收站为editor，面板、配置、导入、用户、会话和审计日志为admin
+function getRequiredRole(path: string, method: string): UserRole {
+    if (
+        path === "users" ||
+        path.startsWith("users/") ||
+        path === "sessions" ||
+        path.startsWith("sessions/") ||
+        path === "audit" ||
+        path === "init" ||
+        path === "migrations" ||
+        path === "import"
+    ) {
+        return "admin";
+    }
+    // 回收站和网站历史版本中包含隐藏分组的内容，查看也需要编辑权限；获取网站图标和网页信息会请求外部网站并保存图标
+    if (
+        path === "trash" ||
+        path.startsWith("trash/") ||
+        isSiteRevisionsPath(path) ||
+        path === "favicon" ||
+        path === "metadata"
+    ) {
+        return "editor";
+    }
+    if (
+        method === "GET" ||
+        path === "logout" ||
+        path === "api-tokens" ||
+        path.startsWith("api-tokens/") ||
+        path === "2fa" ||
+        path.startsWith("2fa/")
+    ) {
+        return "viewer";
+    }
+    if (path.startsWith("configs/") || path === "dashboards" || path.startsWith("dashboards/")) {
+        return "admin";
+    }
+    return "editor";
+}
+
+// API令牌访问路由所需的权限范围：管理类操作（包括令牌管理本身）需要admin
+function getRequiredScope(path: string, method: string): ApiTokenScope {
+    if (
+        getRequiredRole(path, method) === "admin" ||
+        path === "api-tokens" ||
+        path.startsWith("api-tokens/")
+    ) {
+        return "admin";
+    }
+    if (path === "favicon" || path === "metadata") {
+        return "write:sites";
+    }
+    if (method === "GET" || path === "logout") {
+        return "read";
+    }
+    if (
+        path === "sites" ||
+        path.startsWith("sites/") ||
+        path === "site-orders" ||
+        path === "icons" ||
+        path.startsWith("trash/sites/")
+    ) {
+        return "write:sites";
+    }
+    // 清空回收站会同时删除分组和站点，按编辑分组的权限处理
+    if (
+        path === "groups" ||
+        path.startsWith("groups/") ||
+        path === "group-orders" ||
+        path === "trash" ||
+        path.startsWith("trash/groups/")
+    ) {
+        return "write:groups";
+    }
+    return "admin";
+}
+
 // 输入验证函数
 function validateLogin(data: LoginInput): { valid: boolean; errors?: string[] } {
     const errors: string[] = [];
@@ -433,6 +1990,10 @@ function validateLogin(data: LoginInput): { valid: boolean; errors?: string[] }
         errors.push("密码不能为空且必须是字符串");
     }
 
+    if (data.remember !== undefined && typeof data.remember !== "boolean") {
+        errors.push("记住我必须是布尔值");
+    }
+
     return { valid: errors.length === 0, errors };
 }
 
@@ -458,6 +2019,33 @@ function validateGroup(data: GroupInput): {
         sanitizedData.order_num = data.order_num;
     }
 
+    // 验证可见性 (可选)
+    if (data.visibility !== undefined) {
+        if (!GROUP_VISIBILITIES.includes(data.visibility as GroupVisibility)) {
+            errors.push("无效的分组可见性");
+        } else {
+            sanitizedData.visibility = data.visibility as GroupVisibility;
+        }
+    }
+
+    // 验证上级分组 (可选)
+    if (data.parent_id !== undefined) {
+        if (!isValidParentId(data.parent_id)) {
+            errors.push("上级分组ID必须是数字或null");
+        } else {
+            sanitizedData.parent_id = data.parent_id;
+        }
+    }
+
+    // 验证所属面板 (可选)
+    if (data.dashboard_id !== undefined) {
+        if (!isValidDashboardId(data.dashboard_id)) {
+            errors.push("面板ID必须是数字");
+        } else {
+            sanitizedData.dashboard_id = data.dashboard_id;
+        }
+    }
+
     return {
         valid: errors.length === 0,
         errors,
@@ -465,7 +2053,85 @@ function validateGroup(data: GroupInput): {
     };
 }
 
-function validateSite(data: SiteInput): {
+// 上级分组ID为正整数，null表示顶级分组
+function isValidParentId(value: unknown): value is number | null {
+    return value === null || isValidDashboardId(value);
+}
+
+// 面板ID为正整数
+function isValidDashboardId(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+// partial为true时用于修改面板，只验证提供的字段
+function validateDashboard(
+    data: DashboardInput,
+    partial = false
+): {
+    valid: boolean;
+    errors?: string[];
+    sanitizedData?: Partial<Dashboard>;
+} {
+    const errors: string[] = [];
+    const sanitizedData: Partial<Dashboard> = {};
+
+    // 验证路径
+    if (data.slug !== undefined || !partial) {
+        const slug = typeof data.slug === "string" ? data.slug.trim().toLowerCase() : "";
+        if (!DASHBOARD_SLUG_PATTERN.test(slug)) {
+            errors.push("面板路径只能包含小写字母、数字和连字符，且不能超过50个字符");
+        } else {
+            sanitizedData.slug = slug;
+        }
+    }
+
+    // 验证名称
+    if (data.name !== undefined || !partial) {
+        if (typeof data.name !== "string" || !data.name.trim()) {
+            errors.push("面板名称不能为空且必须是字符串");
+        } else {
+            sanitizedData.name = data.name.trim().slice(0, 100); // 限制长度
+        }
+    }
+
+    // 验证标题 (可选)
+    if (data.title !== undefined) {
+        if (typeof data.title !== "string") {
+            errors.push("面板标题必须是字符串");
+        } else {
+            sanitizedData.title = data.title.trim().slice(0, 100);
+        }
+    }
+
+    // 验证自定义CSS (可选)
+    if (data.custom_css !== undefined) {
+        if (typeof data.custom_css !== "string") {
+            errors.push("自定义CSS必须是字符串");
+        } else {
+            sanitizedData.custom_css = data.custom_css;
+        }
+    }
+
+    // 验证排序号
+    if (data.order_num !== undefined || !partial) {
+        if (typeof data.order_num !== "number") {
+            errors.push("排序号必须是数字");
+        } else {
+            sanitizedData.order_num = data.order_num;
+        }
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        sanitizedData: errors.length === 0 ? sanitizedData : undefined,
+    };
+}
+
+function validateSite(
+    data: SiteInput,
+    customFields: CustomField[]
+): {
     valid: boolean;
     errors?: string[];
     sanitizedData?: Site;
@@ -505,11 +2171,9 @@ function validateSite(data: SiteInput): {
         if (typeof data.icon !== "string") {
             errors.push("图标URL必须是字符串");
         } else if (data.icon) {
-            try {
-                // 验证URL格式
-                new URL(data.icon);
+            if (isValidIcon(data.icon.trim())) {
                 sanitizedData.icon = data.icon.trim();
-            } catch {
+            } else {
                 errors.push("无效的图标URL格式");
             }
         } else {
@@ -540,6 +2204,34 @@ function validateSite(data: SiteInput): {
         sanitizedData.order_num = data.order_num;
     }
 
+    // 验证标签 (可选)
+    if (data.tags !== undefined) {
+        const tagError = validateTags(data.tags);
+        if (tagError) {
+            errors.push(tagError);
+        } else {
+            sanitizedData.tags = normalizeTags(data.tags);
+        }
+    }
+
+    // 验证备用链接 (可选)
+    if (data.alt_urls !== undefined) {
+        const altUrlError = validateAltUrls(data.alt_urls);
+        if (altUrlError) {
+            errors.push(altUrlError);
+        } else {
+            sanitizedData.alt_urls = normalizeAltUrls(data.alt_urls);
+        }
+    }
+
+    // 验证自定义字段，未传入时同样检查必填字段
+    const customFieldResult = validateCustomFields(data.custom_fields ?? {}, customFields);
+    if (customFieldResult.error) {
+        errors.push(customFieldResult.error);
+    } else {
+        sanitizedData.custom_fields = customFieldResult.values;
+    }
+
     return {
         valid: errors.length === 0,
         errors,
@@ -547,16 +2239,337 @@ function validateSite(data: SiteInput): {
     };
 }
 
-function validateConfig(data: ConfigInput): { valid: boolean; errors?: string[] } {
+// 站点图标可以是完整的URL，也可以是上传图标的相对路径
+function isValidIcon(icon: string): boolean {
+    if (getIconId(icon)) {
+        return true;
+    }
+    try {
+        new URL(icon);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// 只允许获取http和https地址的内容
+function isHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === "http:" || url.protocol === "https:";
+    } catch {
+        return false;
+    }
+}
+
+// 验证上传的图标，格式和大小在保存时按文件头检查
+function validateIcon(data: IconInput): {
+    valid: boolean;
+    errors?: string[];
+    bytes?: Uint8Array;
+} {
+    if (typeof data.data !== "string" || !data.data) {
+        return { valid: false, errors: ["图标内容不能为空"] };
+    }
+    // Base64编码后约为原始大小的4/3，超出很多时不必解码
+    if (data.data.length > MAX_ICON_BYTES * 2) {
+        return { valid: false, errors: [`图标不能超过${MAX_ICON_BYTES / 1024}KB`] };
+    }
+    const bytes = decodeIconData(data.data);
+    if (!bytes) {
+        return { valid: false, errors: ["图标内容必须是Base64编码"] };
+    }
+    return { valid: true, bytes };
+}
+
+// 检查标签格式，返回错误信息
+function validateTags(tags: unknown): string | null {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== "string")) {
+        return "标签必须是字符串数组";
+    }
+    if (tags.length > MAX_TAGS_PER_SITE) {
+        return `每个站点最多${MAX_TAGS_PER_SITE}个标签`;
+    }
+    if (tags.some(tag => tag.trim().length > MAX_TAG_LENGTH)) {
+        return `标签不能超过${MAX_TAG_LENGTH}个字符`;
+    }
+    return null;
+}
+
+// 检查备用链接格式，返回错误信息；链接为空的网络环境会被忽略
+function validateAltUrls(urls: unknown): string | null {
+    if (!urls || typeof urls !== "object" || Array.isArray(urls)) {
+        return "备用链接必须是以网络环境名称为键的对象";
+    }
+    const entries = Object.entries(urls).filter(([, url]) => url !== "");
+    if (entries.length > MAX_ALT_URLS_PER_SITE) {
+        return `每个站点最多${MAX_ALT_URLS_PER_SITE}个备用链接`;
+    }
+    for (const [name, url] of entries) {
+        if (!NETWORK_PROFILE_PATTERN.test(name.trim().toLowerCase())) {
+            return `网络环境名称 "${name}" 只能包含字母、数字、下划线和连字符，最多20个字符`;
+        }
+        if (typeof url !== "string") {
+            return "备用链接必须是字符串";
+        }
+        try {
+            new URL(url.trim());
+        } catch {
+            return `网络环境 "${name}" 的链接格式无效`;
+        }
+    }
+    return null;
+}
+
+// 按字段定义检查自定义字段的值，只保留已定义的字段
+function validateCustomFields(
+    values: unknown,
+    customFields: CustomField[]
+): { error: string | null; values: CustomFieldValues } {
+    if (!values || typeof values !== "object" || Array.isArray(values)) {
+        return { error: "自定义字段必须是以字段名称为键的对象", values: {} };
+    }
+    const input = values as Record<string, unknown>;
+    for (const field of customFields) {
+        const error = validateCustomFieldValue(field, input[field.name]);
+        if (error) {
+            return { error, values: {} };
+        }
+    }
+    return {
+        error: null,
+        values: normalizeCustomFieldValues(
+            Object.fromEntries(customFields.map(field => [field.name, input[field.name]]))
+        ),
+    };
+}
+
+// 检查自定义字段定义，返回错误信息
+function validateCustomFieldSchema(value: string): string | null {
+    let fields: unknown;
+    try {
+        fields = JSON.parse(value);
+    } catch {
+        return "自定义字段定义必须是JSON数组";
+    }
+    if (!Array.isArray(fields)) {
+        return "自定义字段定义必须是JSON数组";
+    }
+    if (fields.length > MAX_CUSTOM_FIELDS) {
+        return `最多${MAX_CUSTOM_FIELDS}个自定义字段`;
+    }
+    const names = new Set<string>();
+    for (const field of fields) {
+        const name = typeof field?.name === "string" ? field.name.trim() : "";
+        if (!name || name.length > MAX_CUSTOM_FIELD_NAME_LENGTH) {
+            return `字段名称不能为空且不能超过${MAX_CUSTOM_FIELD_NAME_LENGTH}个字符`;
+        }
+        if (names.has(name)) {
+            return `字段名称 "${name}" 重复`;
+        }
+        if (!CUSTOM_FIELD_TYPES.includes(field.type)) {
+            return `字段 "${name}" 的类型必须是 ${CUSTOM_FIELD_TYPES.join("、")} 之一`;
+        }
+        names.add(name);
+    }
+    return null;
+}
+
+function validateConfig(key: string, data: ConfigInput): { valid: boolean; errors?: string[] } {
     const errors: string[] = [];
 
     if (!data.value || typeof data.value !== "string") {
         errors.push("配置值不能为空且必须是字符串");
+    } else if (key === CUSTOM_FIELDS_CONFIG_KEY) {
+        const schemaError = validateCustomFieldSchema(data.value);
+        if (schemaError) {
+            errors.push(schemaError);
+        }
     }
 
     return { valid: errors.length === 0, errors };
 }
 
+function validateUser(data: UserInput): {
+    valid: boolean;
+    errors?: string[];
+    sanitizedData?: CreateUserRequest;
+} {
+    const errors: string[] = [];
+    const sanitizedData: Partial<CreateUserRequest> = {};
+
+    // 验证用户名
+    if (!data.username || typeof data.username !== "string" || !data.username.trim()) {
+        errors.push("用户名不能为空且必须是字符串");
+    } else if (data.username.trim().length > 50) {
+        errors.push("用户名不能超过50个字符");
+    } else {
+        sanitizedData.username = data.username.trim();
+    }
+
+    // 验证密码
+    if (!data.password || typeof data.password !== "string") {
+        errors.push("密码不能为空且必须是字符串");
+    } else if (data.password.length < MIN_PASSWORD_LENGTH) {
+        errors.push(`密码长度不能少于${MIN_PASSWORD_LENGTH}位`);
+    } else {
+        sanitizedData.password = data.password;
+    }
+
+    // 验证角色 (可选)
+    if (data.role !== undefined) {
+        if (!USER_ROLES.includes(data.role as UserRole)) {
+            errors.push("无效的用户角色");
+        } else {
+            sanitizedData.role = data.role as UserRole;
+        }
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        sanitizedData: errors.length === 0 ? (sanitizedData as CreateUserRequest) : undefined,
+    };
+}
+
+// 最多可以一次创建的初始分组数量
+const MAX_STARTER_GROUPS = 20;
+
+function validateSetup(
+    data: SetupInput,
+    authEnabled: boolean
+): {
+    valid: boolean;
+    errors?: string[];
+    sanitizedData?: SetupRequest;
+} {
+    const errors: string[] = [];
+    const sanitizedData: SetupRequest = {};
+
+    if (!data || typeof data !== "object") {
+        return { valid: false, errors: ["请求数据无效"] };
+    }
+
+    // 启用认证时必须创建管理员账号
+    if (authEnabled || data.username !== undefined || data.password !== undefined) {
+        const account = validateUser({ username: data.username, password: data.password });
+        if (account.valid && account.sanitizedData) {
+            sanitizedData.username = account.sanitizedData.username;
+            sanitizedData.password = account.sanitizedData.password;
+        } else {
+            errors.push(...(account.errors || []));
+        }
+    }
+
+    // 验证站点标题 (可选)
+    if (data.siteTitle !== undefined) {
+        if (typeof data.siteTitle !== "string") {
+            errors.push("站点标题必须是字符串");
+        } else if (data.siteTitle.trim().length > 100) {
+            errors.push("站点标题不能超过100个字符");
+        } else if (data.siteTitle.trim()) {
+            sanitizedData.siteTitle = data.siteTitle.trim();
+        }
+    }
+
+    // 验证初始分组 (可选)
+    if (data.starterGroups !== undefined) {
+        if (
+            !Array.isArray(data.starterGroups) ||
+            data.starterGroups.some(name => typeof name !== "string" || !name.trim())
+        ) {
+            errors.push("初始分组必须是非空字符串数组");
+        } else if (data.starterGroups.length > MAX_STARTER_GROUPS) {
+            errors.push(`初始分组不能超过${MAX_STARTER_GROUPS}个`);
+        } else {
+            sanitizedData.starterGroups = (data.starterGroups as string[]).map(name => name.trim());
+        }
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        sanitizedData: errors.length === 0 ? sanitizedData : undefined,
+    };
+}
+
+function validateUserUpdate(data: UserInput): {
+    valid: boolean;
+    errors?: string[];
+    sanitizedData?: UpdateUserRequest;
+} {
+    const errors: string[] = [];
+    const sanitizedData: UpdateUserRequest = {};
+
+    // 验证角色 (可选)
+    if (data.role !== undefined) {
+        if (!USER_ROLES.includes(data.role as UserRole)) {
+            errors.push("无效的用户角色");
+        } else {
+            sanitizedData.role = data.role as UserRole;
+        }
+    }
+
+    // 验证启用状态 (可选)
+    if (data.is_active !== undefined) {
+        if (typeof data.is_active !== "boolean") {
+            errors.push("启用状态必须是布尔值");
+        } else {
+            sanitizedData.is_active = data.is_active;
+        }
+    }
+
+    // 验证重置密码 (可选)
+    if (data.password !== undefined) {
+        if (typeof data.password !== "string" || data.password.length < MIN_PASSWORD_LENGTH) {
+            errors.push(`密码长度不能少于${MIN_PASSWORD_LENGTH}位`);
+        } else {
+            sanitizedData.password = data.password;
+        }
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        sanitizedData: errors.length === 0 ? sanitizedData : undefined,
+    };
+}
+
+function validateApiToken(data: ApiTokenInput): {
+    valid: boolean;
+    errors?: string[];
+    sanitizedData?: CreateApiTokenRequest;
+} {
+    const errors: string[] = [];
+
+    if (!data.name || typeof data.name !== "string" || data.name.trim() === "") {
+        errors.push("令牌名称不能为空且必须是字符串");
+    }
+
+    if (
+        !Array.isArray(data.scopes) ||
+        data.scopes.length === 0 ||
+        data.scopes.some(scope => !API_TOKEN_SCOPES.includes(scope as ApiTokenScope))
+    ) {
+        errors.push(`权限范围必须是非空数组，可选值: ${API_TOKEN_SCOPES.join(", ")}`);
+    }
+
+    return {
+        valid: errors.length === 0,
+        errors,
+        sanitizedData:
+            errors.length === 0
+                ? {
+                      name: (data.name as string).trim(),
+                      // 去重并按固定顺序保存
+                      scopes: API_TOKEN_SCOPES.filter(scope =>
+                          (data.scopes as string[]).includes(scope)
+                      ),
+                  }
+                : undefined,
+    };
+}
+
 // 声明ExportedHandler类型
 interface ExportedHandler {
     fetch(request: Request, env: Env, ctx?: ExecutionContext): Response | Promise<Response>;